@@ -0,0 +1,57 @@
+-- ============================================
+-- Migration: Atomic guild membership changes
+-- ============================================
+-- This migration adds add_guild_member and remove_guild_member, which change
+-- guilds.members and users.guild in one statement each so concurrent joins,
+-- approvals and removals cannot drop a member or put a user in two guilds
+-- Run this in Supabase SQL Editor
+
+-- Add a user to a guild. The user must not be in a guild yet; otherwise the
+-- call fails with HINT 'already_in_guild' and nothing changes
+CREATE OR REPLACE FUNCTION add_guild_member(p_guild_id UUID, p_user_id UUID)
+RETURNS guilds AS $$
+DECLARE
+  v_guild guilds;
+BEGIN
+  UPDATE users SET guild = p_guild_id
+  WHERE id = p_user_id AND guild IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is already a member of a guild' USING ERRCODE = 'P0001', HINT = 'already_in_guild';
+  END IF;
+
+  UPDATE guilds SET members = CASE
+    WHEN p_user_id = ANY(COALESCE(members, ARRAY[]::UUID[])) THEN members
+    ELSE array_append(COALESCE(members, ARRAY[]::UUID[]), p_user_id)
+  END
+  WHERE id = p_guild_id
+  RETURNING * INTO v_guild;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guild not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_guild;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove a user from a guild's members and officers, and clear users.guild
+-- when it still points at that guild
+CREATE OR REPLACE FUNCTION remove_guild_member(p_guild_id UUID, p_user_id UUID)
+RETURNS guilds AS $$
+DECLARE
+  v_guild guilds;
+BEGIN
+  UPDATE guilds SET
+    members = array_remove(members, p_user_id),
+    officers = array_remove(officers, p_user_id)
+  WHERE id = p_guild_id
+  RETURNING * INTO v_guild;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guild not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE users SET guild = NULL
+  WHERE id = p_user_id AND guild = p_guild_id;
+
+  RETURN v_guild;
+END;
+$$ LANGUAGE plpgsql;
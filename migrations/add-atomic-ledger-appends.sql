@@ -0,0 +1,57 @@
+-- ============================================
+-- Migration: Atomic ledger appends and one award per drop
+-- ============================================
+-- This migration adds append_contribution_ledger_entry, which computes an
+-- entry's balance_after from the member's previous entry and refuses spends
+-- beyond the balance in the same statement, and makes every drop of a kill
+-- awardable once
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE loot_awards DROP CONSTRAINT IF EXISTS loot_awards_spawn_event_id_item_key;
+ALTER TABLE loot_awards ADD CONSTRAINT loot_awards_spawn_event_id_item_key UNIQUE (spawn_event_id, item);
+
+-- Append a ledger entry with its balance_after taken from the member's
+-- previous entry. Appends for one member run one at a time, and with
+-- p_require_balance the entry is refused when it would take the balance
+-- below zero, so concurrent spends cannot overdraw
+CREATE OR REPLACE FUNCTION append_contribution_ledger_entry(
+  p_guild_id UUID,
+  p_member_name TEXT,
+  p_member_id UUID,
+  p_entry_type TEXT,
+  p_points NUMERIC,
+  p_reason TEXT,
+  p_spawn_event_id UUID,
+  p_loot_award_id UUID,
+  p_created_by UUID,
+  p_require_balance BOOLEAN DEFAULT false
+) RETURNS contribution_ledger AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_entry contribution_ledger;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_guild_id::TEXT || ':' || p_member_name));
+
+  SELECT balance_after INTO v_balance
+  FROM contribution_ledger
+  WHERE guild_id = p_guild_id AND member_name = p_member_name
+  ORDER BY created DESC
+  LIMIT 1;
+
+  v_balance := ROUND(COALESCE(v_balance, 0) + p_points, 2);
+  IF p_require_balance AND v_balance < 0 THEN
+    RAISE EXCEPTION 'Not enough points (balance %)', v_balance - p_points USING ERRCODE = 'P0001', HINT = 'insufficient_points';
+  END IF;
+
+  INSERT INTO contribution_ledger (
+    created, guild_id, member_name, member_id, entry_type, points, balance_after,
+    spawn_event_id, loot_award_id, reason, created_by
+  ) VALUES (
+    clock_timestamp(), p_guild_id, p_member_name, p_member_id, p_entry_type, ROUND(p_points, 2), v_balance,
+    p_spawn_event_id, p_loot_award_id, p_reason, p_created_by
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,102 @@
+-- ============================================
+-- Migration: Atomic user stats updates
+-- ============================================
+-- This migration adds functions that change single keys of users.stats in
+-- one statement, so reputation and achievement updates running at the same
+-- time no longer overwrite each other's counters
+-- Run this in Supabase SQL Editor
+
+-- Add each increment in p_increments to its stats counter, never going below
+-- zero, and return the updated stats (NULL when the user does not exist)
+CREATE OR REPLACE FUNCTION increment_user_stats(p_user_id UUID, p_increments JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+BEGIN
+  UPDATE users SET stats = COALESCE(users.stats, '{}'::jsonb) || (
+    SELECT COALESCE(jsonb_object_agg(
+      increment.key,
+      GREATEST(0, COALESCE((users.stats ->> increment.key)::NUMERIC, 0) + increment.value::NUMERIC)
+    ), '{}'::jsonb)
+    FROM jsonb_each_text(p_increments) AS increment
+  )
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Overwrite only the stats keys in p_values and return the updated stats
+CREATE OR REPLACE FUNCTION merge_user_stats(p_user_id UUID, p_values JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+BEGIN
+  UPDATE users SET stats = COALESCE(stats, '{}'::jsonb) || p_values
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a report day (UTC) towards the daily report streak. Days up to the
+-- last counted one are ignored; the day after it extends the streak and any
+-- later day starts it over. Returns the updated stats
+CREATE OR REPLACE FUNCTION record_user_report_day(p_user_id UUID, p_day DATE)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+  v_last DATE;
+  v_streak INTEGER;
+BEGIN
+  SELECT COALESCE(stats, '{}'::jsonb) INTO v_stats FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_last := (v_stats ->> 'last_report_date')::DATE;
+  IF v_last IS NOT NULL AND v_last >= p_day THEN
+    RETURN v_stats;
+  END IF;
+
+  v_streak := CASE WHEN v_last = p_day - 1 THEN COALESCE((v_stats ->> 'report_streak')::INTEGER, 0) + 1 ELSE 1 END;
+
+  UPDATE users SET stats = v_stats || jsonb_build_object(
+    'report_streak', v_streak,
+    'longest_report_streak', GREATEST(COALESCE((v_stats ->> 'longest_report_streak')::INTEGER, 0), v_streak),
+    'last_report_date', to_char(p_day, 'YYYY-MM-DD')
+  )
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add achievements to stats.achievements and return the ones the user did not
+-- have yet, so concurrent awards of the same achievement only count once
+CREATE OR REPLACE FUNCTION add_user_achievements(p_user_id UUID, p_achievements TEXT[])
+RETURNS TEXT[] AS $$
+DECLARE
+  v_owned JSONB;
+  v_added TEXT[];
+BEGIN
+  SELECT COALESCE(stats -> 'achievements', '[]'::jsonb) INTO v_owned FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT achievement), ARRAY[]::TEXT[]) INTO v_added
+  FROM unnest(p_achievements) AS achievement
+  WHERE NOT v_owned ? achievement;
+
+  IF array_length(v_added, 1) > 0 THEN
+    UPDATE users SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{achievements}', v_owned || to_jsonb(v_added))
+    WHERE id = p_user_id;
+  END IF;
+
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,13 @@
+-- ============================================
+-- Migration: Add fixed schedule columns to bosses
+-- ============================================
+-- This migration adds fixed-schedule bosses, which spawn at set server times
+-- (a cron expression or weekday/time slots in the server timezone) instead of
+-- counting down a respawn timer
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS schedule_type TEXT DEFAULT 'respawn';
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS schedule JSONB;
+
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_schedule_type_check;
+ALTER TABLE bosses ADD CONSTRAINT bosses_schedule_type_check CHECK (schedule_type IN ('respawn', 'fixed'));
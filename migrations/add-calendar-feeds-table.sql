@@ -0,0 +1,27 @@
+-- ============================================
+-- Migration: Add calendar_feeds table
+-- ============================================
+-- This migration adds the tokens behind the public iCalendar feeds of
+-- predicted spawns (a user's favorites, a guild or a server)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'guild', 'server')),
+  target TEXT NOT NULL, -- user id, guild id or server name
+  token TEXT NOT NULL UNIQUE, -- secret part of the public .ics URL
+  UNIQUE(user_id, scope, target) -- One feed per user and target
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON calendar_feeds(user_id);
+
+CREATE TRIGGER update_calendar_feeds_updated BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage calendar feeds" ON calendar_feeds
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,30 @@
+-- ============================================
+-- Migration: Add comment_likes table and comment moderation columns
+-- ============================================
+-- This migration records one row per user like (so likes cannot be counted twice)
+-- and adds soft delete / edit tracking columns to comments
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS comment_likes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(comment_id, user_id) -- One like per user per comment
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON comment_likes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_user_id ON comment_likes(user_id);
+CREATE INDEX IF NOT EXISTS idx_comments_created ON comments(created DESC);
+
+ALTER TABLE comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment likes are viewable by everyone" ON comment_likes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage comment likes" ON comment_likes
+  FOR ALL USING (auth.role() = 'service_role');
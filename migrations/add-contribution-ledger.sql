@@ -0,0 +1,67 @@
+-- ============================================
+-- Migration: Add DKP points ledger and loot awards
+-- ============================================
+-- This migration adds the append-only contribution_ledger and the
+-- loot_awards table. Contribution scores become the sum of each member's
+-- ledger entries, so every existing score is carried over as an opening
+-- 'adjust' entry
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS loot_awards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL, -- kept when the spawn event is deleted
+  boss_id UUID NOT NULL REFERENCES bosses(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- one of the boss's drops
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  points NUMERIC(10, 2) NOT NULL CHECK (points >= 0), -- what the member paid
+  awarded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  notes TEXT
+);
+
+-- Append-only: every change to a member's points is a new row, and
+-- guild_member_contributions.contribution_score is the sum of the member's rows
+CREATE TABLE IF NOT EXISTS contribution_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'spend', 'adjust', 'decay')),
+  points NUMERIC(10, 2) NOT NULL, -- signed change
+  balance_after NUMERIC(10, 2) NOT NULL,
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL,
+  loot_award_id UUID REFERENCES loot_awards(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL -- null for automatic entries
+);
+
+CREATE INDEX IF NOT EXISTS idx_loot_awards_guild_id_created ON loot_awards(guild_id, created DESC);
+CREATE INDEX IF NOT EXISTS idx_loot_awards_spawn_event_id ON loot_awards(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_contribution_ledger_member ON contribution_ledger(guild_id, member_name, created);
+CREATE INDEX IF NOT EXISTS idx_contribution_ledger_guild_id_created ON contribution_ledger(guild_id, created DESC);
+
+ALTER TABLE loot_awards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contribution_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Loot award policies: public, only the backend records awards
+CREATE POLICY "Loot awards are viewable by everyone" ON loot_awards
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage loot awards" ON loot_awards
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Contribution ledger policies: public, and append-only (no update or delete policy)
+CREATE POLICY "Contribution ledger entries are viewable by everyone" ON contribution_ledger
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can append contribution ledger entries" ON contribution_ledger
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+-- Opening balances for the scores recorded before the ledger existed
+INSERT INTO contribution_ledger (guild_id, member_name, member_id, entry_type, points, balance_after, reason)
+SELECT guild_id, member_name, member_id, 'adjust', contribution_score, contribution_score, 'Opening balance'
+FROM guild_member_contributions
+WHERE contribution_score <> 0;
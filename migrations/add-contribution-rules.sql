@@ -0,0 +1,12 @@
+-- ============================================
+-- Migration: Add weighted contribution scoring
+-- ============================================
+-- This migration adds per-guild contribution rules and lets contribution
+-- scores hold fractional and negative points. The default rules keep scoring
+-- 1 point per event, so existing scores stay valid until a guild changes its
+-- rules and recalculates
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE guilds ADD COLUMN IF NOT EXISTS contribution_rules JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE guild_member_contributions ALTER COLUMN contribution_score TYPE NUMERIC(10, 2);
@@ -0,0 +1,46 @@
+-- ============================================
+-- Migration: Add guild management (officers, invite codes, join requests)
+-- ============================================
+-- This migration adds officer roles and invite codes to guilds, and a
+-- guild_join_requests table for join requests awaiting approval
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE guilds ADD COLUMN IF NOT EXISTS officers UUID[] DEFAULT ARRAY[]::UUID[];
+ALTER TABLE guilds ADD COLUMN IF NOT EXISTS invite_code TEXT UNIQUE;
+
+-- Make sure every leader is listed as a member and points back at the guild
+UPDATE guilds SET members = array_append(members, leader_id)
+  WHERE NOT (leader_id = ANY(members));
+UPDATE users SET guild = guilds.id
+  FROM guilds WHERE users.id = ANY(guilds.members) AND users.guild IS NULL;
+
+CREATE TABLE IF NOT EXISTS guild_join_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  message TEXT,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_guild_id ON guild_join_requests(guild_id);
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_user_id ON guild_join_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_status ON guild_join_requests(status);
+
+CREATE TRIGGER update_guild_join_requests_updated BEFORE UPDATE ON guild_join_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE guild_join_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Guild leaders can delete their guilds" ON guilds;
+CREATE POLICY "Guild leaders can delete their guilds" ON guilds
+  FOR DELETE USING (auth.uid() = leader_id OR auth.role() = 'service_role');
+
+CREATE POLICY "Users can view their own join requests" ON guild_join_requests
+  FOR SELECT USING (auth.uid() = user_id OR auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage join requests" ON guild_join_requests
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Add guild_webhooks table
+-- ============================================
+-- This migration adds per-guild Discord webhook configuration
+-- (delivery URL, signing secret for test pings, subscribed events and message templates)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS guild_webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL UNIQUE REFERENCES guilds(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT true,
+  events TEXT[] DEFAULT ARRAY['spawn_soon', 'spawned', 'killed']::TEXT[],
+  servers TEXT[] DEFAULT ARRAY[]::TEXT[], -- empty = all servers
+  spawn_soon_minutes INTEGER DEFAULT 5,
+  templates JSONB DEFAULT '{}'::jsonb, -- per event type: {title, description, color}
+  last_delivery_at TIMESTAMPTZ,
+  last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_webhooks_enabled ON guild_webhooks(enabled);
+
+CREATE TRIGGER update_guild_webhooks_updated BEFORE UPDATE ON guild_webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE guild_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- Webhook URLs and secrets are private: only the backend can read or write them
+CREATE POLICY "Service role can manage guild webhooks" ON guild_webhooks
+  FOR ALL USING (auth.role() = 'service_role');
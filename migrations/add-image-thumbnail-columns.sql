@@ -0,0 +1,9 @@
+-- ============================================
+-- Migration: Add thumbnail columns for uploaded images
+-- ============================================
+-- This migration adds thumbnail URLs next to bosses.image and users.avatar,
+-- which are filled by the multipart upload endpoints
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS image_thumbnail TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_thumbnail TEXT;
@@ -0,0 +1,9 @@
+-- ============================================
+-- Migration: Flag imported spawn events
+-- ============================================
+-- Spawn events created by a data import keep the importing admin as
+-- reported_by for auditing, but are flagged so reporter and contributor
+-- rankings and reporter bonuses leave them out
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS imported BOOLEAN DEFAULT false;
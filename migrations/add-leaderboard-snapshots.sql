@@ -0,0 +1,34 @@
+-- ============================================
+-- Migration: Add leaderboard snapshots
+-- ============================================
+-- This migration adds the leaderboard_snapshots table holding the
+-- precomputed top reporters, guilds and contributors per period and server.
+-- The scheduler fills it on its next refresh; until then leaderboards are
+-- computed on first request
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  category TEXT NOT NULL CHECK (category IN ('reporters', 'guilds', 'contributors')),
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly', 'season', 'all_time')),
+  server TEXT, -- null = every server
+  period_start TIMESTAMPTZ, -- null for all_time
+  period_end TIMESTAMPTZ NOT NULL,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb, -- ranked entries, best first
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_lookup ON leaderboard_snapshots(category, period, server, computed_at DESC);
+
+CREATE TRIGGER update_leaderboard_snapshots_updated BEFORE UPDATE ON leaderboard_snapshots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Leaderboard snapshots are viewable by everyone" ON leaderboard_snapshots
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage leaderboard snapshots" ON leaderboard_snapshots
+  FOR ALL USING (auth.role() = 'service_role');
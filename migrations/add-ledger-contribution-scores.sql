@@ -0,0 +1,72 @@
+-- ============================================
+-- Migration: Keep contribution scores in the ledger append
+-- ============================================
+-- This migration makes append_contribution_ledger_entry store the new balance
+-- as the member's contribution_score in the same transaction as the entry, so
+-- the score cannot go stale when entries are appended concurrently
+-- Run this in Supabase SQL Editor
+
+DROP FUNCTION IF EXISTS append_contribution_ledger_entry(UUID, TEXT, UUID, TEXT, NUMERIC, TEXT, UUID, UUID, UUID, BOOLEAN);
+
+-- Append a ledger entry with its balance_after taken from the member's
+-- previous entry, and store that balance as the member's contribution_score
+-- (creating their contribution record if needed). Appends for one member run
+-- one at a time, and with p_require_balance the entry is refused when it would
+-- take the balance below zero, so concurrent spends cannot overdraw.
+-- p_event_date marks an event the member took part in
+CREATE OR REPLACE FUNCTION append_contribution_ledger_entry(
+  p_guild_id UUID,
+  p_member_name TEXT,
+  p_member_id UUID,
+  p_entry_type TEXT,
+  p_points NUMERIC,
+  p_reason TEXT,
+  p_spawn_event_id UUID,
+  p_loot_award_id UUID,
+  p_created_by UUID,
+  p_require_balance BOOLEAN DEFAULT false,
+  p_event_date TIMESTAMPTZ DEFAULT NULL
+) RETURNS contribution_ledger AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_member_id UUID;
+  v_entry contribution_ledger;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_guild_id::TEXT || ':' || p_member_name));
+
+  SELECT balance_after INTO v_balance
+  FROM contribution_ledger
+  WHERE guild_id = p_guild_id AND member_name = p_member_name
+  ORDER BY created DESC
+  LIMIT 1;
+
+  v_balance := ROUND(COALESCE(v_balance, 0) + p_points, 2);
+  IF p_require_balance AND v_balance < 0 THEN
+    RAISE EXCEPTION 'Not enough points (balance %)', v_balance - p_points USING ERRCODE = 'P0001', HINT = 'insufficient_points';
+  END IF;
+
+  v_member_id := p_member_id;
+  IF v_member_id IS NULL THEN
+    SELECT member_id INTO v_member_id
+    FROM guild_member_contributions
+    WHERE guild_id = p_guild_id AND member_name = p_member_name;
+  END IF;
+
+  INSERT INTO contribution_ledger (
+    created, guild_id, member_name, member_id, entry_type, points, balance_after,
+    spawn_event_id, loot_award_id, reason, created_by
+  ) VALUES (
+    clock_timestamp(), p_guild_id, p_member_name, v_member_id, p_entry_type, ROUND(p_points, 2), v_balance,
+    p_spawn_event_id, p_loot_award_id, p_reason, p_created_by
+  )
+  RETURNING * INTO v_entry;
+
+  INSERT INTO guild_member_contributions (guild_id, member_name, member_id, contribution_score, last_event_date)
+  VALUES (p_guild_id, p_member_name, v_member_id, v_balance, COALESCE(p_event_date, NOW()))
+  ON CONFLICT (guild_id, member_name) DO UPDATE SET
+    contribution_score = EXCLUDED.contribution_score,
+    last_event_date = COALESCE(p_event_date, guild_member_contributions.last_event_date);
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- ============================================
+-- Migration: Add account lockout and login history
+-- ============================================
+-- This migration tracks failed logins per account so repeated failures are
+-- slowed down and eventually locked out, and adds the login_attempts audit
+-- table that records every login attempt with its IP and user agent
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_failed_login TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- null when the username matched no account
+  username TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  failure_reason TEXT CHECK (failure_reason IN ('unknown_user', 'invalid_password', 'throttled', 'locked')),
+  ip TEXT,
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id_created ON login_attempts(user_id, created DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_created ON login_attempts(created DESC);
+
+CREATE TRIGGER update_login_attempts_updated BEFORE UPDATE ON login_attempts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage login attempts" ON login_attempts
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,70 @@
+-- ============================================
+-- Migration: Claim maintenance windows before resetting timers
+-- ============================================
+-- This migration adds claim_maintenance_window and finish_maintenance_window.
+-- A window's timer reset is claimed before it runs, so the scheduler and a
+-- recorded server event cannot both apply it, and the window is only marked
+-- applied once the reset succeeded; a failed reset is released for a retry
+-- Run this in Supabase SQL Editor
+
+-- Claim a maintenance window (sets claimed_at). Returns false when the window
+-- does not exist, was already applied, or another claim on it is younger than
+-- p_lease_minutes
+CREATE OR REPLACE FUNCTION claim_maintenance_window(p_server_id UUID, p_window_id TEXT, p_lease_minutes INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_windows JSONB;
+  v_index INTEGER;
+  v_entry JSONB;
+BEGIN
+  SELECT COALESCE(maintenance_windows, '[]'::jsonb) INTO v_windows FROM servers WHERE id = p_server_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT item.position - 1, item.entry INTO v_index, v_entry
+  FROM jsonb_array_elements(v_windows) WITH ORDINALITY AS item(entry, position)
+  WHERE item.entry ->> 'id' = p_window_id;
+
+  IF v_entry IS NULL
+    OR v_entry ->> 'applied_at' IS NOT NULL
+    OR (v_entry ->> 'claimed_at')::TIMESTAMPTZ > NOW() - make_interval(mins => p_lease_minutes) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE servers SET maintenance_windows = jsonb_set(v_windows, ARRAY[v_index::TEXT, 'claimed_at'], to_jsonb(NOW()))
+  WHERE id = p_server_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a claimed maintenance window, marking it applied when p_applied
+CREATE OR REPLACE FUNCTION finish_maintenance_window(p_server_id UUID, p_window_id TEXT, p_applied BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_windows JSONB;
+  v_index INTEGER;
+  v_entry JSONB;
+BEGIN
+  SELECT COALESCE(maintenance_windows, '[]'::jsonb) INTO v_windows FROM servers WHERE id = p_server_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT item.position - 1, item.entry INTO v_index, v_entry
+  FROM jsonb_array_elements(v_windows) WITH ORDINALITY AS item(entry, position)
+  WHERE item.entry ->> 'id' = p_window_id;
+  IF v_entry IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_entry := v_entry - 'claimed_at';
+  IF p_applied THEN
+    v_entry := v_entry || jsonb_build_object('applied_at', NOW());
+  END IF;
+
+  UPDATE servers SET maintenance_windows = jsonb_set(v_windows, ARRAY[v_index::TEXT], v_entry)
+  WHERE id = p_server_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+-- ============================================
+-- Migration: Add notifications table
+-- ============================================
+-- This migration adds the persisted notification queue used by NotificationService
+-- Each row is one scheduled alert for one user (e.g. "5 minutes before" a favorite boss spawns)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  boss_id UUID REFERENCES bosses(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('spawn_alert', 'guild_notification', 'achievement')),
+  message TEXT NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  spawn_time TIMESTAMPTZ, -- predicted spawn the alert refers to
+  timing_key TEXT, -- e.g. 'minutes_5'
+  sent BOOLEAN DEFAULT false,
+  sent_at TIMESTAMPTZ,
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  channels TEXT[] DEFAULT ARRAY[]::TEXT[]
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_boss_id ON notifications(boss_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(sent, next_attempt_at);
+
+CREATE TRIGGER update_notifications_updated BEFORE UPDATE ON notifications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id OR auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage notifications" ON notifications
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,35 @@
+-- ============================================
+-- Migration: Add password change and reset code support
+-- ============================================
+-- This migration records when each password was last changed, adds the
+-- one-time reset codes admins issue to users who lost their password,
+-- and lets sessions be revoked because of a password change
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMPTZ;
+
+ALTER TABLE user_sessions DROP CONSTRAINT IF EXISTS user_sessions_revoked_reason_check;
+ALTER TABLE user_sessions ADD CONSTRAINT user_sessions_revoked_reason_check
+  CHECK (revoked_reason IN ('logout', 'revoked', 'revoked_all', 'reuse_detected', 'password_change'));
+
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL, -- SHA-256 of the normalized code, the code itself is only shown once
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ -- set when a newer code is issued
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user_id ON password_reset_codes(user_id);
+
+CREATE TRIGGER update_password_reset_codes_updated BEFORE UPDATE ON password_reset_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE password_reset_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage password reset codes" ON password_reset_codes
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,9 @@
+-- ============================================
+-- Migration: Add provisional verification to spawn_events
+-- ============================================
+-- Reports from trusted reporters are verified on creation but stay open to
+-- votes while provisional: enough disputes still reject them, enough
+-- confirmations make the verification final
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS provisional BOOLEAN DEFAULT false;
@@ -0,0 +1,11 @@
+-- ============================================
+-- Migration: Add respawn_variance column to bosses
+-- ============================================
+-- This migration adds the random +/- window (in minutes) around respawn_time
+-- for bosses that respawn after a fixed time plus a random delay (e.g. 8h +/- 30m)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS respawn_variance INTEGER DEFAULT 0;
+
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_respawn_variance_check;
+ALTER TABLE bosses ADD CONSTRAINT bosses_respawn_variance_check CHECK (respawn_variance >= 0);
@@ -0,0 +1,20 @@
+-- ============================================
+-- Migration: Add respawn window columns to bosses
+-- ============================================
+-- This migration adds a min/max respawn window (in minutes) for bosses that
+-- respawn somewhere in a range, e.g. 6-8 hours after death, and the anchor the
+-- respawn clock counts from (the reported spawn or the kill)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS respawn_window_min INTEGER;
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS respawn_window_max INTEGER;
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS respawn_anchor TEXT DEFAULT 'spawn_time';
+
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_respawn_anchor_check;
+ALTER TABLE bosses ADD CONSTRAINT bosses_respawn_anchor_check CHECK (respawn_anchor IN ('spawn_time', 'kill_time'));
+
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_respawn_window_check;
+ALTER TABLE bosses ADD CONSTRAINT bosses_respawn_window_check CHECK (
+  (respawn_window_min IS NULL AND respawn_window_max IS NULL) OR
+  (respawn_window_min > 0 AND respawn_window_max >= respawn_window_min)
+);
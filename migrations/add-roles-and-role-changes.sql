@@ -0,0 +1,41 @@
+-- ============================================
+-- Migration: Add user roles and role_changes table
+-- ============================================
+-- This migration adds the site-wide role of each user (user, trusted,
+-- moderator, admin) and the audit trail of site and guild role changes
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('user', 'trusted', 'moderator', 'admin'));
+
+CREATE TABLE IF NOT EXISTS role_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  scope TEXT NOT NULL CHECK (scope IN ('site', 'guild')),
+  guild_id UUID REFERENCES guilds(id) ON DELETE CASCADE, -- set for guild officer/leader changes
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  previous_role TEXT NOT NULL,
+  new_role TEXT NOT NULL,
+  reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role <> 'user';
+CREATE INDEX IF NOT EXISTS idx_role_changes_user_id ON role_changes(user_id);
+CREATE INDEX IF NOT EXISTS idx_role_changes_guild_id ON role_changes(guild_id);
+CREATE INDEX IF NOT EXISTS idx_role_changes_created ON role_changes(created DESC);
+
+CREATE TRIGGER update_role_changes_updated BEFORE UPDATE ON role_changes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE role_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage role changes" ON role_changes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Roles can only be granted by an admin, so promote the first one by hand:
+-- UPDATE users SET role = 'admin' WHERE username = 'your-username';
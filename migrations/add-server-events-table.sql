@@ -0,0 +1,35 @@
+-- ============================================
+-- Migration: Add server_events table and per-boss post-maintenance rule
+-- ============================================
+-- This migration adds the audit log of server restarts and maintenance ends
+-- (with the boss timers each one reset), and lets a boss override its
+-- server's post-maintenance rule
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE bosses ADD COLUMN IF NOT EXISTS post_maintenance_rule TEXT;
+
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_post_maintenance_rule_check;
+ALTER TABLE bosses ADD CONSTRAINT bosses_post_maintenance_rule_check
+  CHECK (post_maintenance_rule IN ('keep', 'spawn_at_end', 'restart_timer'));
+
+CREATE TABLE IF NOT EXISTS server_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  server TEXT NOT NULL REFERENCES servers(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('restart', 'maintenance_end')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when recorded by the scheduler
+  maintenance_window_id TEXT, -- id of the maintenance window this event closed
+  notes TEXT,
+  bosses_updated INTEGER NOT NULL DEFAULT 0,
+  resets JSONB DEFAULT '[]'::jsonb -- [{boss_id, rule, previous_last_spawn, previous_next_spawn, last_spawn, next_spawn}]
+);
+
+CREATE INDEX IF NOT EXISTS idx_server_events_server_occurred_at ON server_events(server, occurred_at DESC);
+
+ALTER TABLE server_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage server events" ON server_events;
+CREATE POLICY "Service role can manage server events" ON server_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,57 @@
+-- ============================================
+-- Migration: Add servers table
+-- ============================================
+-- This migration adds the game server registry (region, timezone, status,
+-- maintenance windows and post-maintenance timer rule). Every server already
+-- used by a boss or spawn event is registered first so the new foreign keys
+-- can be added; fill in their region and timezone afterwards.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS servers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL UNIQUE, -- referenced by bosses.server and spawn_events.server
+  region TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA timezone
+  status TEXT NOT NULL DEFAULT 'online' CHECK (status IN ('online', 'maintenance', 'offline')),
+  maintenance_windows JSONB DEFAULT '[]'::jsonb, -- [{id, start, end, reason?, applied_at?}]
+  post_maintenance_rule TEXT NOT NULL DEFAULT 'keep' CHECK (post_maintenance_rule IN ('keep', 'spawn_at_end', 'restart_timer')),
+  description TEXT
+);
+
+-- Register the servers already in use
+INSERT INTO servers (name, region, timezone)
+SELECT DISTINCT server, 'unknown', 'UTC' FROM (
+  SELECT server FROM bosses
+  UNION
+  SELECT server FROM spawn_events
+) existing
+WHERE server IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+-- Bosses and spawn events must reference a registered server
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_server_fkey;
+ALTER TABLE bosses ADD CONSTRAINT bosses_server_fkey 
+  FOREIGN KEY (server) REFERENCES servers(name) ON UPDATE CASCADE;
+
+ALTER TABLE spawn_events DROP CONSTRAINT IF EXISTS spawn_events_server_fkey;
+ALTER TABLE spawn_events ADD CONSTRAINT spawn_events_server_fkey 
+  FOREIGN KEY (server) REFERENCES servers(name) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_servers_region ON servers(region);
+CREATE INDEX IF NOT EXISTS idx_servers_status ON servers(status);
+
+DROP TRIGGER IF EXISTS update_servers_updated ON servers;
+CREATE TRIGGER update_servers_updated BEFORE UPDATE ON servers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE servers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Servers are viewable by everyone" ON servers;
+CREATE POLICY "Servers are viewable by everyone" ON servers
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service role can manage servers" ON servers;
+CREATE POLICY "Service role can manage servers" ON servers
+  FOR ALL USING (auth.role() = 'service_role');
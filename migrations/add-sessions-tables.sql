@@ -0,0 +1,50 @@
+-- ============================================
+-- Migration: Add user_sessions and refresh_tokens tables
+-- ============================================
+-- This migration adds server-side sessions behind the short-lived access
+-- tokens, and the rotating refresh tokens issued to each session.
+-- Access tokens issued before this migration carry no session and stop
+-- working, so every user has to log in again.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device TEXT, -- e.g. "Firefox on Windows", derived from the user agent
+  user_agent TEXT,
+  ip TEXT,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL, -- pushed back on every refresh
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT CHECK (revoked_reason IN ('logout', 'revoked', 'revoked_all', 'reuse_detected'))
+);
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token, the token itself is never stored
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ -- set once rotated; presenting the token again revokes the session
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+CREATE TRIGGER update_user_sessions_updated BEFORE UPDATE ON user_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_refresh_tokens_updated BEFORE UPDATE ON refresh_tokens
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage user sessions" ON user_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage refresh tokens" ON refresh_tokens
+  FOR ALL USING (auth.role() = 'service_role');
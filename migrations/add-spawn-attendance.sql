@@ -0,0 +1,46 @@
+-- ============================================
+-- Migration: Add spawn attendance
+-- ============================================
+-- This migration adds the spawn_attendance table linking members to the
+-- spawn events they attended, with check-in and check-out times. Existing
+-- participants lists are carried over as 'reported' attendance; from now on
+-- spawn_events.participants mirrors this table
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS spawn_attendance (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  spawn_event_id UUID NOT NULL REFERENCES spawn_events(id) ON DELETE CASCADE,
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL, -- set when the name belongs to a registered user
+  source TEXT NOT NULL DEFAULT 'reported' CHECK (source IN ('reported', 'check_in')),
+  checked_in_at TIMESTAMPTZ,
+  checked_out_at TIMESTAMPTZ,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE(spawn_event_id, member_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_spawn_event_id ON spawn_attendance(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_member_name ON spawn_attendance(member_name);
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_member_id ON spawn_attendance(member_id);
+
+CREATE TRIGGER update_spawn_attendance_updated BEFORE UPDATE ON spawn_attendance
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE spawn_attendance ENABLE ROW LEVEL SECURITY;
+
+-- Spawn attendance policies: public, only the backend records attendance
+CREATE POLICY "Spawn attendance is viewable by everyone" ON spawn_attendance
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage spawn attendance" ON spawn_attendance
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Attendance for the participants recorded before this table existed
+INSERT INTO spawn_attendance (spawn_event_id, member_name, member_id, source, recorded_by)
+SELECT spawn_events.id, participant.name, users.id, 'reported', spawn_events.kill_reported_by
+FROM spawn_events
+CROSS JOIN LATERAL unnest(spawn_events.participants) AS participant(name)
+LEFT JOIN users ON users.username = participant.name
+ON CONFLICT (spawn_event_id, member_name) DO NOTHING;
@@ -0,0 +1,44 @@
+-- ============================================
+-- Migration: Add spawn_confirmations table (consensus verification)
+-- ============================================
+-- This migration replaces single-user verification with weighted community
+-- confirmations and disputes of spawn events
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS verification_status TEXT DEFAULT 'pending'
+  CHECK (verification_status IN ('pending', 'verified', 'rejected'));
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS confirmation_weight NUMERIC DEFAULT 0;
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS dispute_weight NUMERIC DEFAULT 0;
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS confirmations_count INTEGER DEFAULT 0;
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS disputes_count INTEGER DEFAULT 0;
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- Events verified under the old model keep their status
+UPDATE spawn_events SET verification_status = 'verified' WHERE verified = true;
+
+CREATE INDEX IF NOT EXISTS idx_spawn_events_verification_status ON spawn_events(verification_status);
+
+CREATE TABLE IF NOT EXISTS spawn_confirmations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  spawn_event_id UUID NOT NULL REFERENCES spawn_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vote TEXT NOT NULL CHECK (vote IN ('confirm', 'dispute')),
+  weight NUMERIC NOT NULL, -- voter's weight when the vote was cast
+  UNIQUE(spawn_event_id, user_id) -- One vote per user per spawn event
+);
+
+CREATE INDEX IF NOT EXISTS idx_spawn_confirmations_spawn_event_id ON spawn_confirmations(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_spawn_confirmations_user_id ON spawn_confirmations(user_id);
+
+CREATE TRIGGER update_spawn_confirmations_updated BEFORE UPDATE ON spawn_confirmations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE spawn_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Spawn confirmations are viewable by everyone" ON spawn_confirmations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage spawn confirmations" ON spawn_confirmations
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,19 @@
+-- ============================================
+-- Migration: Add kill reporting columns to spawn_events
+-- ============================================
+-- This migration records which guild killed a spawned boss and who reported
+-- the kill, filled by POST /api/spawns/:id/kill
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS killed_by_guild UUID;
+ALTER TABLE spawn_events ADD COLUMN IF NOT EXISTS kill_reported_by UUID;
+
+ALTER TABLE spawn_events DROP CONSTRAINT IF EXISTS spawn_events_killed_by_guild_fkey;
+ALTER TABLE spawn_events ADD CONSTRAINT spawn_events_killed_by_guild_fkey
+  FOREIGN KEY (killed_by_guild) REFERENCES guilds(id) ON DELETE SET NULL;
+
+ALTER TABLE spawn_events DROP CONSTRAINT IF EXISTS spawn_events_kill_reported_by_fkey;
+ALTER TABLE spawn_events ADD CONSTRAINT spawn_events_kill_reported_by_fkey
+  FOREIGN KEY (kill_reported_by) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_spawn_events_killed_by_guild ON spawn_events(killed_by_guild);
@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Add achievements
+-- ============================================
+-- This migration adds the user_achievements table that records every
+-- achievement awarded to a user, when, and for which spawn event.
+-- Achievements are evaluated as new spawns are reported, verified and killed,
+-- so existing users earn the ones they already qualify for on their next activity
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  achievement TEXT NOT NULL, -- e.g. 'first_report', see GET /api/achievements
+  awarded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL, -- the activity that earned it
+  boss_id UUID REFERENCES bosses(id) ON DELETE SET NULL,
+  UNIQUE(user_id, achievement)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_achievement ON user_achievements(achievement);
+
+CREATE TRIGGER update_user_achievements_updated BEFORE UPDATE ON user_achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User achievements are viewable by everyone" ON user_achievements
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage user achievements" ON user_achievements
+  FOR ALL USING (auth.role() = 'service_role');
@@ -15,7 +15,8 @@ const config: AppConfig = {
   
   jwt: {
     secret: process.env.JWT_SECRET || 'your-secret-key',
-    expiresIn: process.env.JWT_EXPIRES_IN || '24h',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenDays: parseInt(process.env.REFRESH_TOKEN_DAYS || '30', 10),
   },
   
   rateLimit: {
@@ -26,6 +27,10 @@ const config: AppConfig = {
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
     allowedTypes: (process.env.ALLOWED_FILE_TYPES || 'image/jpeg,image/png,image/gif').split(','),
+    storage: (process.env.UPLOAD_STORAGE || 'local') as 'local' | 'supabase',
+    localDirectory: process.env.UPLOAD_DIR || 'uploads',
+    maxImageDimension: parseInt(process.env.MAX_IMAGE_DIMENSION || '1920', 10),
+    thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE || '256', 10),
   },
   
   cors: {
@@ -40,6 +45,70 @@ const config: AppConfig = {
     level: process.env.LOG_LEVEL || 'info',
     file: process.env.LOG_FILE || 'logs/app.log',
   },
+  
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    tickCron: process.env.SCHEDULER_TICK_CRON || '*/5 * * * * *', // every 5 seconds
+    syncCron: process.env.SCHEDULER_SYNC_CRON || '*/10 * * * *', // every 10 minutes
+    maintenanceCron: process.env.SCHEDULER_MAINTENANCE_CRON || '* * * * *', // every minute
+    guildStatsCron: process.env.SCHEDULER_GUILD_STATS_CRON || '0 * * * *', // every hour
+  },
+  
+  notifications: {
+    dispatchCron: process.env.NOTIFICATION_DISPATCH_CRON || '*/15 * * * * *', // every 15 seconds
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10),
+    retryDelaySeconds: parseInt(process.env.NOTIFICATION_RETRY_DELAY_SECONDS || '30', 10),
+    pushWebhookUrl: process.env.PUSH_WEBHOOK_URL || '',
+  },
+  
+  discord: {
+    allowedWebhookHosts: (process.env.DISCORD_WEBHOOK_HOSTS || 'discord.com,discordapp.com,canary.discord.com,ptb.discord.com').split(','),
+    maxRetries: parseInt(process.env.DISCORD_MAX_RETRIES || '3', 10),
+    requestTimeoutMs: parseInt(process.env.DISCORD_REQUEST_TIMEOUT_MS || '10000', 10),
+  },
+  
+  verification: {
+    threshold: parseFloat(process.env.SPAWN_VERIFICATION_THRESHOLD || '2'), // summed confirmation weight
+    minWeight: parseFloat(process.env.SPAWN_VERIFICATION_MIN_WEIGHT || '0.1'),
+    newUserWeight: parseFloat(process.env.SPAWN_VERIFICATION_NEW_USER_WEIGHT || '0.5'),
+  },
+
+  prediction: {
+    minSamples: parseInt(process.env.PREDICTION_MIN_SAMPLES || '5', 10), // observed intervals needed to trust the history
+    historySize: parseInt(process.env.PREDICTION_HISTORY_SIZE || '100', 10), // most recent verified spawns to learn from
+  },
+
+  calendar: {
+    publicUrl: process.env.PUBLIC_URL || 'http://localhost:3000', // base of the feed URLs handed to calendar apps
+    spawnsPerBoss: parseInt(process.env.CALENDAR_SPAWNS_PER_BOSS || '5', 10),
+    cacheSeconds: parseInt(process.env.CALENDAR_CACHE_SECONDS || '300', 10),
+    cacheSize: parseInt(process.env.CALENDAR_CACHE_SIZE || '1000', 10), // rendered feeds kept in memory
+  },
+
+  password: {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10', 10),
+    resetCodeMinutes: parseInt(process.env.PASSWORD_RESET_CODE_MINUTES || '60', 10), // how long an admin-issued reset code stays valid
+  },
+
+  login: {
+    freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3', 10), // failed logins allowed before delays kick in
+    baseDelaySeconds: parseInt(process.env.LOGIN_BASE_DELAY_SECONDS || '2', 10), // doubles with every further failure
+    maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '300', 10),
+    lockoutAttempts: parseInt(process.env.LOGIN_LOCKOUT_ATTEMPTS || '10', 10),
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60', 10), // failures older than this are forgotten
+  },
+
+  leaderboards: {
+    refreshCron: process.env.LEADERBOARD_REFRESH_CRON || '*/15 * * * *', // every 15 minutes
+    size: parseInt(process.env.LEADERBOARD_SIZE || '100', 10), // entries kept per snapshot
+    seasonStart: process.env.LEADERBOARD_SEASON_START || '2026-01-01', // first day of season 1 (UTC)
+    seasonDays: parseInt(process.env.LEADERBOARD_SEASON_DAYS || '90', 10),
+  },
+
+  attendance: {
+    checkInWindowMinutes: parseInt(process.env.ATTENDANCE_CHECK_IN_WINDOW_MINUTES || '180', 10), // check-in stays open this long after the spawn time
+  },
 };
 
 export default config;
@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import { AccountSecurityService } from '@/services/AccountSecurityService';
+import { ChangePasswordRequest, ResetPasswordRequest, LoginAttemptQueryParams } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class AccountSecurityController {
+  private accountSecurityService: AccountSecurityService;
+
+  constructor() {
+    this.accountSecurityService = new AccountSecurityService();
+  }
+
+  getSecuritySettings = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.accountSecurityService.getSecuritySettings(userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  changePassword = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const passwordData: ChangePasswordRequest = req.body;
+    const result = await this.accountSecurityService.changePassword(userId, passwordData, (req as any).sessionId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  issueResetCode = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params as { id: string };
+    const result = await this.accountSecurityService.issueResetCode(id, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  resetPassword = asyncHandler(async (req: Request, res: Response) => {
+    const resetData: ResetPasswordRequest = req.body;
+    const result = await this.accountSecurityService.resetPassword(resetData);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getMyLoginHistory = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const queryParams = this.parseLoginHistoryQuery(req);
+    const result = await this.accountSecurityService.getLoginHistory(userId, userId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getUserLoginHistory = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params as { id: string };
+    const queryParams = this.parseLoginHistoryQuery(req);
+    const result = await this.accountSecurityService.getLoginHistory(id, userId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  unlockAccount = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params as { id: string };
+    const result = await this.accountSecurityService.unlockAccount(id, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  private parseLoginHistoryQuery(req: Request): LoginAttemptQueryParams {
+    const queryParams: LoginAttemptQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['success'] !== undefined) queryParams.success = req.query['success'] === 'true';
+    return queryParams;
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { AchievementService } from '@/services/AchievementService';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class AchievementController {
+  private achievementService: AchievementService;
+
+  constructor() {
+    this.achievementService = new AchievementService();
+  }
+
+  getCatalog = asyncHandler(async (_req: Request, res: Response) => {
+    res.status(200).json(this.achievementService.getCatalog());
+  });
+
+  getUserAchievements = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const result = await this.achievementService.getUserAchievements(id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { AttendanceService } from '@/services/AttendanceService';
+import { AttendanceCheckRequest, MemberAttendanceQueryParams } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class AttendanceController {
+  private attendanceService: AttendanceService;
+
+  constructor() {
+    this.attendanceService = new AttendanceService();
+  }
+
+  getSpawnAttendance = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const result = await this.attendanceService.getSpawnAttendance(id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  checkIn = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const checkData: AttendanceCheckRequest = req.body;
+    const result = await this.attendanceService.checkIn(id, checkData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  checkOut = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const checkData: AttendanceCheckRequest = req.body;
+    const result = await this.attendanceService.checkOut(id, checkData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getMemberAttendance = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, memberId } = req.params as { guildId: string; memberId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const queryParams: MemberAttendanceQueryParams = {};
+    if (req.query['from']) queryParams.from = req.query['from'] as string;
+    if (req.query['to']) queryParams.to = req.query['to'] as string;
+
+    const result = await this.attendanceService.getMemberAttendance(guildId, memberId, queryParams, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { CalendarService } from '@/services/CalendarService';
+import { CreateCalendarFeedRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class CalendarController {
+  private calendarService: CalendarService;
+
+  constructor() {
+    this.calendarService = new CalendarService();
+  }
+
+  getFeeds = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.calendarService.getFeeds(userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  createFeed = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const feedData: CreateCalendarFeedRequest = req.body;
+    const result = await this.calendarService.createFeed(feedData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  deleteFeed = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params as { id: string };
+    const result = await this.calendarService.deleteFeed(id, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getFeedCalendar = asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.params as { token: string };
+    const result = await this.calendarService.renderFeed(token);
+
+    if (result.success) {
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="boss-spawns.ics"');
+      res.status(200).send(result.data);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+}
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { CommentService } from '@/services/CommentService';
+import { CommentQueryParams, CreateCommentRequest, UpdateCommentRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class CommentController {
+  private commentService: CommentService;
+
+  constructor() {
+    this.commentService = new CommentService();
+  }
+
+  getComments = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const queryParams: CommentQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 20,
+      sort_by: req.query['sort_by'] as any || 'created',
+      sort_order: req.query['sort_order'] as any || 'desc'
+    };
+    const userId = (req as any).user?.id;
+
+    const result = await this.commentService.getComments(id, queryParams, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const userId = (req as any).user?.id;
+
+    const result = await this.commentService.getComment(id, commentId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  createComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const commentData: CreateCommentRequest = req.body;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.createComment(id, commentData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  updateComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const commentData: UpdateCommentRequest = req.body;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.updateComment(id, commentId, commentData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  deleteComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.deleteComment(id, commentId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  restoreComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.restoreComment(id, commentId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  likeComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.likeComment(id, commentId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  unlikeComment = asyncHandler(async (req: Request, res: Response) => {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.commentService.unlikeComment(id, commentId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
@@ -1,17 +1,26 @@
 import { Request, Response } from 'express';
 import { ContributionService } from '@/services/ContributionService';
+import { ContributionLedgerService } from '@/services/ContributionLedgerService';
 import {
   GuildMemberContributionQueryParams,
   CreateGuildMemberContributionRequest,
-  UpdateGuildMemberContributionRequest
+  UpdateGuildMemberContributionRequest,
+  UpdateContributionRulesRequest,
+  AdjustContributionRequest,
+  DecayContributionsRequest,
+  CreateLootAwardRequest,
+  ContributionLedgerQueryParams,
+  LootAwardQueryParams
 } from '@/types';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 export class ContributionController {
   private contributionService: ContributionService;
+  private ledgerService: ContributionLedgerService;
 
   constructor() {
     this.contributionService = new ContributionService();
+    this.ledgerService = new ContributionLedgerService();
   }
 
   getGuildMemberContributions = asyncHandler(async (req: Request, res: Response) => {
@@ -141,7 +150,7 @@ export class ContributionController {
       return;
     }
 
-    const result = await this.contributionService.recalculateGuildContributions(guildId);
+    const result = await this.contributionService.recalculateGuildContributions(guildId, userId);
 
     if (result.success) {
       res.status(200).json(result);
@@ -149,5 +158,150 @@ export class ContributionController {
       res.status(400).json(result);
     }
   });
-}
 
+  getContributionRules = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const result = await this.contributionService.getContributionRules(guildId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  updateContributionRules = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const rulesData: UpdateContributionRulesRequest = req.body;
+    const result = await this.contributionService.updateContributionRules(guildId, rulesData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getMemberBalance = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, memberName } = req.params as { guildId: string; memberName: string };
+    const result = await this.ledgerService.getBalance(guildId, memberName);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  getLedger = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const queryParams: ContributionLedgerQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['member_name']) queryParams.member_name = req.query['member_name'] as string;
+    if (req.query['entry_type']) queryParams.entry_type = req.query['entry_type'] as any;
+
+    const result = await this.ledgerService.getLedger(guildId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  adjustPoints = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const adjustData: AdjustContributionRequest = req.body;
+    const result = await this.ledgerService.adjustPoints(guildId, adjustData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  decayPoints = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const decayData: DecayContributionsRequest = req.body;
+    const result = await this.ledgerService.decayBalances(guildId, decayData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getLootAwards = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const queryParams: LootAwardQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['spawn_event_id']) queryParams.spawn_event_id = req.query['spawn_event_id'] as string;
+    if (req.query['member_name']) queryParams.member_name = req.query['member_name'] as string;
+
+    const result = await this.ledgerService.getLootAwards(guildId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  awardLoot = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const lootData: CreateLootAwardRequest = req.body;
+    const result = await this.ledgerService.awardLoot(guildId, lootData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
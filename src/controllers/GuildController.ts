@@ -0,0 +1,396 @@
+import { Request, Response } from 'express';
+import { GuildService } from '@/services/GuildService';
+import {
+  GuildQueryParams,
+  GuildJoinRequestQueryParams,
+  GuildJoinRequestStatus,
+  CreateGuildRequest,
+  UpdateGuildRequest
+} from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class GuildController {
+  private guildService: GuildService;
+
+  constructor() {
+    this.guildService = new GuildService();
+  }
+
+  getGuilds = asyncHandler(async (req: Request, res: Response) => {
+    const queryParams: GuildQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50,
+      sort_by: req.query['sort_by'] as any || 'created',
+      sort_order: req.query['sort_order'] as any || 'desc'
+    };
+    if (req.query['search']) queryParams.search = req.query['search'] as string;
+    const userId = (req as any).user?.id;
+
+    const result = await this.guildService.getGuilds(queryParams, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getGuild = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    const result = await this.guildService.getGuild(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  createGuild = asyncHandler(async (req: Request, res: Response) => {
+    const guildData: CreateGuildRequest = req.body;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.createGuild(guildData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  updateGuild = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const guildData: UpdateGuildRequest = req.body;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.updateGuild(guildId, guildData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  deleteGuild = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.deleteGuild(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getMembers = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const result = await this.guildService.getMembers(guildId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  getStats = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const result = await this.guildService.getStats(guildId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  regenerateInviteCode = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.regenerateInviteCode(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  revokeInviteCode = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.revokeInviteCode(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  joinByInviteCode = asyncHandler(async (req: Request, res: Response) => {
+    const { invite_code } = req.body as { invite_code: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.joinByInviteCode(invite_code, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  requestToJoin = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const { message } = req.body as { message?: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.requestToJoin(guildId, userId, message);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getJoinRequests = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const queryParams: GuildJoinRequestQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['status']) queryParams.status = req.query['status'] as GuildJoinRequestStatus;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.getJoinRequests(guildId, userId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  approveJoinRequest = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, requestId } = req.params as { guildId: string; requestId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.reviewJoinRequest(guildId, requestId, true, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  rejectJoinRequest = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, requestId } = req.params as { guildId: string; requestId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.reviewJoinRequest(guildId, requestId, false, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  cancelJoinRequest = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, requestId } = req.params as { guildId: string; requestId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.cancelJoinRequest(guildId, requestId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  leaveGuild = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.leaveGuild(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  kickMember = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, userId: memberId } = req.params as { guildId: string; userId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.kickMember(guildId, memberId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  setMemberRole = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId, userId: memberId } = req.params as { guildId: string; userId: string };
+    const { role } = req.body as { role: 'officer' | 'member' };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.setMemberRole(guildId, memberId, role, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  transferLeadership = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const { user_id } = req.body as { user_id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.guildService.transferLeadership(guildId, user_id, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
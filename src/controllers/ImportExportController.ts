@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { ImportExportService } from '@/services/ImportExportService';
+import { ApiResponse, DataExportFile, DataExportQueryParams, DataFormat, DataImportRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class ImportExportController {
+  private importExportService: ImportExportService;
+
+  constructor() {
+    this.importExportService = new ImportExportService();
+  }
+
+  importBosses = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const importData: DataImportRequest = req.body;
+    const result = await this.importExportService.importBosses(importData, userId);
+
+    if (result.success) {
+      res.status(importData.dry_run ? 200 : 201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  importSpawnEvents = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const importData: DataImportRequest = req.body;
+    const result = await this.importExportService.importSpawnEvents(importData, userId);
+
+    if (result.success) {
+      res.status(importData.dry_run ? 200 : 201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  exportBosses = asyncHandler(async (req: Request, res: Response) => {
+    const result = await this.importExportService.exportBosses(this.getExportParams(req));
+    this.sendExport(res, result);
+  });
+
+  exportSpawnEvents = asyncHandler(async (req: Request, res: Response) => {
+    const result = await this.importExportService.exportSpawnEvents(this.getExportParams(req));
+    this.sendExport(res, result);
+  });
+
+  private getExportParams(req: Request): DataExportQueryParams {
+    const queryParams: DataExportQueryParams = {
+      format: (req.query['format'] as DataFormat) || 'json'
+    };
+    if (req.query['server']) queryParams.server = req.query['server'] as string;
+    if (req.query['boss_id']) queryParams.boss_id = req.query['boss_id'] as string;
+    if (req.query['date_from']) queryParams.date_from = req.query['date_from'] as string;
+    if (req.query['date_to']) queryParams.date_to = req.query['date_to'] as string;
+    return queryParams;
+  }
+
+  // Exports are sent as a file download rather than wrapped in the usual JSON envelope
+  private sendExport(res: Response, result: ApiResponse<DataExportFile>): void {
+    if (!result.success || !result.data) {
+      res.status(400).json(result);
+      return;
+    }
+
+    res.set('Content-Type', result.data.content_type);
+    res.set('Content-Disposition', `attachment; filename="${result.data.filename}"`);
+    res.set('X-Total-Count', result.data.rows.toString());
+    res.status(200).send(result.data.content);
+  }
+}
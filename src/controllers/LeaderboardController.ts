@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { LeaderboardService } from '@/services/LeaderboardService';
+import { LeaderboardCategory, LeaderboardPeriod, LeaderboardQueryParams } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class LeaderboardController {
+  private leaderboardService: LeaderboardService;
+
+  constructor() {
+    this.leaderboardService = new LeaderboardService();
+  }
+
+  getLeaderboard = asyncHandler(async (req: Request, res: Response) => {
+    const { category } = req.params as { category: LeaderboardCategory };
+    const queryParams: LeaderboardQueryParams = {
+      period: (req.query['period'] as LeaderboardPeriod) || 'all_time',
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['server']) queryParams.server = req.query['server'] as string;
+
+    const result = await this.leaderboardService.getLeaderboard(category, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { NotificationService } from '@/services/NotificationService';
+import { NotificationEvent, NotificationQueryParams } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class NotificationController {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  getNotifications = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const queryParams: NotificationQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['sent'] !== undefined) queryParams.sent = req.query['sent'] === 'true';
+    if (req.query['type']) queryParams.type = req.query['type'] as NotificationEvent['type'];
+
+    const result = await this.notificationService.getNotifications(userId, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
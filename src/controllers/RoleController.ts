@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { RoleService } from '@/services/RoleService';
+import { RoleChangeQueryParams, UpdateUserRoleRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class RoleController {
+  private roleService: RoleService;
+
+  constructor() {
+    this.roleService = new RoleService();
+  }
+
+  getRoles = asyncHandler(async (_req: Request, res: Response) => {
+    res.status(200).json(this.roleService.getCatalog());
+  });
+
+  getRoleChanges = asyncHandler(async (req: Request, res: Response) => {
+    const queryParams: RoleChangeQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['scope']) queryParams.scope = req.query['scope'] as any;
+    if (req.query['user_id']) queryParams.user_id = req.query['user_id'] as string;
+    if (req.query['guild_id']) queryParams.guild_id = req.query['guild_id'] as string;
+
+    const result = await this.roleService.getRoleChanges(queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getGuildRoleChanges = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const queryParams: RoleChangeQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50,
+      scope: 'guild',
+      guild_id: guildId
+    };
+    if (req.query['user_id']) queryParams.user_id = req.query['user_id'] as string;
+
+    const result = await this.roleService.getRoleChanges(queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  setUserRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { userId: targetId } = req.params as { userId: string };
+    const roleData: UpdateUserRoleRequest = req.body;
+    const result = await this.roleService.setUserRole(targetId, roleData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  revokeUserRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { userId: targetId } = req.params as { userId: string };
+    const { reason } = (req.body || {}) as { reason?: string };
+    const result = await this.roleService.revokeUserRole(targetId, userId, reason);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { ServerService } from '@/services/ServerService';
+import {
+  GameServerQueryParams,
+  CreateGameServerRequest,
+  UpdateGameServerRequest,
+  CreateMaintenanceWindowRequest,
+  RecordServerEventRequest,
+  ServerEventQueryParams
+} from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class ServerController {
+  private serverService: ServerService;
+
+  constructor() {
+    this.serverService = new ServerService();
+  }
+
+  getServers = asyncHandler(async (req: Request, res: Response) => {
+    const queryParams: GameServerQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 50
+    };
+    if (req.query['region']) queryParams.region = req.query['region'] as string;
+    if (req.query['status']) queryParams.status = req.query['status'] as any;
+
+    const result = await this.serverService.getServers(queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getServer = asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params as { name: string };
+    const result = await this.serverService.getServer(name);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  createServer = asyncHandler(async (req: Request, res: Response) => {
+    const serverData: CreateGameServerRequest = req.body;
+    const result = await this.serverService.createServer(serverData);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  updateServer = asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params as { name: string };
+    const serverData: UpdateGameServerRequest = req.body;
+    const result = await this.serverService.updateServer(name, serverData);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  deleteServer = asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params as { name: string };
+    const result = await this.serverService.deleteServer(name);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  addMaintenanceWindow = asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params as { name: string };
+    const windowData: CreateMaintenanceWindowRequest = req.body;
+    const result = await this.serverService.addMaintenanceWindow(name, windowData);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  removeMaintenanceWindow = asyncHandler(async (req: Request, res: Response) => {
+    const { name, windowId } = req.params as { name: string; windowId: string };
+    const result = await this.serverService.removeMaintenanceWindow(name, windowId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  recordServerEvent = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+    
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { name } = req.params as { name: string };
+    const eventData: RecordServerEventRequest = req.body;
+    const result = await this.serverService.recordServerEvent(name, eventData, userId);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getServerEvents = asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params as { name: string };
+    const queryParams: ServerEventQueryParams = {
+      page: parseInt(req.query['page'] as string) || 1,
+      limit: parseInt(req.query['limit'] as string) || 20
+    };
+    if (req.query['type']) queryParams.type = req.query['type'] as any;
+
+    const result = await this.serverService.getServerEvents(name, queryParams);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { SessionService } from '@/services/SessionService';
+import { RefreshTokenRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { getSessionContext } from '@/middleware/auth';
+
+export class SessionController {
+  private sessionService: SessionService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+  }
+
+  refresh = asyncHandler(async (req: Request, res: Response) => {
+    const { refresh_token }: RefreshTokenRequest = req.body;
+    const result = await this.sessionService.refresh(refresh_token, getSessionContext(req));
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(401).json(result);
+    }
+  });
+
+  getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.sessionService.getSessions(userId, (req as any).sessionId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { sessionId } = req.params as { sessionId: string };
+    const result = await this.sessionService.revokeSession(userId, sessionId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  revokeAllSessions = asyncHandler(async (req: Request, res: Response) => {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    // ?keep_current=true signs out every other device
+    const keepCurrent = req.query['keep_current'] === 'true';
+    const result = await this.sessionService.revokeAllSessions(
+      userId,
+      'revoked_all',
+      keepCurrent ? (req as any).sessionId : undefined
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+}
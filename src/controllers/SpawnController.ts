@@ -126,6 +126,80 @@ export class SpawnController {
     }
   });
 
+  recordKill = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.spawnService.recordKill(id, req.body, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  confirmSpawnEvent = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.spawnService.voteOnSpawnEvent(id, userId, 'confirm');
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  disputeSpawnEvent = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.spawnService.voteOnSpawnEvent(id, userId, 'dispute');
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  getSpawnConfirmations = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const result = await this.spawnService.getSpawnConfirmations(id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
   getSpawnEventsByBoss = asyncHandler(async (req: Request, res: Response) => {
     const { bossId } = req.params;
     const limit = parseInt(req.query.limit as string) || 20;
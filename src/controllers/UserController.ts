@@ -1,13 +1,17 @@
 import { Request, Response } from 'express';
 import { UserService } from '@/services/UserService';
+import { ReputationService } from '@/services/ReputationService';
 import { UserQueryParams, CreateUserRequest, UpdateUserRequest, LoginRequest } from '@/types';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { getSessionContext } from '@/middleware/auth';
 
 export class UserController {
   private userService: UserService;
+  private reputationService: ReputationService;
 
   constructor() {
     this.userService = new UserService();
+    this.reputationService = new ReputationService();
   }
 
   getUsers = asyncHandler(async (req: Request, res: Response) => {
@@ -96,17 +100,30 @@ export class UserController {
 
   login = asyncHandler(async (req: Request, res: Response) => {
     const credentials: LoginRequest = req.body;
-    const result = await this.userService.login(credentials);
+    const result = await this.userService.login(credentials, getSessionContext(req));
     
     if (result.success) {
       res.status(200).json(result);
+    } else if (result.retry_after) {
+      res.set('Retry-After', String(result.retry_after));
+      res.status(429).json(result);
     } else {
       res.status(401).json(result);
     }
   });
 
   logout = asyncHandler(async (req: Request, res: Response) => {
-    const result = await this.userService.logout();
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.userService.logout(userId, (req as any).sessionId);
     
     if (result.success) {
       res.status(200).json(result);
@@ -206,6 +223,17 @@ export class UserController {
     }
   });
 
+  getUserReputation = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const result = await this.reputationService.getReputation(id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
   searchUsers = asyncHandler(async (req: Request, res: Response) => {
     const { q } = req.query;
     
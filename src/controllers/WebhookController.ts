@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { DiscordService } from '@/services/DiscordService';
+import { UpsertGuildWebhookRequest } from '@/types';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class WebhookController {
+  private discordService: DiscordService;
+
+  constructor() {
+    this.discordService = new DiscordService();
+  }
+
+  getWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.discordService.getWebhook(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  });
+
+  upsertWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const webhookData: UpsertGuildWebhookRequest = req.body;
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.discordService.upsertWebhook(guildId, webhookData, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.discordService.deleteWebhook(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  });
+
+  testWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { guildId } = req.params as { guildId: string };
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await this.discordService.sendTestPing(guildId, userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(502).json(result);
+    }
+  });
+}
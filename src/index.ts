@@ -12,11 +12,15 @@ import config from '@/config';
 import routes from '@/routes';
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 import { generalLimiter } from '@/middleware/rateLimiter';
+import { SchedulerService } from '@/services/SchedulerService';
+import { SessionService } from '@/services/SessionService';
+import { SocketUtils } from '@/utils/socket';
 
 class App {
   public app: express.Application;
   public server: any;
   public io: SocketIOServer;
+  private sessionService: SessionService;
 
   constructor() {
     this.app = express();
@@ -27,6 +31,8 @@ class App {
         methods: ['GET', 'POST']
       }
     });
+    SocketUtils.attach(this.io);
+    this.sessionService = new SessionService();
 
     this.initializeMiddlewares();
     this.initializeRoutes();
@@ -62,7 +68,7 @@ class App {
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Static files
-    this.app.use('/uploads', express.static('uploads'));
+    this.app.use('/uploads', express.static(config.upload.localDirectory));
   }
 
   private initializeRoutes(): void {
@@ -79,7 +85,8 @@ class App {
         endpoints: {
           bosses: '/api/bosses',
           spawns: '/api/spawns',
-          users: '/api/users'
+          users: '/api/users',
+          notifications: '/api/notifications'
         }
       });
     });
@@ -107,6 +114,12 @@ class App {
       socket.on('join-boss', (bossId: string) => {
         socket.join(`boss-${bossId}`);
         console.log(`Client ${socket.id} joined boss room: ${bossId}`);
+
+        // Send the current timer right away instead of waiting for the next tick
+        const timer = SchedulerService.getInstance().getTimer(bossId);
+        if (timer) {
+          socket.emit('timer:update', timer);
+        }
       });
 
       // Join guild-specific rooms
@@ -115,6 +128,17 @@ class App {
         console.log(`Client ${socket.id} joined guild room: ${guildId}`);
       });
 
+      // Join the authenticated user's private room (notification:new)
+      socket.on('join-user', async (token: string) => {
+        const decoded = await this.sessionService.verifyAccessToken(token).catch(() => null);
+        if (decoded) {
+          socket.join(`user-${decoded.id}`);
+          console.log(`Client ${socket.id} joined user room: ${decoded.id}`);
+        } else {
+          socket.emit('auth:error', { error: 'Invalid or expired token' });
+        }
+      });
+
       // Leave rooms
       socket.on('leave-server', (server: string) => {
         socket.leave(`server-${server}`);
@@ -140,6 +164,12 @@ class App {
       console.log(`📱 Environment: ${config.nodeEnv}`);
       console.log(`🔗 API URL: http://localhost:${config.port}/api`);
       console.log(`💬 Socket.IO enabled`);
+
+      if (config.scheduler.enabled) {
+        SchedulerService.getInstance().start()
+          .then(() => console.log(`⏰ Respawn scheduler started`))
+          .catch((error) => console.error('Failed to start respawn scheduler:', error));
+      }
     });
   }
 
@@ -1,13 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import config from '@/config';
 import SupabaseClientWrapper from '@/models/SupabaseClient';
-import { ApiResponse } from '@/types';
+import { ApiResponse, GuildPermission, Permission, SessionContext } from '@/types';
+import { PermissionUtils } from '@/utils/permissions';
+import { GuildService } from '@/services/GuildService';
+import { SessionService } from '@/services/SessionService';
 
 interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string;
 }
 
+const sessionService = new SessionService();
+
+/**
+ * Device details recorded on the session at login and refresh
+ */
+export const getSessionContext = (req: Request): SessionContext => {
+  const context: SessionContext = {};
+  const userAgent = req.get('user-agent');
+  if (req.ip) context.ip = req.ip;
+  if (userAgent) context.user_agent = userAgent;
+  return context;
+};
+
 export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
@@ -21,10 +36,10 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
       return;
     }
 
-    // Verify JWT token directly (no Supabase Auth needed)
-    const decoded = jwt.verify(token, config.jwt.secret) as any;
+    // Verify the JWT and that its session has not been revoked
+    const decoded = await sessionService.verifyAccessToken(token);
 
-    if (!decoded || !decoded.id) {
+    if (!decoded) {
       res.status(401).json({
         success: false,
         error: 'Invalid or expired token'
@@ -47,15 +62,9 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
     // Remove password from user object
     const { password, ...userWithoutPassword } = userProfile;
     req.user = userWithoutPassword;
+    req.sessionId = decoded.sid;
     next();
   } catch (error: any) {
-    if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid or expired token'
-      } as ApiResponse);
-      return;
-    }
     res.status(401).json({
       success: false,
       error: 'Invalid token'
@@ -70,16 +79,16 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
 
     if (token) {
       try {
-        // Verify JWT token directly
-        const decoded = jwt.verify(token, config.jwt.secret) as any;
+        const decoded = await sessionService.verifyAccessToken(token);
         
-        if (decoded && decoded.id) {
+        if (decoded) {
           const supabase = SupabaseClientWrapper.getInstance();
           const userProfile = await supabase.getUser(decoded.id);
           
           if (userProfile) {
             const { password, ...userWithoutPassword } = userProfile;
             req.user = userWithoutPassword;
+            req.sessionId = decoded.sid;
           }
         }
       } catch (error) {
@@ -103,7 +112,7 @@ export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFu
       return;
     }
 
-    if (req.user.role !== 'admin') {
+    if (PermissionUtils.getUserRole(req.user) !== 'admin') {
       res.status(403).json({
         success: false,
         error: 'Admin access required'
@@ -120,6 +129,95 @@ export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
+/**
+ * Require every listed site permission, e.g. requirePermission('servers:manage')
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const missing = permissions.filter(permission => !PermissionUtils.hasPermission(req.user, permission));
+      if (missing.length > 0) {
+        res.status(403).json({
+          success: false,
+          error: `Missing permission: ${missing.join(', ')}`
+        } as ApiResponse);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed'
+      } as ApiResponse);
+    }
+  };
+
+/**
+ * Require a permission from the user's role in the guild named by :guildId
+ */
+export const requireGuildPermission = (permission: GuildPermission) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const guildId = req.params['guildId'];
+
+      if (!guildId) {
+        res.status(400).json({
+          success: false,
+          error: 'Guild ID required'
+        } as ApiResponse);
+        return;
+      }
+
+      const supabase = SupabaseClientWrapper.getInstance();
+      let guild;
+      try {
+        guild = await supabase.getGuild(guildId);
+      } catch (error) {
+        guild = null;
+      }
+
+      if (!guild) {
+        res.status(404).json({
+          success: false,
+          error: 'Guild not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (!GuildService.hasPermission(guild, req.user.id, permission)) {
+        res.status(403).json({
+          success: false,
+          error: `Missing guild permission: ${permission}`
+        } as ApiResponse);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Guild authorization check failed'
+      } as ApiResponse);
+    }
+  };
+
 export const requireGuildMember = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.user) {
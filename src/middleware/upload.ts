@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import config from '@/config';
+import { ApiResponse } from '@/types';
+
+// Files are kept in memory: UploadService inspects and re-encodes them before storing
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: 1
+  },
+  fileFilter: (_req, file, callback) => {
+    if (!config.upload.allowedTypes.includes(file.mimetype)) {
+      callback(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+      return;
+    }
+    callback(null, true);
+  }
+});
+
+/**
+ * Accept a single image in the given multipart field, answering multer errors with a 400
+ */
+export const uploadImage = (field: string) => {
+  const handler = imageUpload.single(field) as unknown as RequestHandler;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error: any) => {
+      if (!error) {
+        next();
+        return;
+      }
+
+      let message = 'Invalid file upload';
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          message = `File is too large (max ${Math.round(config.upload.maxFileSize / 1024 / 1024)}MB)`;
+        } else if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+          message = `Upload a single ${config.upload.allowedTypes.join(', ')} file in the "${field}" field`;
+        }
+      }
+
+      res.status(400).json({
+        success: false,
+        error: message
+      } as ApiResponse);
+    });
+  };
+};
@@ -1,15 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { ApiResponse } from '@/types';
+import { ServerService } from '@/services/ServerService';
 
+// Async so schemas can run external (database) checks such as registeredServer
 export const validateRequest = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const { error, value } = schema.validate(req.body, {
-      stripUnknown: true, // Remove unknown fields
-      abortEarly: false // Return all errors, not just the first one
-    });
-    
-    if (error) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let value: any;
+    try {
+      value = await schema.validateAsync(req.body, {
+        stripUnknown: true, // Remove unknown fields
+        abortEarly: false // Return all errors, not just the first one
+      });
+    } catch (error: any) {
       res.status(400).json({
         success: false,
         error: error?.details?.[0]?.message ?? 'Invalid request'
@@ -23,11 +26,12 @@ export const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Async for external checks too; the query itself is left as it came in
 export const validateQuery = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const { error } = schema.validate(req.query);
-    
-    if (error) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await schema.validateAsync(req.query);
+    } catch (error: any) {
       res.status(400).json({
         success: false,
         error: error?.details?.[0]?.message ?? 'Invalid request'
@@ -56,26 +60,78 @@ export const validateParams = (schema: Joi.ObjectSchema) => {
 };
 
 // Validation schemas
+
+// Server names must exist in the servers registry
+const registeredServer = (async (value: string | undefined, helpers: Joi.ExternalHelpers) => {
+  if (value === undefined) return value;
+  if (await ServerService.serverExists(value)) return value;
+  return helpers.message({ external: `Server "${value}" is not registered` });
+}) as unknown as Joi.ExternalValidationFunction;
+
+const dataImportSchema = Joi.object({
+  format: Joi.string().valid('csv', 'json').required(),
+  data: Joi.alternatives().try(Joi.string().max(5 * 1024 * 1024), Joi.array().max(1000)).required(),
+  dry_run: Joi.boolean().default(false),
+  server: Joi.string().min(1).max(50).optional().external(registeredServer)
+});
+
+const dataExportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'json').default('json'),
+  server: Joi.string().max(50).optional()
+});
+
+const bossScheduleSchema = Joi.object({
+  cron: Joi.string().max(100).optional(),
+  slots: Joi.array().items(Joi.object({
+    weekday: Joi.number().integer().min(0).max(6).required(),
+    time: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required()
+  })).min(1).max(50).optional(),
+  timezone: Joi.string().max(64).optional(),
+  window_minutes: Joi.number().integer().min(0).max(1440).optional()
+}).or('cron', 'slots');
+
 export const bossSchemas = {
   create: Joi.object({
     name: Joi.string().min(1).max(100).required(),
     level: Joi.number().integer().min(1).max(1000).required(),
     location: Joi.string().min(1).max(200).required(),
-    respawn_time: Joi.number().integer().min(1).max(10080).required(), // max 1 week
-    server: Joi.string().min(1).max(50).required(),
+    respawn_time: Joi.number().integer().min(1).max(10080).when('schedule_type', {
+      is: 'fixed',
+      then: Joi.optional(),
+      otherwise: Joi.required()
+    }), // max 1 week
+    schedule_type: Joi.string().valid('respawn', 'fixed').optional(),
+    schedule: bossScheduleSchema.when('schedule_type', {
+      is: 'fixed',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    }),
+    respawn_variance: Joi.number().integer().min(0).max(1440).optional(),
+    respawn_window_min: Joi.number().integer().min(1).max(10080).optional(),
+    respawn_window_max: Joi.number().integer().min(Joi.ref('respawn_window_min')).max(10080).optional(),
+    respawn_anchor: Joi.string().valid('spawn_time', 'kill_time').optional(),
+    post_maintenance_rule: Joi.string().valid('keep', 'spawn_at_end', 'restart_timer').optional(),
+    server: Joi.string().min(1).max(50).required().external(registeredServer),
     description: Joi.string().max(1000).optional(),
     difficulty: Joi.string().valid('easy', 'medium', 'hard', 'extreme', 'legendary').required(),
     tags: Joi.array().items(Joi.string().max(50)).max(10).optional(),
     drops: Joi.array().items(Joi.string().max(100)).max(20).optional(),
     requirements: Joi.array().items(Joi.string().max(200)).max(10).optional()
-  }),
+  }).and('respawn_window_min', 'respawn_window_max'),
   
   update: Joi.object({
     name: Joi.string().min(1).max(100).optional(),
     level: Joi.number().integer().min(1).max(1000).optional(),
     location: Joi.string().min(1).max(200).optional(),
     respawn_time: Joi.number().integer().min(1).max(10080).optional(),
-    server: Joi.string().min(1).max(50).optional(),
+    schedule_type: Joi.string().valid('respawn', 'fixed').optional(),
+    schedule: bossScheduleSchema.allow(null).optional(),
+    respawn_variance: Joi.number().integer().min(0).max(1440).optional(),
+    respawn_window_min: Joi.number().integer().min(1).max(10080).allow(null).optional(),
+    respawn_window_max: Joi.number().integer().min(1).max(10080).allow(null).optional(),
+    respawn_anchor: Joi.string().valid('spawn_time', 'kill_time').optional(),
+    post_maintenance_rule: Joi.string().valid('keep', 'spawn_at_end', 'restart_timer').allow(null).optional(),
+    server: Joi.string().min(1).max(50).optional().external(registeredServer),
     description: Joi.string().max(1000).optional(),
     difficulty: Joi.string().valid('easy', 'medium', 'hard', 'extreme', 'legendary').optional(),
     tags: Joi.array().items(Joi.string().max(50)).max(10).optional(),
@@ -84,6 +140,10 @@ export const bossSchemas = {
     verified: Joi.boolean().optional()
   }),
   
+  import: dataImportSchema,
+
+  export: dataExportQuerySchema,
+
   query: Joi.object({
     page: Joi.number().integer().min(1).max(1000).default(1),
     limit: Joi.number().integer().min(1).max(100).default(50),
@@ -100,7 +160,7 @@ export const spawnEventSchemas = {
   create: Joi.object({
     boss_id: Joi.string().required(),
     spawn_time: Joi.date().iso().required(),
-    server: Joi.string().min(1).max(50).required(),
+    server: Joi.string().min(1).max(50).required().external(registeredServer),
     notes: Joi.string().max(500).optional(),
     coordinates: Joi.object({
       x: Joi.number().required(),
@@ -111,7 +171,7 @@ export const spawnEventSchemas = {
   
   update: Joi.object({
     spawn_time: Joi.date().iso().optional(),
-    server: Joi.string().min(1).max(50).optional(),
+    server: Joi.string().min(1).max(50).optional().external(registeredServer),
     notes: Joi.string().max(500).optional(),
     coordinates: Joi.object({
       x: Joi.number().required(),
@@ -122,6 +182,21 @@ export const spawnEventSchemas = {
     kill_time: Joi.date().iso().optional(),
     participants: Joi.array().items(Joi.string()).optional()
   }),
+
+  kill: Joi.object({
+    kill_time: Joi.date().iso().optional(),
+    guild_id: Joi.string().optional(),
+    participants: Joi.array().items(Joi.string().min(1).max(50)).max(200).optional(),
+    notes: Joi.string().max(500).optional()
+  }),
+
+  import: dataImportSchema,
+
+  export: dataExportQuerySchema.keys({
+    boss_id: Joi.string().optional(),
+    date_from: Joi.date().iso().optional(),
+    date_to: Joi.date().iso().optional()
+  }),
   
   query: Joi.object({
     page: Joi.number().integer().min(1).max(1000).default(1),
@@ -137,8 +212,7 @@ export const spawnEventSchemas = {
 export const userSchemas = {
   create: Joi.object({
     username: Joi.string().min(3).max(50).required(),
-    password: Joi.string().min(8).max(100).required(),
-    guild: Joi.string().optional()
+    password: Joi.string().min(8).max(100).required()
   }),
   
   update: Joi.object({
@@ -153,7 +227,6 @@ export const userSchemas = {
       guild_notifications: Joi.boolean().optional(),
       rare_boss_alerts: Joi.boolean().optional()
     }).optional(),
-    guild: Joi.string().optional(),
     avatar: Joi.string().optional(),
     bio: Joi.string().max(500).optional()
   }),
@@ -162,6 +235,27 @@ export const userSchemas = {
     username: Joi.string().min(3).max(50).required(),
     password: Joi.string().required()
   }),
+
+  refresh: Joi.object({
+    refresh_token: Joi.string().hex().length(64).required()
+  }),
+
+  changePassword: Joi.object({
+    current_password: Joi.string().required(),
+    new_password: Joi.string().min(8).max(100).required()
+  }),
+
+  loginHistoryQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    success: Joi.boolean().optional()
+  }),
+
+  resetPassword: Joi.object({
+    username: Joi.string().min(3).max(50).required(),
+    code: Joi.string().max(20).required(),
+    new_password: Joi.string().min(8).max(100).required()
+  }),
   
   query: Joi.object({
     page: Joi.number().integer().min(1).max(1000).default(1),
@@ -175,13 +269,19 @@ export const userSchemas = {
 
 export const commentSchemas = {
   create: Joi.object({
-    boss_id: Joi.string().required(),
     content: Joi.string().min(1).max(1000).required(),
     parent_id: Joi.string().optional()
   }),
   
   update: Joi.object({
     content: Joi.string().min(1).max(1000).required()
+  }),
+
+  query: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    sort_by: Joi.string().valid('created', 'likes').default('created'),
+    sort_order: Joi.string().valid('asc', 'desc').default('desc')
   })
 };
 
@@ -195,7 +295,103 @@ export const guildSchemas = {
   update: Joi.object({
     name: Joi.string().min(3).max(100).optional(),
     description: Joi.string().max(500).optional(),
-    notification_channel: Joi.string().max(100).optional()
+    notification_channel: Joi.string().max(100).optional(),
+    boss_tracking_enabled: Joi.boolean().optional()
+  }),
+
+  query: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    search: Joi.string().max(100).optional(),
+    sort_by: Joi.string().valid('name', 'created').default('created'),
+    sort_order: Joi.string().valid('asc', 'desc').default('desc')
+  }),
+
+  joinByCode: Joi.object({
+    invite_code: Joi.string().alphanum().min(6).max(32).required()
+  }),
+
+  joinRequest: Joi.object({
+    message: Joi.string().max(500).optional()
+  }),
+
+  joinRequestQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    status: Joi.string().valid('pending', 'approved', 'rejected', 'cancelled').optional()
+  }),
+
+  setRole: Joi.object({
+    role: Joi.string().valid('officer', 'member').required()
+  }),
+
+  transferLeadership: Joi.object({
+    user_id: Joi.string().required()
+  })
+};
+
+const discordTemplateSchema = Joi.object({
+  title: Joi.string().min(1).max(256).required(),
+  description: Joi.string().min(1).max(2000).required(),
+  color: Joi.number().integer().min(0).max(0xffffff).optional()
+});
+
+export const guildWebhookSchemas = {
+  upsert: Joi.object({
+    url: Joi.string().uri({ scheme: ['https', 'http'] }).max(500).required(),
+    enabled: Joi.boolean().optional(),
+    events: Joi.array().items(Joi.string().valid('spawn_soon', 'spawned', 'killed')).unique().optional(),
+    servers: Joi.array().items(Joi.string().max(50)).max(20).optional(),
+    spawn_soon_minutes: Joi.number().integer().min(1).max(120).optional(),
+    templates: Joi.object({
+      spawn_soon: discordTemplateSchema.optional(),
+      spawned: discordTemplateSchema.optional(),
+      killed: discordTemplateSchema.optional()
+    }).optional()
+  })
+};
+
+export const serverSchemas = {
+  create: Joi.object({
+    name: Joi.string().pattern(/^[a-zA-Z0-9_-]+$/).min(1).max(50).required(),
+    region: Joi.string().min(1).max(50).required(),
+    timezone: Joi.string().max(64).required(),
+    status: Joi.string().valid('online', 'maintenance', 'offline').optional(),
+    post_maintenance_rule: Joi.string().valid('keep', 'spawn_at_end', 'restart_timer').optional(),
+    description: Joi.string().max(500).optional()
+  }),
+
+  update: Joi.object({
+    region: Joi.string().min(1).max(50).optional(),
+    timezone: Joi.string().max(64).optional(),
+    status: Joi.string().valid('online', 'maintenance', 'offline').optional(),
+    post_maintenance_rule: Joi.string().valid('keep', 'spawn_at_end', 'restart_timer').optional(),
+    description: Joi.string().max(500).allow('').optional()
+  }),
+
+  maintenance: Joi.object({
+    start: Joi.date().iso().required(),
+    end: Joi.date().iso().greater(Joi.ref('start')).required(),
+    reason: Joi.string().max(200).optional()
+  }),
+
+  event: Joi.object({
+    type: Joi.string().valid('restart', 'maintenance_end').required(),
+    occurred_at: Joi.date().iso().optional(),
+    notes: Joi.string().max(500).optional()
+  }),
+
+  eventQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    type: Joi.string().valid('restart', 'maintenance_end').optional()
+  }),
+
+  query: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    region: Joi.string().max(50).optional(),
+    status: Joi.string().valid('online', 'maintenance', 'offline').optional()
   })
 };
 
@@ -208,7 +404,56 @@ export const guildMemberContributionSchemas = {
   
   update: Joi.object({
     member_name: Joi.string().min(1).max(100).optional(),
-    contribution_score: Joi.number().integer().min(0).optional()
+    contribution_score: Joi.number().precision(2).optional()
+  }),
+
+  rules: Joi.object({
+    difficulty_weights: Joi.object({
+      easy: Joi.number().min(0).max(1000).precision(2),
+      medium: Joi.number().min(0).max(1000).precision(2),
+      hard: Joi.number().min(0).max(1000).precision(2),
+      extreme: Joi.number().min(0).max(1000).precision(2),
+      legendary: Joi.number().min(0).max(1000).precision(2)
+    }).optional(),
+    event_weights: Joi.object({
+      kill: Joi.number().min(0).max(100).precision(2),
+      spawn: Joi.number().min(0).max(100).precision(2)
+    }).optional(),
+    reporter_bonus: Joi.number().min(0).max(1000).precision(2).optional(),
+    no_show_penalty: Joi.number().min(0).max(1000).precision(2).optional()
+  }).min(1),
+
+  adjust: Joi.object({
+    member_name: Joi.string().min(1).max(100).required(),
+    points: Joi.number().precision(2).invalid(0).required(),
+    reason: Joi.string().min(1).max(500).required()
+  }),
+
+  decay: Joi.object({
+    percent: Joi.number().greater(0).max(100).precision(2).required(),
+    reason: Joi.string().max(500).optional()
+  }),
+
+  loot: Joi.object({
+    spawn_event_id: Joi.string().required(),
+    item: Joi.string().min(1).max(100).required(),
+    member_name: Joi.string().min(1).max(100).required(),
+    points: Joi.number().min(0).precision(2).required(),
+    notes: Joi.string().max(500).optional()
+  }),
+
+  ledgerQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    member_name: Joi.string().max(100).optional(),
+    entry_type: Joi.string().valid('earn', 'spend', 'adjust', 'decay').optional()
+  }),
+
+  lootQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    spawn_event_id: Joi.string().optional(),
+    member_name: Joi.string().max(100).optional()
   }),
   
   query: Joi.object({
@@ -220,3 +465,64 @@ export const guildMemberContributionSchemas = {
     sort_order: Joi.string().valid('asc', 'desc').default('desc')
   })
 };
+
+export const notificationSchemas = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    sent: Joi.boolean().optional(),
+    type: Joi.string().valid('spawn_alert', 'guild_notification', 'achievement').optional()
+  })
+};
+
+export const calendarFeedSchemas = {
+  create: Joi.object({
+    scope: Joi.string().valid('user', 'guild', 'server').required(),
+    guild_id: Joi.string().when('scope', { is: 'guild', then: Joi.required(), otherwise: Joi.forbidden() }),
+    server: Joi.string().min(1).max(50).external(registeredServer)
+      .when('scope', { is: 'server', then: Joi.required(), otherwise: Joi.forbidden() })
+  })
+};
+
+export const roleSchemas = {
+  update: Joi.object({
+    role: Joi.string().valid('user', 'trusted', 'moderator', 'admin').required(),
+    reason: Joi.string().max(500).optional()
+  }),
+
+  revoke: Joi.object({
+    reason: Joi.string().max(500).optional()
+  }),
+
+  changesQuery: Joi.object({
+    page: Joi.number().integer().min(1).max(1000).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    scope: Joi.string().valid('site', 'guild').optional(),
+    user_id: Joi.string().optional(),
+    guild_id: Joi.string().optional()
+  })
+};
+
+export const leaderboardSchemas = {
+  params: Joi.object({
+    category: Joi.string().valid('reporters', 'guilds', 'contributors').required()
+  }),
+
+  query: Joi.object({
+    period: Joi.string().valid('weekly', 'monthly', 'season', 'all_time').default('all_time'),
+    server: Joi.string().min(1).max(50).optional().external(registeredServer),
+    limit: Joi.number().integer().min(1).max(100).default(50)
+  })
+};
+
+export const attendanceSchemas = {
+  check: Joi.object({
+    member_id: Joi.string().optional(),
+    guild_id: Joi.string().optional()
+  }),
+
+  query: Joi.object({
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional()
+  })
+};
@@ -56,6 +56,12 @@ class SupabaseClientWrapper {
             query = query.gt(key, value['>']);
           } else if ('<' in value) {
             query = query.lt(key, value['<']);
+          } else if ('$contains' in value) {
+            // Array column contains all of the given values
+            query = query.contains(key, Array.isArray(value.$contains) ? value.$contains : [value.$contains]);
+          } else if ('$is' in value) {
+            // IS NULL / IS TRUE checks (plain null filter values are skipped above)
+            query = query.is(key, value.$is);
           } else if ('$in' in value) {
             // Ensure value.$in is an array before passing to .in()
             if (Array.isArray(value.$in)) {
@@ -214,6 +220,22 @@ class SupabaseClientWrapper {
     return result;
   }
 
+  // Update a spawn event only if its verification_status is unchanged since it was read; null when it changed
+  public async updateSpawnEventIfStatus(id: string, expectedStatus: string | null, data: any): Promise<any | null> {
+    let query = this.supabase
+      .from('spawn_events')
+      .update(data)
+      .eq('id', id);
+    query = expectedStatus
+      ? query.eq('verification_status', expectedStatus)
+      : query.is('verification_status', null);
+
+    const { data: result, error } = await query.select();
+
+    if (error) throw error;
+    return result?.[0] || null;
+  }
+
   public async deleteSpawnEvent(id: string): Promise<boolean> {
     const { error } = await this.supabase
       .from('spawn_events')
@@ -270,6 +292,67 @@ class SupabaseClientWrapper {
     return result;
   }
 
+  // Update the login state only if it is unchanged since it was read; null when it changed
+  public async updateUserLoginState(id: string, expected: { failed_login_attempts?: number; last_failed_login?: string | null }, data: any): Promise<any | null> {
+    let query = this.supabase
+      .from('users')
+      .update(data)
+      .eq('id', id)
+      .eq('failed_login_attempts', expected.failed_login_attempts || 0);
+    query = expected.last_failed_login
+      ? query.eq('last_failed_login', expected.last_failed_login)
+      : query.is('last_failed_login', null);
+
+    const { data: result, error } = await query.select();
+
+    if (error) throw error;
+    return result?.[0] || null;
+  }
+
+  // Add to stats counters in one statement (never below zero); returns the updated stats
+  public async incrementUserStats(id: string, increments: Record<string, number>): Promise<any | null> {
+    const { data: result, error } = await this.supabase.rpc('increment_user_stats', {
+      p_user_id: id,
+      p_increments: increments
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Overwrite only the given stats keys; returns the updated stats
+  public async mergeUserStats(id: string, values: Record<string, any>): Promise<any | null> {
+    const { data: result, error } = await this.supabase.rpc('merge_user_stats', {
+      p_user_id: id,
+      p_values: values
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Count a UTC report day (YYYY-MM-DD) towards the report streak; returns the updated stats
+  public async recordUserReportDay(id: string, day: string): Promise<any | null> {
+    const { data: result, error } = await this.supabase.rpc('record_user_report_day', {
+      p_user_id: id,
+      p_day: day
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Add achievements to stats.achievements; returns only the ones the user did not have yet
+  public async addUserAchievements(id: string, achievements: string[]): Promise<string[]> {
+    const { data: result, error } = await this.supabase.rpc('add_user_achievements', {
+      p_user_id: id,
+      p_achievements: achievements
+    });
+
+    if (error) throw error;
+    return result || [];
+  }
+
   public async deleteUser(id: string): Promise<boolean> {
     const { error } = await this.supabase
       .from('users')
@@ -390,6 +473,28 @@ class SupabaseClientWrapper {
     return true;
   }
 
+  // Adds through add_guild_member, which fails with hint 'already_in_guild' when the user is in a guild
+  public async addGuildMember(guildId: string, userId: string): Promise<any> {
+    const { data: result, error } = await this.supabase.rpc('add_guild_member', {
+      p_guild_id: guildId,
+      p_user_id: userId
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Removes through remove_guild_member, which also clears users.guild when it points at the guild
+  public async removeGuildMember(guildId: string, userId: string): Promise<any> {
+    const { data: result, error } = await this.supabase.rpc('remove_guild_member', {
+      p_guild_id: guildId,
+      p_user_id: userId
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
   // Guild Member Contribution collection methods
   public async getGuildMemberContributions(queryParams?: any): Promise<any> {
     const page = queryParams?.page || 1;
@@ -445,37 +550,923 @@ class SupabaseClientWrapper {
     return true;
   }
 
-  // File upload methods
-  public async uploadFile(collection: string, recordId: string, field: string, file: File): Promise<any> {
-    // For Supabase, file uploads use Storage API
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${recordId}-${Date.now()}.${fileExt}`;
-    const filePath = `${collection}/${fileName}`;
+  // Notification collection methods
+  public async getNotifications(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('notifications', queryParams);
+    const { data, error, count } = await query;
 
-    const { error } = await this.supabase.storage
-      .from('uploads')
-      .upload(filePath, file);
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getNotification(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .select('*')
+      .eq('id', id)
+      .single();
 
     if (error) throw error;
+    return data;
+  }
 
-    // Update record with file URL
-    // getPublicUrl returns { data: { publicUrl: string } }
-    const urlResult = this.supabase.storage
-      .from('uploads')
-      .getPublicUrl(filePath);
-    const publicUrl = urlResult.data.publicUrl;
+  public async createNotification(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('notifications')
+      .insert(data)
+      .select()
+      .single();
 
-    const { data: result, error: updateError } = await this.supabase
-      .from(collection)
-      .update({ [field]: publicUrl })
-      .eq('id', recordId)
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateNotification(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('notifications')
+      .update(data)
+      .eq('id', id)
       .select()
       .single();
 
-    if (updateError) throw updateError;
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteNotification(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Guild Webhook collection methods
+  public async getGuildWebhooks(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('guild_webhooks', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getGuildWebhook(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('guild_webhooks')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createGuildWebhook(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('guild_webhooks')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateGuildWebhook(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('guild_webhooks')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteGuildWebhook(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('guild_webhooks')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Guild Join Request collection methods
+  public async getGuildJoinRequests(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('guild_join_requests', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getGuildJoinRequest(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('guild_join_requests')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createGuildJoinRequest(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('guild_join_requests')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateGuildJoinRequest(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('guild_join_requests')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteGuildJoinRequest(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('guild_join_requests')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Comment Like collection methods
+  public async getCommentLikes(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('comment_likes', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async createCommentLike(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('comment_likes')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteCommentLike(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('comment_likes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Spawn Confirmation collection methods
+  public async getSpawnConfirmations(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('spawn_confirmations', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getSpawnConfirmation(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('spawn_confirmations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createSpawnConfirmation(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('spawn_confirmations')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateSpawnConfirmation(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('spawn_confirmations')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
     return result;
   }
 
+  public async deleteSpawnConfirmation(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('spawn_confirmations')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // File upload methods
+  // Game Server collection methods
+  public async getGameServers(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('servers', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getGameServer(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('servers')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createGameServer(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('servers')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateGameServer(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('servers')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Claim a maintenance window for its timer reset; false when it was applied or another claim is fresh
+  public async claimMaintenanceWindow(serverId: string, windowId: string, leaseMinutes: number): Promise<boolean> {
+    const { data: result, error } = await this.supabase.rpc('claim_maintenance_window', {
+      p_server_id: serverId,
+      p_window_id: windowId,
+      p_lease_minutes: leaseMinutes
+    });
+
+    if (error) throw error;
+    return result === true;
+  }
+
+  // Release a claimed maintenance window, marking it applied when its reset succeeded
+  public async finishMaintenanceWindow(serverId: string, windowId: string, applied: boolean): Promise<void> {
+    const { error } = await this.supabase.rpc('finish_maintenance_window', {
+      p_server_id: serverId,
+      p_window_id: windowId,
+      p_applied: applied
+    });
+
+    if (error) throw error;
+  }
+
+  public async deleteGameServer(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('servers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Server Event collection methods
+  public async getServerEvents(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('server_events', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getServerEvent(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('server_events')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createServerEvent(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('server_events')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Calendar Feed collection methods
+  public async getCalendarFeeds(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('calendar_feeds', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getCalendarFeed(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createCalendarFeed(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('calendar_feeds')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteCalendarFeed(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Role Change collection methods
+  public async getRoleChanges(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('role_changes', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getRoleChange(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('role_changes')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createRoleChange(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('role_changes')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // User Session collection methods
+  public async getUserSessions(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('user_sessions', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getUserSession(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createUserSession(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('user_sessions')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateUserSession(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('user_sessions')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Refresh Token collection methods
+  public async getRefreshTokens(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('refresh_tokens', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getRefreshToken(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('refresh_tokens')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createRefreshToken(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('refresh_tokens')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateRefreshToken(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('refresh_tokens')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Mark a refresh token used unless it already was; null when it was
+  public async markRefreshTokenUsed(id: string, usedAt: string): Promise<any | null> {
+    const { data: result, error } = await this.supabase
+      .from('refresh_tokens')
+      .update({ used_at: usedAt })
+      .eq('id', id)
+      .is('used_at', null)
+      .select();
+
+    if (error) throw error;
+    return result?.[0] || null;
+  }
+
+  // Password Reset Code collection methods
+  public async getPasswordResetCodes(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('password_reset_codes', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getPasswordResetCode(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('password_reset_codes')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createPasswordResetCode(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('password_reset_codes')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updatePasswordResetCode(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('password_reset_codes')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Mark a reset code used while it is still unused, unrevoked and unexpired; null when it is not
+  public async markPasswordResetCodeUsed(id: string, usedAt: string): Promise<any | null> {
+    const { data: result, error } = await this.supabase
+      .from('password_reset_codes')
+      .update({ used_at: usedAt })
+      .eq('id', id)
+      .is('used_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', usedAt)
+      .select();
+
+    if (error) throw error;
+    return result?.[0] || null;
+  }
+
+  // Login Attempt collection methods
+  public async getLoginAttempts(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('login_attempts', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getLoginAttempt(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('login_attempts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createLoginAttempt(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('login_attempts')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // User Achievement collection methods
+  public async getUserAchievements(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('user_achievements', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getUserAchievement(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createUserAchievement(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('user_achievements')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Leaderboard Snapshot collection methods
+  public async getLeaderboardSnapshots(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('leaderboard_snapshots', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getLeaderboardSnapshot(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('leaderboard_snapshots')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createLeaderboardSnapshot(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('leaderboard_snapshots')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateLeaderboardSnapshot(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('leaderboard_snapshots')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Contribution Ledger Entry collection methods
+  public async getContributionLedgerEntries(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('contribution_ledger', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getContributionLedgerEntry(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('contribution_ledger')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createContributionLedgerEntry(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('contribution_ledger')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Appends through append_contribution_ledger_entry, which computes balance_after, can refuse overdrafts
+  // and stores the balance as the member's contribution_score
+  public async appendContributionLedgerEntry(data: any, requireBalance: boolean = false, eventDate?: string): Promise<any> {
+    const { data: result, error } = await this.supabase.rpc('append_contribution_ledger_entry', {
+      p_guild_id: data.guild_id,
+      p_member_name: data.member_name,
+      p_member_id: data.member_id ?? null,
+      p_entry_type: data.entry_type,
+      p_points: data.points,
+      p_reason: data.reason ?? null,
+      p_spawn_event_id: data.spawn_event_id ?? null,
+      p_loot_award_id: data.loot_award_id ?? null,
+      p_created_by: data.created_by ?? null,
+      p_require_balance: requireBalance,
+      p_event_date: eventDate ?? null
+    });
+
+    if (error) throw error;
+    return result;
+  }
+
+  // Loot Award collection methods
+  public async getLootAwards(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('loot_awards', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getLootAward(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('loot_awards')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createLootAward(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('loot_awards')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteLootAward(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('loot_awards')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Spawn Attendance collection methods
+  public async getSpawnAttendanceRecords(queryParams?: any): Promise<any> {
+    const page = queryParams?.page || 1;
+    const perPage = queryParams?.perPage || queryParams?.limit || 50;
+    const query = this.buildQuery('spawn_attendance', queryParams);
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return this.formatResponse(data, count, page, perPage);
+  }
+
+  public async getSpawnAttendanceRecord(id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('spawn_attendance')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  public async createSpawnAttendanceRecord(data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('spawn_attendance')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async updateSpawnAttendanceRecord(id: string, data: any): Promise<any> {
+    const { data: result, error } = await this.supabase
+      .from('spawn_attendance')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return result;
+  }
+
+  public async deleteSpawnAttendanceRecord(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('spawn_attendance')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  public async uploadFile(collection: string, recordId: string, field: string, file: File): Promise<any> {
+    // For Supabase, file uploads use Storage API
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${recordId}-${Date.now()}.${fileExt}`;
+    const filePath = `${collection}/${fileName}`;
+
+    const { error } = await this.supabase.storage
+      .from('uploads')
+      .upload(filePath, file);
+
+    if (error) throw error;
+
+    // Update record with file URL
+    // getPublicUrl returns { data: { publicUrl: string } }
+    const urlResult = this.supabase.storage
+      .from('uploads')
+      .getPublicUrl(filePath);
+    const publicUrl = urlResult.data.publicUrl;
+
+    const { data: result, error: updateError } = await this.supabase
+      .from(collection)
+      .update({ [field]: publicUrl })
+      .eq('id', recordId)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+    return result;
+  }
+
+  public async uploadBuffer(path: string, data: Buffer, contentType: string): Promise<string> {
+    const { error } = await this.supabase.storage
+      .from('uploads')
+      .upload(path, data, { contentType, upsert: true });
+
+    if (error) throw error;
+
+    return this.supabase.storage
+      .from('uploads')
+      .getPublicUrl(path).data.publicUrl;
+  }
+
+  public async removeFile(path: string): Promise<boolean> {
+    const { error } = await this.supabase.storage
+      .from('uploads')
+      .remove([path]);
+
+    if (error) throw error;
+    return true;
+  }
+
   // Real-time subscription
   public subscribe(collection: string, callback: (data: any) => void): () => void {
     const channel = this.supabase
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { AchievementController } from '@/controllers/AchievementController';
+import { generalLimiter } from '@/middleware/rateLimiter';
+
+const router = Router();
+const achievementController = new AchievementController();
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/achievements - Get every achievement and what earns it
+router.get(
+  '/',
+  achievementController.getCatalog
+);
+
+export default router;
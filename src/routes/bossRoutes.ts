@@ -1,12 +1,22 @@
 import { Router } from 'express';
 import { BossController } from '@/controllers/BossController';
-import { authenticateToken, optionalAuth } from '@/middleware/auth';
+import { CommentController } from '@/controllers/CommentController';
+import { UploadController } from '@/controllers/UploadController';
+import { ImportExportController } from '@/controllers/ImportExportController';
+import { authenticateToken, optionalAuth, requirePermission } from '@/middleware/auth';
 import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
-import { bossSchemas } from '@/middleware/validation';
-import { generalLimiter, bossCreationLimiter } from '@/middleware/rateLimiter';
+import { bossSchemas, commentSchemas } from '@/middleware/validation';
+import { generalLimiter, bossCreationLimiter, commentLimiter } from '@/middleware/rateLimiter';
+import { uploadImage } from '@/middleware/upload';
+import Joi from 'joi';
 
 const router = Router();
 const bossController = new BossController();
+const commentController = new CommentController();
+const uploadController = new UploadController();
+const importExportController = new ImportExportController();
+
+const commentParams = Joi.object({ id: Joi.string().required(), commentId: Joi.string().required() });
 
 // Apply rate limiting to all routes
 router.use(generalLimiter);
@@ -42,6 +52,15 @@ router.get(
   bossController.getBossesByDifficulty
 );
 
+// GET /api/bosses/export - Download bosses as CSV or JSON, optionally for one server (admin)
+router.get(
+  '/export',
+  authenticateToken,
+  requirePermission('data:transfer'),
+  validateQuery(bossSchemas.export),
+  importExportController.exportBosses
+);
+
 // GET /api/bosses/:id - Get specific boss
 router.get(
   '/:id',
@@ -66,6 +85,85 @@ router.get(
   bossController.getBossStats
 );
 
+// GET /api/bosses/:id/comments - Get comment threads for a boss with pagination
+router.get(
+  '/:id/comments',
+  optionalAuth,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateQuery(commentSchemas.query),
+  commentController.getComments
+);
+
+// GET /api/bosses/:id/comments/:commentId - Get a comment with its replies
+router.get(
+  '/:id/comments/:commentId',
+  optionalAuth,
+  validateParams(commentParams),
+  commentController.getComment
+);
+
+// POST /api/bosses/:id/comments - Post a comment or a reply (authenticated)
+router.post(
+  '/:id/comments',
+  authenticateToken,
+  commentLimiter,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateRequest(commentSchemas.create),
+  commentController.createComment
+);
+
+// PUT /api/bosses/:id/comments/:commentId - Edit your own comment (authenticated)
+router.put(
+  '/:id/comments/:commentId',
+  authenticateToken,
+  commentLimiter,
+  validateParams(commentParams),
+  validateRequest(commentSchemas.update),
+  commentController.updateComment
+);
+
+// DELETE /api/bosses/:id/comments/:commentId - Soft delete a comment (author or admin)
+router.delete(
+  '/:id/comments/:commentId',
+  authenticateToken,
+  validateParams(commentParams),
+  commentController.deleteComment
+);
+
+// POST /api/bosses/:id/comments/:commentId/restore - Restore a deleted comment (moderator)
+router.post(
+  '/:id/comments/:commentId/restore',
+  authenticateToken,
+  requirePermission('comments:moderate'),
+  validateParams(commentParams),
+  commentController.restoreComment
+);
+
+// POST /api/bosses/:id/comments/:commentId/like - Like a comment (authenticated)
+router.post(
+  '/:id/comments/:commentId/like',
+  authenticateToken,
+  validateParams(commentParams),
+  commentController.likeComment
+);
+
+// DELETE /api/bosses/:id/comments/:commentId/like - Remove your like (authenticated)
+router.delete(
+  '/:id/comments/:commentId/like',
+  authenticateToken,
+  validateParams(commentParams),
+  commentController.unlikeComment
+);
+
+// POST /api/bosses/import - Bulk create bosses from CSV or JSON rows, with dry run and per-row errors (admin)
+router.post(
+  '/import',
+  authenticateToken,
+  requirePermission('data:transfer'),
+  validateRequest(bossSchemas.import),
+  importExportController.importBosses
+);
+
 // POST /api/bosses - Create new boss (authenticated)
 router.post(
   '/',
@@ -84,6 +182,23 @@ router.put(
   bossController.updateBoss
 );
 
+// POST /api/bosses/:id/image - Upload the boss image as multipart field "image" (creator or admin)
+router.post(
+  '/:id/image',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  uploadImage('image'),
+  uploadController.uploadBossImage
+);
+
+// DELETE /api/bosses/:id/image - Remove the boss image (creator or admin)
+router.delete(
+  '/:id/image',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  uploadController.deleteBossImage
+);
+
 // DELETE /api/bosses/:id - Delete boss (authenticated)
 router.delete(
   '/:id',
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { CalendarController } from '@/controllers/CalendarController';
+import { authenticateToken } from '@/middleware/auth';
+import { validateRequest, validateParams } from '@/middleware/validation';
+import { calendarFeedSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+import Joi from 'joi';
+
+const router = Router();
+const calendarController = new CalendarController();
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/calendar/feeds - Get the current user's calendar feed URLs
+router.get(
+  '/feeds',
+  authenticateToken,
+  calendarController.getFeeds
+);
+
+// POST /api/calendar/feeds - Create a feed URL for the user's favorites, a guild or a server
+router.post(
+  '/feeds',
+  authenticateToken,
+  validateRequest(calendarFeedSchemas.create),
+  calendarController.createFeed
+);
+
+// DELETE /api/calendar/feeds/:id - Revoke a calendar feed URL
+router.delete(
+  '/feeds/:id',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  calendarController.deleteFeed
+);
+
+// GET /api/calendar/:token.ics - iCalendar feed of upcoming predicted spawns (public, token in URL)
+router.get(
+  '/:token.ics',
+  validateParams(Joi.object({ token: Joi.string().hex().length(48).required() })),
+  calendarController.getFeedCalendar
+);
+
+export default router;
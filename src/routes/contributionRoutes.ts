@@ -1,13 +1,15 @@
 import { Router } from 'express';
 import { ContributionController } from '@/controllers/ContributionController';
+import { AttendanceController } from '@/controllers/AttendanceController';
 import { authenticateToken, optionalAuth } from '@/middleware/auth';
 import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
-import { guildMemberContributionSchemas } from '@/middleware/validation';
+import { guildMemberContributionSchemas, attendanceSchemas } from '@/middleware/validation';
 import { generalLimiter } from '@/middleware/rateLimiter';
 import Joi from 'joi';
 
 const router = Router();
 const contributionController = new ContributionController();
+const attendanceController = new AttendanceController();
 
 // Apply rate limiting to all routes
 router.use(generalLimiter);
@@ -61,7 +63,24 @@ router.delete(
   contributionController.deleteGuildMemberContribution
 );
 
-// POST /api/guild-contributions/guild/:guildId/recalculate - Recalculate contributions for a guild (authenticated)
+// GET /api/guild-contributions/guild/:guildId/rules - Get how the guild scores contributions
+router.get(
+  '/guild/:guildId/rules',
+  optionalAuth,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  contributionController.getContributionRules
+);
+
+// PUT /api/guild-contributions/guild/:guildId/rules - Change difficulty and event weights, reporter bonus and no-show penalty (guild leader or officer)
+router.put(
+  '/guild/:guildId/rules',
+  authenticateToken,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateRequest(guildMemberContributionSchemas.rules),
+  contributionController.updateContributionRules
+);
+
+// POST /api/guild-contributions/guild/:guildId/recalculate - Replay all spawn events under the current rules (guild leader or officer)
 router.post(
   '/guild/:guildId/recalculate',
   authenticateToken,
@@ -69,5 +88,67 @@ router.post(
   contributionController.recalculateGuildContributions
 );
 
+// GET /api/guild-contributions/guild/:guildId/members/:memberName/balance - Get a member's points balance
+router.get(
+  '/guild/:guildId/members/:memberName/balance',
+  optionalAuth,
+  validateParams(Joi.object({ guildId: Joi.string().required(), memberName: Joi.string().max(100).required() })),
+  contributionController.getMemberBalance
+);
+
+// GET /api/guild-contributions/guild/:guildId/members/:memberId/attendance - Get the guild events a member attended and missed, with their attendance rate (guild members)
+router.get(
+  '/guild/:guildId/members/:memberId/attendance',
+  authenticateToken,
+  validateParams(Joi.object({ guildId: Joi.string().required(), memberId: Joi.string().required() })),
+  validateQuery(attendanceSchemas.query),
+  attendanceController.getMemberAttendance
+);
+
+// GET /api/guild-contributions/guild/:guildId/ledger - Get the guild's points ledger, newest first
+router.get(
+  '/guild/:guildId/ledger',
+  optionalAuth,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateQuery(guildMemberContributionSchemas.ledgerQuery),
+  contributionController.getLedger
+);
+
+// POST /api/guild-contributions/guild/:guildId/adjust - Add or take points from a member (guild leader or officer)
+router.post(
+  '/guild/:guildId/adjust',
+  authenticateToken,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateRequest(guildMemberContributionSchemas.adjust),
+  contributionController.adjustPoints
+);
+
+// POST /api/guild-contributions/guild/:guildId/decay - Take a percentage off every positive balance (guild leader or officer)
+router.post(
+  '/guild/:guildId/decay',
+  authenticateToken,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateRequest(guildMemberContributionSchemas.decay),
+  contributionController.decayPoints
+);
+
+// GET /api/guild-contributions/guild/:guildId/loot - Get the guild's loot awards
+router.get(
+  '/guild/:guildId/loot',
+  optionalAuth,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateQuery(guildMemberContributionSchemas.lootQuery),
+  contributionController.getLootAwards
+);
+
+// POST /api/guild-contributions/guild/:guildId/loot - Award a boss drop to a member for points (guild leader or officer)
+router.post(
+  '/guild/:guildId/loot',
+  authenticateToken,
+  validateParams(Joi.object({ guildId: Joi.string().required() })),
+  validateRequest(guildMemberContributionSchemas.loot),
+  contributionController.awardLoot
+);
+
 export default router;
 
@@ -0,0 +1,226 @@
+import { Router } from 'express';
+import { GuildController } from '@/controllers/GuildController';
+import { WebhookController } from '@/controllers/WebhookController';
+import { RoleController } from '@/controllers/RoleController';
+import { authenticateToken, optionalAuth, requireGuildMember, requireGuildPermission } from '@/middleware/auth';
+import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
+import { guildSchemas, guildWebhookSchemas, roleSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+import Joi from 'joi';
+
+const router = Router();
+const guildController = new GuildController();
+const webhookController = new WebhookController();
+const roleController = new RoleController();
+
+const guildParams = Joi.object({ guildId: Joi.string().required() });
+const joinRequestParams = Joi.object({ guildId: Joi.string().required(), requestId: Joi.string().required() });
+const memberParams = Joi.object({ guildId: Joi.string().required(), userId: Joi.string().required() });
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/guilds - Get all guilds with search and pagination
+router.get(
+  '/',
+  optionalAuth,
+  validateQuery(guildSchemas.query),
+  guildController.getGuilds
+);
+
+// POST /api/guilds - Create a new guild led by the current user (authenticated)
+router.post(
+  '/',
+  authenticateToken,
+  validateRequest(guildSchemas.create),
+  guildController.createGuild
+);
+
+// POST /api/guilds/join - Join a guild with an invite code (authenticated)
+router.post(
+  '/join',
+  authenticateToken,
+  validateRequest(guildSchemas.joinByCode),
+  guildController.joinByInviteCode
+);
+
+// GET /api/guilds/:guildId - Get specific guild
+router.get(
+  '/:guildId',
+  optionalAuth,
+  validateParams(guildParams),
+  guildController.getGuild
+);
+
+// PUT /api/guilds/:guildId - Update guild settings (guild leader or officer)
+router.put(
+  '/:guildId',
+  authenticateToken,
+  validateParams(guildParams),
+  validateRequest(guildSchemas.update),
+  guildController.updateGuild
+);
+
+// DELETE /api/guilds/:guildId - Disband the guild (guild leader)
+router.delete(
+  '/:guildId',
+  authenticateToken,
+  validateParams(guildParams),
+  guildController.deleteGuild
+);
+
+// GET /api/guilds/:guildId/members - Get guild members with their roles
+router.get(
+  '/:guildId/members',
+  optionalAuth,
+  validateParams(guildParams),
+  guildController.getMembers
+);
+
+// GET /api/guilds/:guildId/stats - Get guild statistics (refreshed on membership changes and hourly)
+router.get(
+  '/:guildId/stats',
+  optionalAuth,
+  validateParams(guildParams),
+  guildController.getStats
+);
+
+// POST /api/guilds/:guildId/invite-code - Generate a new invite code, replacing the old one (guild leader or officer)
+router.post(
+  '/:guildId/invite-code',
+  authenticateToken,
+  validateParams(guildParams),
+  guildController.regenerateInviteCode
+);
+
+// DELETE /api/guilds/:guildId/invite-code - Disable joining by invite code (guild leader or officer)
+router.delete(
+  '/:guildId/invite-code',
+  authenticateToken,
+  validateParams(guildParams),
+  guildController.revokeInviteCode
+);
+
+// POST /api/guilds/:guildId/join-requests - Ask to join the guild (authenticated)
+router.post(
+  '/:guildId/join-requests',
+  authenticateToken,
+  validateParams(guildParams),
+  validateRequest(guildSchemas.joinRequest),
+  guildController.requestToJoin
+);
+
+// GET /api/guilds/:guildId/join-requests - Get join requests (guild leader or officer)
+router.get(
+  '/:guildId/join-requests',
+  authenticateToken,
+  validateParams(guildParams),
+  validateQuery(guildSchemas.joinRequestQuery),
+  guildController.getJoinRequests
+);
+
+// POST /api/guilds/:guildId/join-requests/:requestId/approve - Approve a join request (guild leader or officer)
+router.post(
+  '/:guildId/join-requests/:requestId/approve',
+  authenticateToken,
+  validateParams(joinRequestParams),
+  guildController.approveJoinRequest
+);
+
+// POST /api/guilds/:guildId/join-requests/:requestId/reject - Reject a join request (guild leader or officer)
+router.post(
+  '/:guildId/join-requests/:requestId/reject',
+  authenticateToken,
+  validateParams(joinRequestParams),
+  guildController.rejectJoinRequest
+);
+
+// DELETE /api/guilds/:guildId/join-requests/:requestId - Cancel your own pending join request (authenticated)
+router.delete(
+  '/:guildId/join-requests/:requestId',
+  authenticateToken,
+  validateParams(joinRequestParams),
+  guildController.cancelJoinRequest
+);
+
+// POST /api/guilds/:guildId/leave - Leave the guild (guild member)
+router.post(
+  '/:guildId/leave',
+  authenticateToken,
+  validateParams(guildParams),
+  requireGuildMember,
+  guildController.leaveGuild
+);
+
+// DELETE /api/guilds/:guildId/members/:userId - Remove a member from the guild (guild leader or officer)
+router.delete(
+  '/:guildId/members/:userId',
+  authenticateToken,
+  validateParams(memberParams),
+  guildController.kickMember
+);
+
+// PUT /api/guilds/:guildId/members/:userId/role - Promote to officer or demote to member (guild leader)
+router.put(
+  '/:guildId/members/:userId/role',
+  authenticateToken,
+  validateParams(memberParams),
+  requireGuildPermission('guild:manage_roles'),
+  validateRequest(guildSchemas.setRole),
+  guildController.setMemberRole
+);
+
+// POST /api/guilds/:guildId/transfer - Transfer leadership to another member (guild leader)
+router.post(
+  '/:guildId/transfer',
+  authenticateToken,
+  validateParams(guildParams),
+  requireGuildPermission('guild:transfer_leadership'),
+  validateRequest(guildSchemas.transferLeadership),
+  guildController.transferLeadership
+);
+
+// GET /api/guilds/:guildId/role-changes - Get the history of officer and leader changes (guild leader)
+router.get(
+  '/:guildId/role-changes',
+  authenticateToken,
+  validateParams(guildParams),
+  requireGuildPermission('guild:manage_roles'),
+  validateQuery(roleSchemas.changesQuery),
+  roleController.getGuildRoleChanges
+);
+
+// GET /api/guilds/:guildId/webhook - Get the guild's Discord webhook (guild leader or officer)
+router.get(
+  '/:guildId/webhook',
+  authenticateToken,
+  validateParams(guildParams),
+  webhookController.getWebhook
+);
+
+// PUT /api/guilds/:guildId/webhook - Register or update the guild's Discord webhook (guild leader or officer)
+router.put(
+  '/:guildId/webhook',
+  authenticateToken,
+  validateParams(guildParams),
+  validateRequest(guildWebhookSchemas.upsert),
+  webhookController.upsertWebhook
+);
+
+// DELETE /api/guilds/:guildId/webhook - Remove the guild's Discord webhook (guild leader or officer)
+router.delete(
+  '/:guildId/webhook',
+  authenticateToken,
+  validateParams(guildParams),
+  webhookController.deleteWebhook
+);
+
+// POST /api/guilds/:guildId/webhook/test - Send a signed test ping to the webhook (guild leader or officer)
+router.post(
+  '/:guildId/webhook/test',
+  authenticateToken,
+  validateParams(guildParams),
+  webhookController.testWebhook
+);
+
+export default router;
@@ -3,6 +3,13 @@ import bossRoutes from './bossRoutes';
 import spawnRoutes from './spawnRoutes';
 import userRoutes from './userRoutes';
 import contributionRoutes from './contributionRoutes';
+import notificationRoutes from './notificationRoutes';
+import guildRoutes from './guildRoutes';
+import serverRoutes from './serverRoutes';
+import calendarRoutes from './calendarRoutes';
+import roleRoutes from './roleRoutes';
+import achievementRoutes from './achievementRoutes';
+import leaderboardRoutes from './leaderboardRoutes';
 
 const router = Router();
 
@@ -21,6 +28,13 @@ router.use('/bosses', bossRoutes);
 router.use('/spawns', spawnRoutes);
 router.use('/users', userRoutes);
 router.use('/guild-contributions', contributionRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/guilds', guildRoutes);
+router.use('/servers', serverRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/roles', roleRoutes);
+router.use('/achievements', achievementRoutes);
+router.use('/leaderboards', leaderboardRoutes);
 
 // 404 handler for API routes
 router.use('*', (req, res) => {
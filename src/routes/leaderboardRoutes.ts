@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { LeaderboardController } from '@/controllers/LeaderboardController';
+import { validateQuery, validateParams } from '@/middleware/validation';
+import { leaderboardSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+
+const router = Router();
+const leaderboardController = new LeaderboardController();
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/leaderboards/:category - Get the top reporters, guilds or contributors (?period=weekly|monthly|season|all_time, ?server=)
+router.get(
+  '/:category',
+  validateParams(leaderboardSchemas.params),
+  validateQuery(leaderboardSchemas.query),
+  leaderboardController.getLeaderboard
+);
+
+export default router;
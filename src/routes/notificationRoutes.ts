@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { NotificationController } from '@/controllers/NotificationController';
+import { authenticateToken } from '@/middleware/auth';
+import { validateQuery } from '@/middleware/validation';
+import { notificationSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+
+const router = Router();
+const notificationController = new NotificationController();
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/notifications - Get the current user's queued and delivered notifications
+router.get(
+  '/',
+  authenticateToken,
+  validateQuery(notificationSchemas.query),
+  notificationController.getNotifications
+);
+
+export default router;
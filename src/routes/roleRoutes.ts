@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { RoleController } from '@/controllers/RoleController';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
+import { roleSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+import Joi from 'joi';
+
+const router = Router();
+const roleController = new RoleController();
+
+const userParams = Joi.object({ userId: Joi.string().required() });
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/roles - Get site and guild roles with the permissions each one grants
+router.get(
+  '/',
+  roleController.getRoles
+);
+
+// GET /api/roles/changes - Get the audit trail of role changes (admin)
+router.get(
+  '/changes',
+  authenticateToken,
+  requirePermission('roles:manage'),
+  validateQuery(roleSchemas.changesQuery),
+  roleController.getRoleChanges
+);
+
+// PUT /api/roles/users/:userId - Grant a site role to a user (admin)
+router.put(
+  '/users/:userId',
+  authenticateToken,
+  requirePermission('roles:manage'),
+  validateParams(userParams),
+  validateRequest(roleSchemas.update),
+  roleController.setUserRole
+);
+
+// DELETE /api/roles/users/:userId - Revoke a user's site role back to 'user' (admin)
+router.delete(
+  '/users/:userId',
+  authenticateToken,
+  requirePermission('roles:manage'),
+  validateParams(userParams),
+  validateRequest(roleSchemas.revoke),
+  roleController.revokeUserRole
+);
+
+export default router;
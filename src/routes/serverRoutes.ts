@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { ServerController } from '@/controllers/ServerController';
+import { authenticateToken, optionalAuth, requirePermission } from '@/middleware/auth';
+import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
+import { serverSchemas } from '@/middleware/validation';
+import { generalLimiter } from '@/middleware/rateLimiter';
+import Joi from 'joi';
+
+const router = Router();
+const serverController = new ServerController();
+
+const serverParams = Joi.object({ name: Joi.string().required() });
+
+// Apply rate limiting to all routes
+router.use(generalLimiter);
+
+// GET /api/servers - Get registered game servers with region/status filters
+router.get(
+  '/',
+  optionalAuth,
+  validateQuery(serverSchemas.query),
+  serverController.getServers
+);
+
+// GET /api/servers/:name - Get a game server with its maintenance windows
+router.get(
+  '/:name',
+  optionalAuth,
+  validateParams(serverParams),
+  serverController.getServer
+);
+
+// POST /api/servers - Register a game server (admin)
+router.post(
+  '/',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateRequest(serverSchemas.create),
+  serverController.createServer
+);
+
+// PUT /api/servers/:name - Update region, timezone, status or post-maintenance rule (admin)
+router.put(
+  '/:name',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(serverParams),
+  validateRequest(serverSchemas.update),
+  serverController.updateServer
+);
+
+// DELETE /api/servers/:name - Remove a server no boss or spawn event references (admin)
+router.delete(
+  '/:name',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(serverParams),
+  serverController.deleteServer
+);
+
+// POST /api/servers/:name/maintenance - Schedule a maintenance window (admin)
+router.post(
+  '/:name/maintenance',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(serverParams),
+  validateRequest(serverSchemas.maintenance),
+  serverController.addMaintenanceWindow
+);
+
+// DELETE /api/servers/:name/maintenance/:windowId - Cancel a maintenance window (admin)
+router.delete(
+  '/:name/maintenance/:windowId',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(Joi.object({ name: Joi.string().required(), windowId: Joi.string().required() })),
+  serverController.removeMaintenanceWindow
+);
+
+// POST /api/servers/:name/events - Record a restart or maintenance end and reset the server's boss timers (admin)
+router.post(
+  '/:name/events',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(serverParams),
+  validateRequest(serverSchemas.event),
+  serverController.recordServerEvent
+);
+
+// GET /api/servers/:name/events - Get the server's restart/maintenance audit log (admin)
+router.get(
+  '/:name/events',
+  authenticateToken,
+  requirePermission('servers:manage'),
+  validateParams(serverParams),
+  validateQuery(serverSchemas.eventQuery),
+  serverController.getServerEvents
+);
+
+export default router;
@@ -1,12 +1,17 @@
 import { Router } from 'express';
 import { SpawnController } from '@/controllers/SpawnController';
-import { authenticateToken, optionalAuth } from '@/middleware/auth';
+import { ImportExportController } from '@/controllers/ImportExportController';
+import { AttendanceController } from '@/controllers/AttendanceController';
+import { authenticateToken, optionalAuth, requirePermission } from '@/middleware/auth';
 import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
-import { spawnEventSchemas } from '@/middleware/validation';
+import { spawnEventSchemas, attendanceSchemas } from '@/middleware/validation';
 import { generalLimiter, spawnReportLimiter } from '@/middleware/rateLimiter';
+import Joi from 'joi';
 
 const router = Router();
 const spawnController = new SpawnController();
+const importExportController = new ImportExportController();
+const attendanceController = new AttendanceController();
 
 // Apply rate limiting to all routes
 router.use(generalLimiter);
@@ -53,6 +58,15 @@ router.get(
   spawnController.getSpawnEventsByServer
 );
 
+// GET /api/spawns/export - Download spawn history as CSV or JSON, filtered by server, boss and date (admin)
+router.get(
+  '/export',
+  authenticateToken,
+  requirePermission('data:transfer'),
+  validateQuery(spawnEventSchemas.export),
+  importExportController.exportSpawnEvents
+);
+
 // GET /api/spawns/:id - Get specific spawn event
 router.get(
   '/:id',
@@ -70,6 +84,15 @@ router.post(
   spawnController.createSpawnEvent
 );
 
+// POST /api/spawns/import - Bulk import historical spawn events from CSV or JSON rows, with dry run and per-row errors (admin)
+router.post(
+  '/import',
+  authenticateToken,
+  requirePermission('data:transfer'),
+  validateRequest(spawnEventSchemas.import),
+  importExportController.importSpawnEvents
+);
+
 // PUT /api/spawns/:id - Update spawn event (authenticated)
 router.put(
   '/:id',
@@ -87,12 +110,75 @@ router.delete(
   spawnController.deleteSpawnEvent
 );
 
-// POST /api/spawns/:id/verify - Verify spawn event (authenticated)
+// POST /api/spawns/:id/verify - Force-verify a spawn event without consensus (moderator)
 router.post(
   '/:id/verify',
   authenticateToken,
+  requirePermission('spawns:verify'),
   validateParams(spawnEventSchemas.query),
   spawnController.verifySpawnEvent
 );
 
+// POST /api/spawns/:id/kill - Record the kill of a spawned boss with killing guild and participants (authenticated)
+router.post(
+  '/:id/kill',
+  authenticateToken,
+  spawnReportLimiter,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateRequest(spawnEventSchemas.kill),
+  spawnController.recordKill
+);
+
+// GET /api/spawns/:id/confirmations - Get confirmations and disputes of a spawn event
+router.get(
+  '/:id/confirmations',
+  optionalAuth,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  spawnController.getSpawnConfirmations
+);
+
+// POST /api/spawns/:id/confirm - Confirm someone else's spawn report (authenticated)
+router.post(
+  '/:id/confirm',
+  authenticateToken,
+  spawnReportLimiter,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  spawnController.confirmSpawnEvent
+);
+
+// POST /api/spawns/:id/dispute - Dispute someone else's spawn report (authenticated)
+router.post(
+  '/:id/dispute',
+  authenticateToken,
+  spawnReportLimiter,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  spawnController.disputeSpawnEvent
+);
+
+// GET /api/spawns/:id/attendance - Get who attended a spawn event, with check-in and check-out times
+router.get(
+  '/:id/attendance',
+  optionalAuth,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  attendanceController.getSpawnAttendance
+);
+
+// POST /api/spawns/:id/attendance/check-in - Check yourself in, or a guild member as their guild's leader or officer (authenticated)
+router.post(
+  '/:id/attendance/check-in',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateRequest(attendanceSchemas.check),
+  attendanceController.checkIn
+);
+
+// POST /api/spawns/:id/attendance/check-out - Check yourself out, or a guild member as their guild's leader or officer (authenticated)
+router.post(
+  '/:id/attendance/check-out',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateRequest(attendanceSchemas.check),
+  attendanceController.checkOut
+);
+
 export default router;
@@ -1,12 +1,22 @@
 import { Router } from 'express';
 import { UserController } from '@/controllers/UserController';
-import { authenticateToken, optionalAuth } from '@/middleware/auth';
+import { UploadController } from '@/controllers/UploadController';
+import { SessionController } from '@/controllers/SessionController';
+import { AccountSecurityController } from '@/controllers/AccountSecurityController';
+import { AchievementController } from '@/controllers/AchievementController';
+import { authenticateToken, optionalAuth, requirePermission } from '@/middleware/auth';
 import { validateRequest, validateQuery, validateParams } from '@/middleware/validation';
 import { userSchemas } from '@/middleware/validation';
 import { generalLimiter, authLimiter } from '@/middleware/rateLimiter';
+import { uploadImage } from '@/middleware/upload';
+import Joi from 'joi';
 
 const router = Router();
 const userController = new UserController();
+const uploadController = new UploadController();
+const sessionController = new SessionController();
+const accountSecurityController = new AccountSecurityController();
+const achievementController = new AchievementController();
 
 // Apply rate limiting to all routes
 router.use(generalLimiter);
@@ -33,6 +43,52 @@ router.get(
   userController.getCurrentUser
 );
 
+// GET /api/users/me/security - Get password policy, last password change, last login, lockout state and active session count
+router.get(
+  '/me/security',
+  authenticateToken,
+  accountSecurityController.getSecuritySettings
+);
+
+// PUT /api/users/me/password - Change password; signs out every other session
+router.put(
+  '/me/password',
+  authenticateToken,
+  authLimiter,
+  validateRequest(userSchemas.changePassword),
+  accountSecurityController.changePassword
+);
+
+// GET /api/users/me/login-history - List the current user's login attempts; ?success=false for failures only
+router.get(
+  '/me/login-history',
+  authenticateToken,
+  validateQuery(userSchemas.loginHistoryQuery),
+  accountSecurityController.getMyLoginHistory
+);
+
+// GET /api/users/me/sessions - List the current user's active sessions (device, IP, last seen)
+router.get(
+  '/me/sessions',
+  authenticateToken,
+  sessionController.getSessions
+);
+
+// DELETE /api/users/me/sessions - Revoke all sessions; ?keep_current=true keeps this one
+router.delete(
+  '/me/sessions',
+  authenticateToken,
+  sessionController.revokeAllSessions
+);
+
+// DELETE /api/users/me/sessions/:sessionId - Revoke one session
+router.delete(
+  '/me/sessions/:sessionId',
+  authenticateToken,
+  validateParams(Joi.object({ sessionId: Joi.string().required() })),
+  sessionController.revokeSession
+);
+
 // GET /api/users/:id - Get specific user
 router.get(
   '/:id',
@@ -49,6 +105,22 @@ router.get(
   userController.getUserStats
 );
 
+// GET /api/users/:id/reputation - Get trust score, tier and unlocked privileges
+router.get(
+  '/:id/reputation',
+  optionalAuth,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  userController.getUserReputation
+);
+
+// GET /api/users/:id/achievements - Get every achievement with whether and when the user earned it
+router.get(
+  '/:id/achievements',
+  optionalAuth,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  achievementController.getUserAchievements
+);
+
 // POST /api/users - Create new user (register)
 router.post(
   '/',
@@ -65,7 +137,22 @@ router.post(
   userController.login
 );
 
-// POST /api/users/logout - User logout
+// POST /api/users/refresh - Exchange a refresh token for a new access and refresh token
+router.post(
+  '/refresh',
+  validateRequest(userSchemas.refresh),
+  sessionController.refresh
+);
+
+// POST /api/users/reset-password - Set a new password with an admin-issued reset code
+router.post(
+  '/reset-password',
+  authLimiter,
+  validateRequest(userSchemas.resetPassword),
+  accountSecurityController.resetPassword
+);
+
+// POST /api/users/logout - User logout (revokes the current session)
 router.post(
   '/logout',
   authenticateToken,
@@ -81,6 +168,51 @@ router.put(
   userController.updateUser
 );
 
+// POST /api/users/:id/avatar - Upload an avatar as multipart field "avatar" (self or admin)
+router.post(
+  '/:id/avatar',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  uploadImage('avatar'),
+  uploadController.uploadAvatar
+);
+
+// DELETE /api/users/:id/avatar - Remove the avatar (self or admin)
+router.delete(
+  '/:id/avatar',
+  authenticateToken,
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  uploadController.deleteAvatar
+);
+
+// POST /api/users/:id/reset-code - Issue a one-time password reset code for the user (admin)
+router.post(
+  '/:id/reset-code',
+  authenticateToken,
+  requirePermission('users:manage'),
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  accountSecurityController.issueResetCode
+);
+
+// GET /api/users/:id/login-history - List a user's login attempts (admin)
+router.get(
+  '/:id/login-history',
+  authenticateToken,
+  requirePermission('users:manage'),
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  validateQuery(userSchemas.loginHistoryQuery),
+  accountSecurityController.getUserLoginHistory
+);
+
+// POST /api/users/:id/unlock - Lift a login lockout and clear the failed-login count (admin)
+router.post(
+  '/:id/unlock',
+  authenticateToken,
+  requirePermission('users:manage'),
+  validateParams(Joi.object({ id: Joi.string().required() })),
+  accountSecurityController.unlockAccount
+);
+
 // DELETE /api/users/:id - Delete user (authenticated)
 router.delete(
   '/:id',
@@ -0,0 +1,368 @@
+import bcrypt from 'bcryptjs';
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  User,
+  PasswordResetCode,
+  IssuedResetCode,
+  AccountSecuritySettings,
+  ChangePasswordRequest,
+  ResetPasswordRequest,
+  LoginAttempt,
+  LoginAttemptQueryParams,
+  LoginFailureReason,
+  SessionContext,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { PasswordUtils } from '@/utils/password';
+import { LoginGuardUtils } from '@/utils/loginGuard';
+import { ValidationUtils } from '@/utils/validation';
+import { RoleService } from './RoleService';
+import { SessionService } from './SessionService';
+
+/**
+ * Password changes and the admin-issued reset codes that replace the email
+ * reset flow (users have no email address). Changing or resetting a password
+ * signs the account out of its other sessions.
+ */
+export class AccountSecurityService {
+  private pb: SupabaseClientWrapper;
+  private roleService: RoleService;
+  private sessionService: SessionService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.roleService = new RoleService();
+    this.sessionService = new SessionService();
+  }
+
+  async getSecuritySettings(userId: string): Promise<ApiResponse<AccountSecuritySettings>> {
+    try {
+      const user = await this.loadUser(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      const sessions = await this.pb.getUserSessions({
+        filter: { user_id: userId, revoked_at: { $is: null }, expires_at: { '>': new Date().toISOString() } },
+        perPage: 1
+      });
+      const pendingCode = (await this.getPendingResetCodes(userId))[0];
+
+      const settings: AccountSecuritySettings = {
+        password_policy: PasswordUtils.getPolicy(),
+        active_sessions: sessions.totalItems,
+        failed_login_attempts: LoginGuardUtils.getActiveFailures(user)
+      };
+      if (user.password_changed_at) settings.password_changed_at = user.password_changed_at;
+      if (pendingCode) settings.reset_code_expires_at = pendingCode.expires_at;
+      if (user.last_login) settings.last_login = user.last_login;
+      if (user.locked_until && LoginGuardUtils.isLocked(user)) settings.locked_until = user.locked_until;
+
+      return {
+        success: true,
+        data: settings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch security settings'
+      };
+    }
+  }
+
+  /**
+   * Change the password of the logged-in user. The session making the request
+   * stays signed in; every other session is revoked.
+   */
+  async changePassword(userId: string, data: ChangePasswordRequest, currentSessionId?: string): Promise<ApiResponse<boolean>> {
+    try {
+      const user = await this.loadUser(userId);
+      if (!user || !user.password) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      if (!(await bcrypt.compare(data.current_password, user.password))) {
+        return {
+          success: false,
+          error: 'Current password is incorrect'
+        };
+      }
+
+      if (data.new_password === data.current_password) {
+        return {
+          success: false,
+          error: 'New password must be different from the current password'
+        };
+      }
+
+      const validation = PasswordUtils.validatePassword(data.new_password, user.username);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.errors.join(', ')
+        };
+      }
+
+      await this.setPassword(user, data.new_password, currentSessionId);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Password changed successfully, other sessions have been signed out'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to change password'
+      };
+    }
+  }
+
+  /**
+   * Issue a one-time reset code for a user who lost their password. The code is
+   * returned once, for the admin to pass on; earlier unused codes stop working.
+   */
+  async issueResetCode(targetId: string, userId: string): Promise<ApiResponse<IssuedResetCode>> {
+    try {
+      if (!(await this.roleService.hasPermission(userId, 'users:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to issue reset codes'
+        };
+      }
+
+      const user = await this.loadUser(targetId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      const now = new Date().toISOString();
+      for (const pending of await this.getPendingResetCodes(targetId)) {
+        await this.pb.updatePasswordResetCode(pending.id, { revoked_at: now });
+      }
+
+      const code = PasswordUtils.generateResetCode();
+      const expiresAt = moment().add(config.password.resetCodeMinutes, 'minutes').toISOString();
+      await this.pb.createPasswordResetCode({
+        user_id: targetId,
+        code_hash: PasswordUtils.hashResetCode(code),
+        issued_by: userId,
+        expires_at: expiresAt
+      });
+
+      return {
+        success: true,
+        data: { code, expires_at: expiresAt },
+        message: 'Reset code issued successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to issue reset code'
+      };
+    }
+  }
+
+  /**
+   * Set a new password with a reset code. Needs no login, so every failure
+   * gives the same answer and reveals nothing about the account.
+   */
+  async resetPassword(data: ResetPasswordRequest): Promise<ApiResponse<boolean>> {
+    try {
+      const invalid: ApiResponse<boolean> = {
+        success: false,
+        error: 'Invalid or expired reset code'
+      };
+
+      const users = await this.pb.getUsers({
+        filter: { username: data.username },
+        perPage: 1
+      });
+      const user: User | undefined = users.items[0];
+      if (!user) return invalid;
+
+      const codeHash = PasswordUtils.hashResetCode(data.code);
+      const resetCode = (await this.getPendingResetCodes(user.id)).find(pending => pending.code_hash === codeHash);
+      if (!resetCode) return invalid;
+
+      const validation = PasswordUtils.validatePassword(data.new_password, user.username);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.errors.join(', ')
+        };
+      }
+
+      // Another request may have used the same code in the meantime
+      const claimed = await this.pb.markPasswordResetCodeUsed(resetCode.id, new Date().toISOString());
+      if (!claimed) return invalid;
+
+      await this.setPassword(user, data.new_password);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Password reset successfully, please log in with the new password'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to reset password'
+      };
+    }
+  }
+
+  /**
+   * Clear a lockout and the failed-login streak behind it
+   */
+  async unlockAccount(targetId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      if (!(await this.roleService.hasPermission(userId, 'users:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to unlock accounts'
+        };
+      }
+
+      const user = await this.loadUser(targetId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      await this.pb.updateUser(targetId, LoginGuardUtils.cleared());
+
+      return {
+        success: true,
+        data: true,
+        message: 'Account unlocked successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to unlock account'
+      };
+    }
+  }
+
+  /**
+   * Login history of a user, visible to the user themselves and to admins
+   */
+  async getLoginHistory(targetId: string, userId: string, queryParams: LoginAttemptQueryParams): Promise<ApiResponse<LoginAttempt[]>> {
+    try {
+      const { page = 1, limit = 50, success } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      if (targetId !== userId && !(await this.roleService.hasPermission(userId, 'users:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to view this login history'
+        };
+      }
+
+      const filter: any = { user_id: targetId };
+      if (success !== undefined) filter.success = success;
+
+      const result = await this.pb.getLoginAttempts({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-created'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch login history'
+      };
+    }
+  }
+
+  /**
+   * Add a login attempt to the history. Never fails the login itself.
+   */
+  async recordLoginAttempt(
+    username: string,
+    userId: string | null,
+    context: SessionContext,
+    failureReason: LoginFailureReason | null
+  ): Promise<void> {
+    await this.pb.createLoginAttempt({
+      user_id: userId,
+      username: username.substring(0, 50),
+      success: failureReason === null,
+      failure_reason: failureReason,
+      ip: context.ip || null,
+      user_agent: context.user_agent?.substring(0, 500) || null
+    }).catch(error => console.error(`Failed to record login attempt for ${username}:`, error));
+  }
+
+  private async setPassword(user: User, password: string, keepSessionId?: string): Promise<void> {
+    await this.pb.updateUser(user.id, {
+      password: await bcrypt.hash(password, 10),
+      password_changed_at: new Date().toISOString()
+    });
+
+    const revoked = await this.sessionService.revokeAllSessions(user.id, 'password_change', keepSessionId);
+    if (!revoked.success) {
+      throw new Error(`Failed to revoke sessions of user ${user.id}`);
+    }
+  }
+
+  private async getPendingResetCodes(userId: string): Promise<PasswordResetCode[]> {
+    const result = await this.pb.getPasswordResetCodes({
+      filter: {
+        user_id: userId,
+        used_at: { $is: null },
+        revoked_at: { $is: null },
+        expires_at: { '>': new Date().toISOString() }
+      },
+      sort: '-created',
+      perPage: 10
+    });
+    return result.items;
+  }
+
+  private async loadUser(userId: string): Promise<User | null> {
+    try {
+      return await this.pb.getUser(userId);
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Boss,
+  BossDifficulty,
+  SpawnEvent,
+  UserStats,
+  SpawnAttendance,
+  UserAchievement,
+  UserAchievementStatus,
+  AchievementDefinition,
+  AchievementTrigger,
+  NotificationEvent,
+  ApiResponse
+} from '@/types';
+import { AchievementUtils } from '@/utils/achievements';
+import { VerificationUtils } from '@/utils/verification';
+import { NotificationService } from './NotificationService';
+
+/**
+ * Awards achievements for verified spawns: reports and kills only count once
+ * the spawn is verified, and a kill is taken back if its spawn loses the
+ * verification. The counters the rules need are kept in the user's stats next
+ * to the report counts, and every award is announced as an 'achievement'
+ * notification.
+ */
+export class AchievementService {
+  private pb: SupabaseClientWrapper;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.notificationService = new NotificationService();
+  }
+
+  getCatalog(): ApiResponse<AchievementDefinition[]> {
+    return {
+      success: true,
+      data: AchievementUtils.getCatalog()
+    };
+  }
+
+  /**
+   * Every achievement with whether (and when) the user earned it
+   */
+  async getUserAchievements(userId: string): Promise<ApiResponse<UserAchievementStatus[]>> {
+    try {
+      try {
+        await this.pb.getUser(userId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      const result = await this.pb.getUserAchievements({
+        filter: { user_id: userId },
+        perPage: 100
+      });
+      const awards = new Map((result.items as UserAchievement[]).map(award => [award.achievement, award]));
+
+      const achievements = AchievementUtils.getCatalog().map(definition => {
+        const award = awards.get(definition.id);
+        const status: UserAchievementStatus = { ...definition, earned: !!award };
+        if (award) {
+          status.awarded_at = award.awarded_at;
+          status.spawn_event_id = award.spawn_event_id ?? null;
+        }
+        return status;
+      });
+
+      return {
+        success: true,
+        data: achievements
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch achievements'
+      };
+    }
+  }
+
+  /**
+   * A spawn event was created or its verification changed. Becoming verified
+   * counts the report (on the day it was made) and any kill already recorded;
+   * losing the verification takes the kill back.
+   */
+  async recordStatusChange(previous: SpawnEvent | null, next: SpawnEvent): Promise<void> {
+    const wasVerified = !!previous && VerificationUtils.getStatus(previous) === 'verified';
+    const isVerified = VerificationUtils.getStatus(next) === 'verified';
+
+    if (!wasVerified && isVerified) {
+      // The streak counts the day the report was made, even when it is verified later
+      const reportDay = moment(next.created).utc().format('YYYY-MM-DD');
+      await this.progress(next.reported_by, ['spawn', 'verify'], next, userId =>
+        this.pb.recordUserReportDay(userId, reportDay)
+      );
+      if (next.kill_time) await this.creditKill(next, null, 1);
+    } else if (wasVerified && !isVerified && previous?.kill_time) {
+      await this.creditKill(previous, null, -1);
+    }
+  }
+
+  /**
+   * A kill was recorded; it counts right away on verified spawns, otherwise once the spawn is verified
+   */
+  async recordKill(spawnEvent: SpawnEvent, boss: Boss): Promise<void> {
+    if (VerificationUtils.getStatus(spawnEvent) !== 'verified') return;
+    await this.creditKill(spawnEvent, boss, 1);
+  }
+
+  /**
+   * Who a spawn event's kill is credited to, empty when it earned no credit. Load
+   * it before deleting the event (its attendance goes with it) and pass it to
+   * recordDeletion afterwards.
+   */
+  async loadKillCredit(spawnEvent: SpawnEvent): Promise<string[]> {
+    if (!spawnEvent.kill_time || VerificationUtils.getStatus(spawnEvent) !== 'verified') return [];
+    return this.loadCreditedUsers(spawnEvent);
+  }
+
+  /**
+   * A spawn event was deleted: take back its kill from the users loadKillCredit
+   * returned. The report counts go with the reporter's reputation stats.
+   */
+  async recordDeletion(spawnEvent: SpawnEvent, creditedUserIds: string[]): Promise<void> {
+    if (creditedUserIds.length === 0) return;
+    await this.creditKill(spawnEvent, null, -1, creditedUserIds);
+  }
+
+  /**
+   * Credit (or take back) a kill for whoever reported it and the attendees that are registered users
+   */
+  private async creditKill(spawnEvent: SpawnEvent, knownBoss: Boss | null, delta: 1 | -1, userIds?: string[]): Promise<void> {
+    let boss: Boss;
+    try {
+      boss = knownBoss || await this.pb.getBoss(spawnEvent.boss_id);
+    } catch (error) {
+      console.error(`Failed to load the boss of spawn event ${spawnEvent.id}:`, error);
+      return;
+    }
+
+    const legendary = boss.difficulty === BossDifficulty.LEGENDARY;
+    for (const userId of userIds || await this.loadCreditedUsers(spawnEvent)) {
+      await this.progress(userId, delta > 0 ? ['kill'] : [], spawnEvent, id =>
+        this.pb.incrementUserStats(id, AchievementUtils.killIncrements(legendary, delta))
+      );
+    }
+  }
+
+  private async loadCreditedUsers(spawnEvent: SpawnEvent): Promise<string[]> {
+    const userIds = new Set<string>();
+    if (spawnEvent.kill_reported_by) userIds.add(spawnEvent.kill_reported_by);
+
+    try {
+      const attendance = await this.pb.getSpawnAttendanceRecords({
+        filter: { spawn_event_id: spawnEvent.id },
+        perPage: 1000
+      });
+      (attendance.items as SpawnAttendance[]).forEach(row => {
+        if (row.member_id) userIds.add(row.member_id);
+      });
+    } catch (error) {
+      console.error(`Failed to load the attendance of spawn event ${spawnEvent.id}:`, error);
+    }
+
+    return Array.from(userIds);
+  }
+
+  /**
+   * Update the user's counters, then award and announce whatever the activity
+   * completed. Both happen atomically in the database so concurrent activity
+   * neither loses counts nor awards an achievement twice. Failures are logged;
+   * they never fail the activity itself.
+   */
+  private async progress(
+    userId: string,
+    triggers: AchievementTrigger[],
+    spawnEvent: SpawnEvent,
+    update: (userId: string) => Promise<UserStats | null>
+  ): Promise<void> {
+    // System-generated events have no user behind them
+    if (!userId || userId === 'system') return;
+
+    try {
+      const stats = await update(userId);
+      if (!stats) return;
+
+      const earned = AchievementUtils.getNewlyEarned(stats, triggers);
+      if (earned.length === 0) return;
+
+      const added = new Set(await this.pb.addUserAchievements(userId, earned.map(definition => definition.id)));
+
+      const awardedAt = new Date().toISOString();
+      for (const definition of earned.filter(candidate => added.has(candidate.id))) {
+        await this.pb.createUserAchievement({
+          user_id: userId,
+          achievement: definition.id,
+          awarded_at: awardedAt,
+          spawn_event_id: spawnEvent.id,
+          boss_id: spawnEvent.boss_id
+        });
+        await this.announce(userId, definition, spawnEvent, awardedAt);
+      }
+    } catch (error) {
+      console.error(`Failed to update achievements for user ${userId}:`, error);
+    }
+  }
+
+  private async announce(userId: string, definition: AchievementDefinition, spawnEvent: SpawnEvent, awardedAt: string): Promise<void> {
+    const notification: NotificationEvent = await this.pb.createNotification({
+      user_id: userId,
+      boss_id: spawnEvent.boss_id,
+      type: 'achievement',
+      message: `Achievement unlocked: ${definition.name} - ${definition.description}`,
+      scheduled_for: awardedAt,
+      sent: false,
+      attempts: 0,
+      next_attempt_at: awardedAt
+    });
+
+    // Delivered right away; if that fails the notification dispatcher retries it
+    await this.notificationService.deliver(notification);
+  }
+}
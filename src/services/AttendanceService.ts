@@ -0,0 +1,530 @@
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  Guild,
+  User,
+  SpawnEvent,
+  SpawnAttendance,
+  AttendanceCheckRequest,
+  MemberAttendance,
+  MemberAttendanceEvent,
+  MemberAttendanceQueryParams,
+  ApiResponse
+} from '@/types';
+import { ContributionRosterEntry } from '@/utils/contribution';
+import { VerificationUtils } from '@/utils/verification';
+import { ContributionService } from './ContributionService';
+import { GuildService } from './GuildService';
+
+// Range of the attendance history when no start is given, and the longest range served
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 365;
+
+// Spawn event ids / usernames per `in` filter
+const LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Who was at which spawn event. Attendance rows are the record that scoring,
+ * achievements and leaderboards read; the spawn event's participants list
+ * mirrors them so the spawn API keeps returning names.
+ */
+export class AttendanceService {
+  private pb: SupabaseClientWrapper;
+  private contributionService: ContributionService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.contributionService = new ContributionService();
+  }
+
+  async getSpawnAttendance(spawnEventId: string): Promise<ApiResponse<SpawnAttendance[]>> {
+    try {
+      try {
+        await this.pb.getSpawnEvent(spawnEventId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.loadAttendance([spawnEventId])
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch attendance'
+      };
+    }
+  }
+
+  /**
+   * Bring the attendance rows in line with the event's participants. With
+   * keepExisting members already recorded stay, so a kill report adds to the
+   * check-ins; otherwise the participants replace them. Returns the event with
+   * its participants set to everyone attending.
+   */
+  async syncParticipants(spawnEvent: SpawnEvent, userId: string, keepExisting: boolean): Promise<SpawnEvent> {
+    try {
+      const rows = await this.loadAttendance([spawnEvent.id]);
+      const listed = Array.from(new Set(spawnEvent.participants || []));
+      const recorded = new Set(rows.map(row => row.member_name));
+
+      if (!keepExisting) {
+        for (const row of rows.filter(row => !listed.includes(row.member_name))) {
+          await this.pb.deleteSpawnAttendanceRecord(row.id);
+        }
+      }
+
+      const missing = listed.filter(name => !recorded.has(name));
+      const userIds = await this.resolveUserIds(missing);
+      for (const name of missing) {
+        await this.pb.createSpawnAttendanceRecord({
+          spawn_event_id: spawnEvent.id,
+          member_name: name,
+          member_id: userIds.get(name),
+          source: 'reported',
+          recorded_by: userId
+        });
+      }
+
+      const attendees = keepExisting
+        ? [...listed, ...rows.map(row => row.member_name).filter(name => !listed.includes(name))]
+        : listed;
+      const current = spawnEvent.participants || [];
+      if (attendees.length === current.length && attendees.every(name => current.includes(name))) {
+        return spawnEvent;
+      }
+
+      return await this.pb.updateSpawnEvent(spawnEvent.id, { participants: attendees });
+    } catch (error) {
+      // Log error but don't fail the spawn event change
+      console.error(`Failed to sync attendance of spawn event ${spawnEvent.id}:`, error);
+      return spawnEvent;
+    }
+  }
+
+  /**
+   * Check a member in while the boss is up: from the spawn time until
+   * config.attendance.checkInWindowMinutes later. Members check themselves in
+   * to verified spawns; guild leaders and officers can check in anyone on
+   * their guild's roster, also while the report is still pending.
+   */
+  async checkIn(spawnEventId: string, data: AttendanceCheckRequest, userId: string): Promise<ApiResponse<SpawnAttendance>> {
+    try {
+      let spawnEvent: SpawnEvent;
+      try {
+        spawnEvent = await this.pb.getSpawnEvent(spawnEventId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      if (spawnEvent.verification_status === 'rejected') {
+        return {
+          success: false,
+          error: 'Cannot check in to a rejected spawn report'
+        };
+      }
+
+      if (spawnEvent.kill_time) {
+        return {
+          success: false,
+          error: 'Check-in closes once the kill is recorded'
+        };
+      }
+
+      const now = moment();
+      const spawnTime = moment(spawnEvent.spawn_time);
+      if (now.isBefore(spawnTime) || now.isAfter(spawnTime.clone().add(config.attendance.checkInWindowMinutes, 'minutes'))) {
+        return {
+          success: false,
+          error: 'Check-in is only open while the boss is up'
+        };
+      }
+
+      const memberResult = await this.resolveMember(data, userId, 'check in');
+      if (!memberResult.success || !memberResult.data) {
+        return {
+          success: false,
+          error: memberResult.error || 'Guild member not found'
+        };
+      }
+      const member = memberResult.data;
+
+      // Officers vouch for the members they check in; everyone else needs a confirmed spawn
+      const verified = VerificationUtils.getStatus(spawnEvent) === 'verified';
+      if (member.member_id === userId && !verified) {
+        return {
+          success: false,
+          error: 'Check-in opens once the spawn report is verified'
+        };
+      }
+
+      const existing = await this.findAttendance(spawnEventId, member.member_id);
+      if (existing?.checked_in_at && !existing.checked_out_at) {
+        return {
+          success: false,
+          error: 'Already checked in'
+        };
+      }
+
+      const previous = await this.contributionService.loadAttendedEvent(spawnEvent);
+      const checkInData = {
+        source: 'check_in',
+        checked_in_at: now.toISOString(),
+        checked_out_at: null,
+        recorded_by: userId
+      };
+      const attendance: SpawnAttendance = existing
+        ? await this.pb.updateSpawnAttendanceRecord(existing.id, checkInData)
+        : await this.pb.createSpawnAttendanceRecord({
+          spawn_event_id: spawnEventId,
+          member_name: member.member_name,
+          member_id: member.member_id,
+          ...checkInData
+        });
+
+      if (!existing && !(spawnEvent.participants || []).includes(member.member_name)) {
+        const updatedEvent: SpawnEvent = await this.pb.updateSpawnEvent(spawnEventId, {
+          participants: [...(spawnEvent.participants || []), member.member_name]
+        });
+        await this.contributionService.recordSpawnEventChange(previous, updatedEvent);
+      }
+
+      return {
+        success: true,
+        data: attendance,
+        message: 'Checked in successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to check in'
+      };
+    }
+  }
+
+  /**
+   * Check a member out again; they stay on the event's attendance
+   */
+  async checkOut(spawnEventId: string, data: AttendanceCheckRequest, userId: string): Promise<ApiResponse<SpawnAttendance>> {
+    try {
+      try {
+        await this.pb.getSpawnEvent(spawnEventId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      const memberResult = await this.resolveMember(data, userId, 'check out');
+      if (!memberResult.success || !memberResult.data) {
+        return {
+          success: false,
+          error: memberResult.error || 'Guild member not found'
+        };
+      }
+
+      const existing = await this.findAttendance(spawnEventId, memberResult.data.member_id);
+      if (!existing?.checked_in_at || existing.checked_out_at) {
+        return {
+          success: false,
+          error: 'Not checked in'
+        };
+      }
+
+      const attendance: SpawnAttendance = await this.pb.updateSpawnAttendanceRecord(existing.id, {
+        checked_out_at: new Date().toISOString()
+      });
+
+      return {
+        success: true,
+        data: attendance,
+        message: 'Checked out successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to check out'
+      };
+    }
+  }
+
+  /**
+   * The guild events in the range the member attended and missed, for members
+   * of the guild. Events from before the member's contribution record was
+   * created do not count as missed.
+   */
+  async getMemberAttendance(
+    guildId: string,
+    memberId: string,
+    queryParams: MemberAttendanceQueryParams,
+    userId: string
+  ): Promise<ApiResponse<MemberAttendance>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.getRole(guild, userId)) {
+        return {
+          success: false,
+          error: 'Only guild members can view attendance history'
+        };
+      }
+
+      const to = queryParams.to ? moment(queryParams.to) : moment();
+      const from = queryParams.from ? moment(queryParams.from) : to.clone().subtract(DEFAULT_RANGE_DAYS, 'days');
+      if (from.isAfter(to)) {
+        return {
+          success: false,
+          error: 'The start of the range must be before its end'
+        };
+      }
+
+      if (to.diff(from, 'days', true) > MAX_RANGE_DAYS) {
+        return {
+          success: false,
+          error: `The range can span at most ${MAX_RANGE_DAYS} days`
+        };
+      }
+
+      const roster = await this.contributionService.loadRoster(guild);
+      const member = roster.find(entry => entry.member_id === memberId);
+      if (!member) {
+        return {
+          success: false,
+          error: 'Guild member not found'
+        };
+      }
+
+      const spawnEvents = await this.loadGuildSpawnEvents(guildId, roster, from, to);
+      const rowsByEvent = new Map<string, SpawnAttendance[]>();
+      for (const row of await this.loadAttendance(spawnEvents.map(event => event.id))) {
+        rowsByEvent.set(row.spawn_event_id, [...(rowsByEvent.get(row.spawn_event_id) || []), row]);
+      }
+
+      const rosterNames = new Set(roster.map(entry => entry.member_name));
+      const rosterIds = new Set(roster.map(entry => entry.member_id).filter(Boolean));
+      const isRosterRow = (row: SpawnAttendance) => rosterNames.has(row.member_name) || (!!row.member_id && rosterIds.has(row.member_id));
+      const isMemberRow = (row: SpawnAttendance) => row.member_id === memberId;
+
+      const events: MemberAttendanceEvent[] = [];
+      for (const event of spawnEvents) {
+        const rows = rowsByEvent.get(event.id) || [];
+        if (event.killed_by_guild !== guildId && !rows.some(isRosterRow)) continue;
+
+        const own = rows.find(isMemberRow);
+        if (!own && member.since && moment(member.since).isAfter(event.spawn_time)) continue;
+
+        const attendanceEvent: MemberAttendanceEvent = {
+          spawn_event_id: event.id,
+          boss_id: event.boss_id,
+          server: event.server,
+          spawn_time: event.spawn_time,
+          attended: !!own
+        };
+        if (event.kill_time) attendanceEvent.kill_time = event.kill_time;
+        if (own?.checked_in_at) attendanceEvent.checked_in_at = own.checked_in_at;
+        if (own?.checked_out_at) attendanceEvent.checked_out_at = own.checked_out_at;
+        events.push(attendanceEvent);
+      }
+
+      const attended = events.filter(event => event.attended).length;
+      const attendance: MemberAttendance = {
+        guild_id: guildId,
+        member_name: member.member_name,
+        member_id: memberId,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        total_events: events.length,
+        attended,
+        missed: events.length - attended,
+        attendance_rate: events.length > 0 ? Math.round((attended / events.length) * 10000) / 100 : 0,
+        events
+      };
+      return {
+        success: true,
+        data: attendance
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch attendance history'
+      };
+    }
+  }
+
+  /**
+   * The member a check-in or check-out is for: the caller, or a registered
+   * roster member of a guild the caller manages attendance for
+   */
+  private async resolveMember(
+    data: AttendanceCheckRequest,
+    userId: string,
+    action: string
+  ): Promise<ApiResponse<ContributionRosterEntry & { member_id: string }>> {
+    if (!data.member_id || data.member_id === userId) {
+      const user: User = await this.pb.getUser(userId);
+      return {
+        success: true,
+        data: { member_name: user.username, member_id: user.id }
+      };
+    }
+
+    if (!data.guild_id) {
+      return {
+        success: false,
+        error: `A guild is required to ${action} another member`
+      };
+    }
+
+    const guild = await this.loadGuild(data.guild_id);
+    if (!guild) {
+      return {
+        success: false,
+        error: 'Guild not found'
+      };
+    }
+
+    if (!GuildService.hasPermission(guild, userId, 'guild:manage_attendance')) {
+      return {
+        success: false,
+        error: `Only the guild leader and officers can ${action} other members`
+      };
+    }
+
+    const roster = await this.contributionService.loadRoster(guild);
+    const member = roster.find(entry => entry.member_id === data.member_id);
+    if (!member) {
+      return {
+        success: false,
+        error: 'Guild member not found'
+      };
+    }
+
+    return {
+      success: true,
+      data: { ...member, member_id: data.member_id }
+    };
+  }
+
+  private async findAttendance(spawnEventId: string, memberId: string): Promise<SpawnAttendance | null> {
+    const result = await this.pb.getSpawnAttendanceRecords({
+      filter: { spawn_event_id: spawnEventId, member_id: memberId },
+      perPage: 1
+    });
+    return result.items[0] || null;
+  }
+
+  private async loadAttendance(spawnEventIds: string[]): Promise<SpawnAttendance[]> {
+    const rows: SpawnAttendance[] = [];
+    for (let i = 0; i < spawnEventIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = spawnEventIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const result = await this.pb.getSpawnAttendanceRecords({
+          page,
+          perPage: 1000,
+          filter: { spawn_event_id: chunk },
+          sort: 'created'
+        });
+        rows.push(...result.items);
+        totalPages = result.totalPages;
+        page++;
+      } while (page <= totalPages);
+    }
+    return rows;
+  }
+
+  /**
+   * The guild's spawn events in the range, newest first: the ones it killed
+   * and the ones its roster has attendance on. Attendance is recorded at or
+   * after the spawn, so rows created before the range are skipped.
+   */
+  private async loadGuildSpawnEvents(
+    guildId: string,
+    roster: ContributionRosterEntry[],
+    from: moment.Moment,
+    to: moment.Moment
+  ): Promise<SpawnEvent[]> {
+    const spawnEvents = new Map<string, SpawnEvent>();
+    const attendedIds = new Set<string>();
+
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const result = await this.pb.getSpawnEvents({
+        page,
+        perPage: 1000,
+        filter: { killed_by_guild: guildId, spawn_time: { '>=': from.toISOString() } }
+      });
+      (result.items as SpawnEvent[]).forEach(event => spawnEvents.set(event.id, event));
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    const lookups: { [key: string]: string[] } = {
+      member_id: roster.map(entry => entry.member_id).filter((id): id is string => !!id),
+      member_name: roster.map(entry => entry.member_name)
+    };
+    for (const [field, values] of Object.entries(lookups)) {
+      for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+        let rowPage = 1;
+        let rowPages = 1;
+        do {
+          const result = await this.pb.getSpawnAttendanceRecords({
+            page: rowPage,
+            perPage: 1000,
+            filter: { [field]: values.slice(i, i + LOOKUP_CHUNK_SIZE), created: { '>=': from.toISOString() } }
+          });
+          (result.items as SpawnAttendance[]).forEach(row => attendedIds.add(row.spawn_event_id));
+          rowPages = result.totalPages;
+          rowPage++;
+        } while (rowPage <= rowPages);
+      }
+    }
+
+    const missingIds = Array.from(attendedIds).filter(id => !spawnEvents.has(id));
+    for (let i = 0; i < missingIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = missingIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const result = await this.pb.getSpawnEvents({ filter: { id: chunk }, perPage: chunk.length });
+      (result.items as SpawnEvent[]).forEach(event => spawnEvents.set(event.id, event));
+    }
+
+    return Array.from(spawnEvents.values())
+      .filter(event => !moment(event.spawn_time).isBefore(from) && !moment(event.spawn_time).isAfter(to))
+      .sort((a, b) => moment(b.spawn_time).valueOf() - moment(a.spawn_time).valueOf());
+  }
+
+  private async resolveUserIds(usernames: string[]): Promise<Map<string, string>> {
+    const userIds = new Map<string, string>();
+    for (let i = 0; i < usernames.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = usernames.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const result = await this.pb.getUsers({ filter: { username: chunk }, perPage: chunk.length });
+      (result.items as User[]).forEach(user => userIds.set(user.username, user.id));
+    }
+    return userIds;
+  }
+
+  private async loadGuild(guildId: string): Promise<Guild | null> {
+    try {
+      return await this.pb.getGuild(guildId);
+    } catch (error) {
+      return null;
+    }
+  }
+}
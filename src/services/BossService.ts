@@ -1,13 +1,21 @@
 import SupabaseClientWrapper from '@/models/SupabaseClient';
-import { Boss, CreateBossRequest, UpdateBossRequest, BossQueryParams, ApiResponse, PaginationInfo } from '@/types';
+import config from '@/config';
+import { Boss, BossSchedule, GameServer, SpawnEvent, CreateBossRequest, UpdateBossRequest, BossQueryParams, ApiResponse, PaginationInfo } from '@/types';
 import { TimerUtils } from '@/utils/timer';
 import { ValidationUtils } from '@/utils/validation';
+import { SchedulerService } from './SchedulerService';
+import { ReputationService } from './ReputationService';
+import { RoleService } from './RoleService';
 
 export class BossService {
   private pb: SupabaseClientWrapper;
+  private reputationService: ReputationService;
+  private roleService: RoleService;
 
   constructor() {
     this.pb = SupabaseClientWrapper.getInstance();
+    this.reputationService = new ReputationService();
+    this.roleService = new RoleService();
   }
 
   async getBosses(queryParams: BossQueryParams): Promise<ApiResponse<Boss[]>> {
@@ -93,6 +101,22 @@ export class BossService {
 
   async createBoss(data: CreateBossRequest, userId: string): Promise<ApiResponse<Boss>> {
     try {
+      if (data.schedule) {
+        data = { ...data, schedule: await this.withServerTimezone(data.schedule, data.server) };
+      }
+
+      // Fixed-schedule bosses get their average gap between spawns as respawn_time
+      if (data.schedule_type === 'fixed' && data.schedule && data.respawn_time === undefined) {
+        const scheduleErrors = ValidationUtils.validateBossSchedule(data.schedule);
+        if (scheduleErrors.length > 0) {
+          return {
+            success: false,
+            error: scheduleErrors.join(', ')
+          };
+        }
+        data = { ...data, respawn_time: TimerUtils.getScheduleInterval(data.schedule) };
+      }
+
       const validation = ValidationUtils.validateBossData(data);
       if (!validation.isValid) {
         return {
@@ -101,7 +125,7 @@ export class BossService {
         };
       }
 
-      const bossData = {
+      const bossData: any = {
         ...data,
         created_by: userId,
         verified: false,
@@ -109,8 +133,13 @@ export class BossService {
         location: ValidationUtils.sanitizeString(data.location),
         description: data.description ? ValidationUtils.sanitizeString(data.description) : undefined
       };
+      if (TimerUtils.isFixedSchedule(bossData)) {
+        bossData.next_spawn = TimerUtils.calculateNextSpawn(bossData);
+      }
 
       const boss = await this.pb.createBoss(bossData);
+      if (boss.next_spawn) SchedulerService.getInstance().trackBoss(boss);
+
       return {
         success: true,
         data: boss,
@@ -143,8 +172,8 @@ export class BossService {
         };
       }
 
-      // Check if user has permission to update (creator or admin)
-      if (existingBoss.created_by !== userId && existingBoss.role !== 'admin') {
+      // Check if user has permission to update (creator, moderator or a reporter trusted with boss edits)
+      if (existingBoss.created_by !== userId && !(await this.reputationService.hasPrivilege(userId, 'edit_bosses'))) {
         return {
           success: false,
           error: 'Insufficient permissions to update this boss'
@@ -158,6 +187,17 @@ export class BossService {
       if (data.description) updateData.description = ValidationUtils.sanitizeString(data.description);
       if (data.level !== undefined) updateData.level = data.level;
       if (data.respawn_time !== undefined) updateData.respawn_time = data.respawn_time;
+      if (data.schedule_type) updateData.schedule_type = data.schedule_type;
+      if (data.schedule) {
+        updateData.schedule = await this.withServerTimezone(data.schedule, data.server || existingBoss.server);
+      } else if (data.schedule !== undefined) {
+        updateData.schedule = data.schedule;
+      }
+      if (data.respawn_variance !== undefined) updateData.respawn_variance = data.respawn_variance;
+      if (data.respawn_window_min !== undefined) updateData.respawn_window_min = data.respawn_window_min;
+      if (data.respawn_window_max !== undefined) updateData.respawn_window_max = data.respawn_window_max;
+      if (data.respawn_anchor) updateData.respawn_anchor = data.respawn_anchor;
+      if (data.post_maintenance_rule !== undefined) updateData.post_maintenance_rule = data.post_maintenance_rule;
       if (data.server) updateData.server = data.server;
       if (data.difficulty) updateData.difficulty = data.difficulty;
       if (data.tags) updateData.tags = data.tags;
@@ -165,7 +205,32 @@ export class BossService {
       if (data.requirements) updateData.requirements = data.requirements;
       if (data.verified !== undefined) updateData.verified = data.verified;
 
+      const updatedBoss: Boss = { ...existingBoss, ...updateData };
+      const timingError = this.validateTiming(updatedBoss);
+      if (timingError) {
+        return {
+          success: false,
+          error: timingError
+        };
+      }
+
+      // A changed respawn setting or schedule moves the pending timer too
+      const timingChanged = ['respawn_time', 'respawn_variance', 'respawn_window_min', 'respawn_window_max', 'respawn_anchor', 'schedule_type', 'schedule']
+        .some(field => updateData[field] !== undefined);
+      if (timingChanged && (existingBoss.last_spawn || TimerUtils.isFixedSchedule(updatedBoss))) {
+        const spawnEvents = await this.pb.getSpawnEvents({
+          filter: { boss_id: id },
+          sort: '-spawn_time',
+          perPage: 1
+        });
+        updateData.next_spawn = TimerUtils.calculateNextSpawn(updatedBoss, spawnEvents.items[0]);
+      } else if (timingChanged && TimerUtils.isFixedSchedule(existingBoss)) {
+        // Back to a respawn timer without any known spawn: nothing to count down from
+        updateData.next_spawn = null;
+      }
+
       const boss = await this.pb.updateBoss(id, updateData);
+      SchedulerService.getInstance().trackBoss(boss);
       return {
         success: true,
         data: boss,
@@ -197,7 +262,7 @@ export class BossService {
       }
 
       // Check if user has permission to delete (creator or admin)
-      if (existingBoss.created_by !== userId && existingBoss.role !== 'admin') {
+      if (existingBoss.created_by !== userId && !(await this.roleService.hasPermission(userId, 'bosses:delete_any'))) {
         return {
           success: false,
           error: 'Insufficient permissions to delete this boss'
@@ -205,6 +270,7 @@ export class BossService {
       }
 
       await this.pb.deleteBoss(id);
+      SchedulerService.getInstance().untrackBoss(id);
       return {
         success: true,
         data: true,
@@ -245,6 +311,10 @@ export class BossService {
       const lastSpawnEvent = spawnEvents.items[0];
       const timer = TimerUtils.getRespawnTimer(boss, lastSpawnEvent);
 
+      const history = await this.getPredictionHistory(boss);
+      const [prediction] = TimerUtils.predictSpawnWindows(boss, history, 1, config.prediction.minSamples);
+      if (prediction) timer.prediction = prediction;
+
       return {
         success: true,
         data: timer
@@ -280,14 +350,24 @@ export class BossService {
         sort: '-spawn_time'
       });
 
+      const history = await this.getPredictionHistory(boss);
+      const intervalModel = TimerUtils.buildIntervalModel(boss, history, config.prediction.minSamples);
+      const predictions = TimerUtils.predictSpawnWindows(boss, history, 3, config.prediction.minSamples);
+
       const stats = {
         total_spawns: spawnEvents.totalItems,
-        accuracy: TimerUtils.calculateSpawnAccuracy(boss, spawnEvents.items),
+        accuracy: TimerUtils.calculateSpawnAccuracy(boss, history),
         last_spawn: boss.last_spawn,
         next_spawn: boss.next_spawn,
-        average_respawn_time: boss.respawn_time,
-        spawn_predictions: TimerUtils.predictSpawnTimes(boss, spawnEvents.items, 3),
-        spawn_windows: TimerUtils.getSpawnWindows(boss, spawnEvents.items)
+        average_respawn_time: intervalModel.mean,
+        interval_model: intervalModel,
+        predictions,
+        spawn_predictions: predictions.map(prediction => prediction.expected),
+        spawn_windows: predictions.map(prediction => ({
+          start: prediction.window_start,
+          end: prediction.window_end,
+          confidence: prediction.confidence
+        }))
       };
 
       return {
@@ -390,4 +470,49 @@ export class BossService {
       };
     }
   }
+
+  /**
+   * Schedules without their own timezone run on the server's timezone
+   */
+  private async withServerTimezone(schedule: BossSchedule, serverName: string): Promise<BossSchedule> {
+    if (schedule.timezone) return schedule;
+
+    const servers = await this.pb.getGameServers({ filter: { name: serverName }, perPage: 1 });
+    const server: GameServer | undefined = servers.items[0];
+    return { ...schedule, timezone: server?.timezone || 'UTC' };
+  }
+
+  private validateTiming(boss: Boss): string | null {
+    const hasMin = boss.respawn_window_min != null;
+    const hasMax = boss.respawn_window_max != null;
+
+    if (hasMin !== hasMax) return 'Respawn window needs both a minimum and a maximum';
+    if (hasMin && hasMax && (boss.respawn_window_min as number) > (boss.respawn_window_max as number)) {
+      return 'Respawn window minimum cannot be greater than its maximum';
+    }
+    if ((boss.respawn_variance || 0) >= boss.respawn_time) {
+      return 'Respawn variance must be shorter than the respawn time';
+    }
+    if (boss.schedule_type === 'fixed' && !boss.schedule) {
+      return 'Fixed-schedule bosses need a schedule';
+    }
+    if (boss.schedule) {
+      const scheduleErrors = ValidationUtils.validateBossSchedule(boss.schedule);
+      if (scheduleErrors.length > 0) return scheduleErrors.join(', ');
+    }
+
+    return null;
+  }
+
+  /**
+   * Latest verified spawns of the boss on its own server, the input for the prediction model
+   */
+  private async getPredictionHistory(boss: Boss): Promise<SpawnEvent[]> {
+    const result = await this.pb.getSpawnEvents({
+      filter: { boss_id: boss.id, server: boss.server, verified: true },
+      sort: '-spawn_time',
+      perPage: config.prediction.historySize
+    });
+    return result.items;
+  }
 }
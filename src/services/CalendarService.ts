@@ -0,0 +1,330 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  Boss,
+  CalendarEvent,
+  CalendarFeed,
+  CreateCalendarFeedRequest,
+  Guild,
+  SpawnEvent,
+  User,
+  ApiResponse
+} from '@/types';
+import { ICalUtils } from '@/utils/ical';
+import { TimerUtils } from '@/utils/timer';
+import { GuildService } from './GuildService';
+import { ServerService } from './ServerService';
+
+export class CalendarService {
+  // Rendered feeds by token, so calendar apps polling every few minutes don't rebuild them each time.
+  // Least recently used first; holds at most config.calendar.cacheSize feeds.
+  private static feedCache: Map<string, { body: string; expires: number }> = new Map();
+
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  /**
+   * Drop expired feeds, then the least recently used ones until there is room
+   */
+  private static cacheFeed(token: string, body: string): void {
+    const now = Date.now();
+    CalendarService.feedCache.delete(token);
+
+    for (const [cachedToken, cached] of CalendarService.feedCache) {
+      if (cached.expires <= now) CalendarService.feedCache.delete(cachedToken);
+    }
+    while (CalendarService.feedCache.size >= Math.max(config.calendar.cacheSize, 1)) {
+      const oldest = CalendarService.feedCache.keys().next().value as string;
+      CalendarService.feedCache.delete(oldest);
+    }
+
+    CalendarService.feedCache.set(token, { body, expires: now + config.calendar.cacheSeconds * 1000 });
+  }
+
+  async getFeeds(userId: string): Promise<ApiResponse<CalendarFeed[]>> {
+    try {
+      const result = await this.pb.getCalendarFeeds({
+        filter: { user_id: userId },
+        sort: 'created',
+        perPage: 100
+      });
+
+      return {
+        success: true,
+        data: result.items.map((feed: CalendarFeed) => this.withUrl(feed))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch calendar feeds'
+      };
+    }
+  }
+
+  /**
+   * Issue a feed URL for the user's favorites, one of their guilds or a server.
+   * Asking again for the same feed returns the existing URL.
+   */
+  async createFeed(data: CreateCalendarFeedRequest, userId: string): Promise<ApiResponse<CalendarFeed>> {
+    try {
+      let target = userId;
+
+      if (data.scope === 'guild') {
+        const guild = await this.loadGuild(data.guild_id || '');
+        if (!guild) {
+          return {
+            success: false,
+            error: 'Guild not found'
+          };
+        }
+
+        if (!GuildService.getRole(guild, userId)) {
+          return {
+            success: false,
+            error: 'Only guild members can subscribe to the guild calendar'
+          };
+        }
+        target = guild.id;
+      } else if (data.scope === 'server') {
+        if (!data.server || !(await ServerService.serverExists(data.server))) {
+          return {
+            success: false,
+            error: 'Server not found'
+          };
+        }
+        target = data.server;
+      }
+
+      const existing = await this.pb.getCalendarFeeds({
+        filter: { user_id: userId, scope: data.scope, target },
+        perPage: 1
+      });
+      if (existing.items[0]) {
+        return {
+          success: true,
+          data: this.withUrl(existing.items[0]),
+          message: 'Calendar feed already exists'
+        };
+      }
+
+      const feed = await this.pb.createCalendarFeed({
+        user_id: userId,
+        scope: data.scope,
+        target,
+        token: ICalUtils.generateToken()
+      });
+
+      return {
+        success: true,
+        data: this.withUrl(feed),
+        message: 'Calendar feed created successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to create calendar feed'
+      };
+    }
+  }
+
+  /**
+   * Revoking a feed invalidates its URL; create a new one to get a fresh token
+   */
+  async deleteFeed(id: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      let feed: CalendarFeed;
+      try {
+        feed = await this.pb.getCalendarFeed(id);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Calendar feed not found'
+        };
+      }
+
+      if (!feed || feed.user_id !== userId) {
+        return {
+          success: false,
+          error: 'Calendar feed not found'
+        };
+      }
+
+      await this.pb.deleteCalendarFeed(id);
+      CalendarService.feedCache.delete(feed.token);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Calendar feed revoked successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to revoke calendar feed'
+      };
+    }
+  }
+
+  /**
+   * Render the iCalendar body for a feed token. Needs no login: the token is
+   * the credential, and access is re-checked against the feed owner each time.
+   */
+  async renderFeed(token: string): Promise<ApiResponse<string>> {
+    try {
+      const cached = CalendarService.feedCache.get(token);
+      if (cached && cached.expires > Date.now()) {
+        CalendarService.feedCache.delete(token);
+        CalendarService.feedCache.set(token, cached);
+        return {
+          success: true,
+          data: cached.body
+        };
+      }
+
+      const result = await this.pb.getCalendarFeeds({
+        filter: { token },
+        perPage: 1
+      });
+      const feed: CalendarFeed | undefined = result.items[0];
+      if (!feed) {
+        return {
+          success: false,
+          error: 'Calendar feed not found'
+        };
+      }
+
+      const source = await this.loadFeedSource(feed);
+      if (!source) {
+        return {
+          success: false,
+          error: 'Calendar feed is no longer available'
+        };
+      }
+
+      const events: CalendarEvent[] = [];
+      for (const boss of source.bosses) {
+        events.push(...(await this.buildBossEvents(boss)));
+      }
+      events.sort((a, b) => a.start.localeCompare(b.start));
+
+      const body = ICalUtils.buildCalendar(source.name, events);
+      CalendarService.cacheFeed(token, body);
+
+      return {
+        success: true,
+        data: body
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to render calendar feed'
+      };
+    }
+  }
+
+  /**
+   * Upcoming predicted spawns of a boss; windows that already closed are left out
+   */
+  private async buildBossEvents(boss: Boss): Promise<CalendarEvent[]> {
+    const history = TimerUtils.isFixedSchedule(boss) ? [] : await this.getPredictionHistory(boss);
+    const now = new Date().toISOString();
+
+    return TimerUtils.predictSpawnWindows(boss, history, config.calendar.spawnsPerBoss, config.prediction.minSamples)
+      .filter(prediction => new Date(prediction.window_end).toISOString() >= now)
+      .map(prediction => ICalUtils.predictionToEvent(boss, prediction));
+  }
+
+  private async loadFeedSource(feed: CalendarFeed): Promise<{ name: string; bosses: Boss[] } | null> {
+    if (feed.scope === 'user') {
+      const user = await this.loadUser(feed.user_id);
+      if (!user) return null;
+
+      return {
+        name: `${user.username}'s boss spawns`,
+        bosses: await this.loadBossesById(user.favorite_bosses || [])
+      };
+    }
+
+    if (feed.scope === 'guild') {
+      const guild = await this.loadGuild(feed.target);
+      if (!guild || !guild.boss_tracking_enabled || !GuildService.getRole(guild, feed.user_id)) return null;
+
+      // The guild tracks every boss one of its members has marked as a favorite
+      const members = await this.pb.getUsers({
+        filter: { id: guild.members },
+        perPage: Math.max(guild.members.length, 1)
+      });
+      const bossIds = new Set<string>();
+      members.items.forEach((member: User) => (member.favorite_bosses || []).forEach(bossId => bossIds.add(bossId)));
+
+      return {
+        name: `${guild.name} boss spawns`,
+        bosses: await this.loadBossesById(Array.from(bossIds))
+      };
+    }
+
+    if (!(await ServerService.serverExists(feed.target))) return null;
+
+    return {
+      name: `${feed.target} boss spawns`,
+      bosses: await this.loadServerBosses(feed.target)
+    };
+  }
+
+  private async loadBossesById(bossIds: string[]): Promise<Boss[]> {
+    if (bossIds.length === 0) return [];
+
+    const result = await this.pb.getBosses({
+      filter: { id: bossIds },
+      perPage: bossIds.length
+    });
+    return result.items;
+  }
+
+  private async loadServerBosses(server: string): Promise<Boss[]> {
+    const bosses: Boss[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getBosses({ page, perPage: 500, filter: { server }, sort: 'created' });
+      bosses.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return bosses;
+  }
+
+  private async getPredictionHistory(boss: Boss): Promise<SpawnEvent[]> {
+    const result = await this.pb.getSpawnEvents({
+      filter: { boss_id: boss.id, server: boss.server, verified: true },
+      sort: '-spawn_time',
+      perPage: config.prediction.historySize
+    });
+    return result.items;
+  }
+
+  private async loadUser(userId: string): Promise<User | null> {
+    try {
+      return await this.pb.getUser(userId);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async loadGuild(guildId: string): Promise<Guild | null> {
+    try {
+      return await this.pb.getGuild(guildId);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private withUrl(feed: CalendarFeed): CalendarFeed {
+    return { ...feed, url: `${config.calendar.publicUrl.replace(/\/$/, '')}/api/calendar/${feed.token}.ics` };
+  }
+}
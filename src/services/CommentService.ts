@@ -0,0 +1,468 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Comment,
+  CommentThread,
+  CommentQueryParams,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { ValidationUtils } from '@/utils/validation';
+import { RoleService } from './RoleService';
+
+// Replies can be nested this many levels below a top-level comment
+const MAX_REPLY_DEPTH = 5;
+const DELETED_CONTENT = '[deleted]';
+
+export class CommentService {
+  private pb: SupabaseClientWrapper;
+  private roleService: RoleService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.roleService = new RoleService();
+  }
+
+  /**
+   * Get a page of top-level comments for a boss, each with its full reply tree
+   */
+  async getComments(bossId: string, queryParams: CommentQueryParams, userId?: string): Promise<ApiResponse<CommentThread[]>> {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        sort_by = 'created',
+        sort_order = 'desc'
+      } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const sortValidation = ValidationUtils.validateSortParams(sort_by, sort_order, ['created', 'likes']);
+      if (!sortValidation.isValid) {
+        return {
+          success: false,
+          error: sortValidation.errors.join(', ')
+        };
+      }
+
+      const result = await this.pb.getComments({
+        page,
+        perPage: limit,
+        filter: { boss_id: bossId, parent_id: { $is: null } },
+        sort: `${sort_order === 'desc' ? '-' : ''}${sort_by}`
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: await this.buildThreads(result.items, userId),
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch comments'
+      };
+    }
+  }
+
+  async getComment(bossId: string, commentId: string, userId?: string): Promise<ApiResponse<CommentThread>> {
+    try {
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      const [thread] = await this.buildThreads([comment], userId);
+
+      return {
+        success: true,
+        data: thread as CommentThread
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Comment not found'
+      };
+    }
+  }
+
+  async createComment(bossId: string, data: CreateCommentRequest, userId: string): Promise<ApiResponse<Comment>> {
+    try {
+      const content = ValidationUtils.sanitizeString(data.content || '');
+      if (content.length === 0) {
+        return {
+          success: false,
+          error: 'Comment content is required'
+        };
+      }
+
+      try {
+        await this.pb.getBoss(bossId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Boss not found'
+        };
+      }
+
+      let parent: Comment | null = null;
+      if (data.parent_id) {
+        parent = await this.loadComment(bossId, data.parent_id);
+        if (!parent) {
+          return {
+            success: false,
+            error: 'Parent comment not found'
+          };
+        }
+
+        if (parent.is_deleted) {
+          return {
+            success: false,
+            error: 'Cannot reply to a deleted comment'
+          };
+        }
+
+        if (await this.getDepth(parent) >= MAX_REPLY_DEPTH) {
+          return {
+            success: false,
+            error: `Replies cannot be nested more than ${MAX_REPLY_DEPTH} levels deep`
+          };
+        }
+      }
+
+      const commentData: any = {
+        boss_id: bossId,
+        user_id: userId,
+        content,
+        likes: 0,
+        replies: [],
+        is_deleted: false
+      };
+      if (parent) commentData.parent_id = parent.id;
+
+      const comment = await this.pb.createComment(commentData);
+
+      if (parent) {
+        await this.pb.updateComment(parent.id, {
+          replies: [...(parent.replies || []), comment.id]
+        });
+      }
+
+      return {
+        success: true,
+        data: comment,
+        message: parent ? 'Reply posted successfully' : 'Comment posted successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to post comment'
+      };
+    }
+  }
+
+  async updateComment(bossId: string, commentId: string, data: UpdateCommentRequest, userId: string): Promise<ApiResponse<Comment>> {
+    try {
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      if (comment.user_id !== userId) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to edit this comment'
+        };
+      }
+
+      if (comment.is_deleted) {
+        return {
+          success: false,
+          error: 'Deleted comments cannot be edited'
+        };
+      }
+
+      const content = ValidationUtils.sanitizeString(data.content || '');
+      if (content.length === 0) {
+        return {
+          success: false,
+          error: 'Comment content is required'
+        };
+      }
+
+      const updatedComment = await this.pb.updateComment(commentId, {
+        content,
+        edited_at: new Date().toISOString()
+      });
+
+      return {
+        success: true,
+        data: updatedComment,
+        message: 'Comment updated successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update comment'
+      };
+    }
+  }
+
+  /**
+   * Soft delete: the comment stays in place so its replies keep their thread,
+   * but its content is no longer returned. Authors and moderators can delete.
+   */
+  async deleteComment(bossId: string, commentId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      if (comment.user_id !== userId && !(await this.roleService.hasPermission(userId, 'comments:moderate'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to delete this comment'
+        };
+      }
+
+      if (comment.is_deleted) {
+        return {
+          success: false,
+          error: 'Comment is already deleted'
+        };
+      }
+
+      await this.pb.updateComment(commentId, {
+        is_deleted: true,
+        deleted_by: userId,
+        deleted_at: new Date().toISOString()
+      });
+
+      return {
+        success: true,
+        data: true,
+        message: 'Comment deleted successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to delete comment'
+      };
+    }
+  }
+
+  /**
+   * Moderation: undo a soft delete
+   */
+  async restoreComment(bossId: string, commentId: string, userId: string): Promise<ApiResponse<Comment>> {
+    try {
+      if (!(await this.roleService.hasPermission(userId, 'comments:moderate'))) {
+        return {
+          success: false,
+          error: 'Moderator access required'
+        };
+      }
+
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      if (!comment.is_deleted) {
+        return {
+          success: false,
+          error: 'Comment is not deleted'
+        };
+      }
+
+      const restoredComment = await this.pb.updateComment(commentId, {
+        is_deleted: false,
+        deleted_by: null,
+        deleted_at: null
+      });
+
+      return {
+        success: true,
+        data: restoredComment,
+        message: 'Comment restored successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to restore comment'
+      };
+    }
+  }
+
+  /**
+   * Like a comment once per user. The (comment_id, user_id) unique constraint
+   * rejects duplicates, and the counter is always recounted from comment_likes.
+   */
+  async likeComment(bossId: string, commentId: string, userId: string): Promise<ApiResponse<{ likes: number; liked_by_user: boolean }>> {
+    try {
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment || comment.is_deleted) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      try {
+        await this.pb.createCommentLike({ comment_id: commentId, user_id: userId });
+      } catch (error: any) {
+        // 23505 = unique_violation: the user already liked this comment
+        if (error?.code !== '23505') throw error;
+      }
+
+      const likes = await this.syncLikeCount(commentId);
+
+      return {
+        success: true,
+        data: { likes, liked_by_user: true }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to like comment'
+      };
+    }
+  }
+
+  async unlikeComment(bossId: string, commentId: string, userId: string): Promise<ApiResponse<{ likes: number; liked_by_user: boolean }>> {
+    try {
+      const comment = await this.loadComment(bossId, commentId);
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found'
+        };
+      }
+
+      const existing = await this.pb.getCommentLikes({
+        filter: { comment_id: commentId, user_id: userId },
+        perPage: 1
+      });
+
+      if (existing.items.length > 0) {
+        await this.pb.deleteCommentLike(existing.items[0].id);
+      }
+
+      const likes = await this.syncLikeCount(commentId);
+
+      return {
+        success: true,
+        data: { likes, liked_by_user: false }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to unlike comment'
+      };
+    }
+  }
+
+  private async syncLikeCount(commentId: string): Promise<number> {
+    const result = await this.pb.getCommentLikes({
+      filter: { comment_id: commentId },
+      perPage: 1
+    });
+
+    await this.pb.updateComment(commentId, { likes: result.totalItems });
+    return result.totalItems;
+  }
+
+  /**
+   * Load every reply below the given comments (one query per level) and nest them
+   */
+  private async buildThreads(roots: Comment[], userId?: string): Promise<CommentThread[]> {
+    const all: Comment[] = [...roots];
+    let parentIds = roots.map(comment => comment.id);
+
+    for (let depth = 0; depth < MAX_REPLY_DEPTH && parentIds.length > 0; depth++) {
+      const replies = await this.pb.getComments({
+        filter: { parent_id: { $in: parentIds } },
+        sort: 'created',
+        perPage: 1000
+      });
+      all.push(...replies.items);
+      parentIds = replies.items.map((comment: Comment) => comment.id);
+    }
+
+    const likedIds = new Set<string>();
+    if (userId && all.length > 0) {
+      const likes = await this.pb.getCommentLikes({
+        filter: { user_id: userId, comment_id: { $in: all.map(comment => comment.id) } },
+        perPage: all.length
+      });
+      likes.items.forEach((like: any) => likedIds.add(like.comment_id));
+    }
+
+    const threads = new Map<string, CommentThread>();
+    for (const comment of all) {
+      threads.set(comment.id, {
+        ...comment,
+        content: comment.is_deleted ? DELETED_CONTENT : comment.content,
+        liked_by_user: likedIds.has(comment.id),
+        children: []
+      });
+    }
+
+    for (const thread of threads.values()) {
+      if (!thread.parent_id) continue;
+      threads.get(thread.parent_id)?.children.push(thread);
+    }
+
+    return roots.map(comment => threads.get(comment.id) as CommentThread);
+  }
+
+  private async getDepth(comment: Comment): Promise<number> {
+    let depth = 0;
+    let current = comment;
+
+    while (current.parent_id && depth <= MAX_REPLY_DEPTH) {
+      current = await this.pb.getComment(current.parent_id);
+      depth++;
+    }
+
+    return depth;
+  }
+
+  private async loadComment(bossId: string, commentId: string): Promise<Comment | null> {
+    try {
+      const comment: Comment = await this.pb.getComment(commentId);
+      return comment.boss_id === bossId ? comment : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,446 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Boss,
+  Guild,
+  SpawnEvent,
+  GuildMemberContribution,
+  ContributionLedgerEntry,
+  ContributionLedgerEntryType,
+  ContributionBalance,
+  LootAward,
+  AdjustContributionRequest,
+  DecayContributionsRequest,
+  CreateLootAwardRequest,
+  ContributionLedgerQueryParams,
+  LootAwardQueryParams,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { ValidationUtils } from '@/utils/validation';
+import { ContributionUtils } from '@/utils/contribution';
+import { GuildService } from './GuildService';
+
+export type NewLedgerEntry = Omit<ContributionLedgerEntry, 'id' | 'created' | 'balance_after'>;
+
+/**
+ * DKP-style points ledger. Every change to a member's points is an appended
+ * entry; the member's contribution_score is the sum of their entries and is
+ * only ever written by the database function that appends them.
+ */
+export class ContributionLedgerService {
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  /**
+   * Append an entry. The database computes the balance from the previous entry
+   * and stores it as the member's score in the same transaction, creating their
+   * contribution record if needed. eventDate marks an event they took part in.
+   * With requireBalance an entry that would take the balance below zero is
+   * refused (the error carries the hint 'insufficient_points').
+   */
+  async appendEntry(entry: NewLedgerEntry, eventDate?: string, requireBalance: boolean = false): Promise<ContributionLedgerEntry> {
+    return this.pb.appendContributionLedgerEntry({
+      ...entry,
+      member_name: ValidationUtils.sanitizeString(entry.member_name),
+      points: ContributionUtils.roundPoints(entry.points)
+    }, requireBalance, eventDate);
+  }
+
+  /**
+   * Sum of the member's entries, optionally of one type only
+   */
+  async sumEntries(guildId: string, memberName: string, entryType?: ContributionLedgerEntryType): Promise<number> {
+    const entries = await this.loadEntries(guildId, memberName);
+    return ContributionUtils.roundPoints(
+      entries
+        .filter(entry => !entryType || entry.entry_type === entryType)
+        .reduce((total, entry) => total + Number(entry.points), 0)
+    );
+  }
+
+  async getBalance(guildId: string, memberName: string): Promise<ApiResponse<ContributionBalance>> {
+    try {
+      const contribution = await this.findContribution(guildId, memberName);
+      if (!contribution) {
+        return {
+          success: false,
+          error: 'Guild member contribution not found'
+        };
+      }
+
+      const totals: Record<ContributionLedgerEntryType, number> = { earn: 0, spend: 0, adjust: 0, decay: 0 };
+      for (const entry of await this.loadEntries(guildId, memberName)) {
+        totals[entry.entry_type] += Number(entry.points);
+      }
+
+      const balance: ContributionBalance = {
+        guild_id: guildId,
+        member_name: contribution.member_name,
+        balance: ContributionUtils.roundPoints(totals.earn + totals.spend + totals.adjust + totals.decay),
+        earned: ContributionUtils.roundPoints(totals.earn),
+        spent: ContributionUtils.roundPoints(-totals.spend),
+        adjusted: ContributionUtils.roundPoints(totals.adjust),
+        decayed: ContributionUtils.roundPoints(-totals.decay)
+      };
+      if (contribution.member_id) balance.member_id = contribution.member_id;
+      if (contribution.last_event_date) balance.last_event_date = contribution.last_event_date;
+
+      return {
+        success: true,
+        data: balance
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch points balance'
+      };
+    }
+  }
+
+  async getLedger(guildId: string, queryParams: ContributionLedgerQueryParams): Promise<ApiResponse<ContributionLedgerEntry[]>> {
+    try {
+      const { page = 1, limit = 50, member_name, entry_type } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = { guild_id: guildId };
+      if (member_name) filter.member_name = member_name;
+      if (entry_type) filter.entry_type = entry_type;
+
+      const result = await this.pb.getContributionLedgerEntries({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-created'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch points ledger'
+      };
+    }
+  }
+
+  async adjustPoints(guildId: string, data: AdjustContributionRequest, userId: string): Promise<ApiResponse<ContributionLedgerEntry>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_points')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can adjust points'
+        };
+      }
+
+      const contribution = await this.findContribution(guildId, data.member_name);
+      if (!contribution) {
+        return {
+          success: false,
+          error: 'Guild member contribution not found'
+        };
+      }
+
+      const entry = await this.appendEntry({
+        guild_id: guildId,
+        member_name: contribution.member_name,
+        entry_type: 'adjust',
+        points: data.points,
+        reason: ValidationUtils.sanitizeString(data.reason),
+        created_by: userId
+      });
+
+      return {
+        success: true,
+        data: entry,
+        message: 'Points adjusted successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to adjust points'
+      };
+    }
+  }
+
+  /**
+   * Take a percentage off every positive balance in the guild
+   */
+  async decayBalances(guildId: string, data: DecayContributionsRequest, userId: string): Promise<ApiResponse<ContributionLedgerEntry[]>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_points')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can decay points'
+        };
+      }
+
+      const contributions = await this.pb.getGuildMemberContributions({
+        filter: { guild_id: guildId, contribution_score: { '>': 0 } },
+        perPage: 1000
+      });
+
+      const entries: ContributionLedgerEntry[] = [];
+      for (const contribution of contributions.items as GuildMemberContribution[]) {
+        const points = -ContributionUtils.roundPoints((Number(contribution.contribution_score) * data.percent) / 100);
+        if (points === 0) continue;
+
+        entries.push(await this.appendEntry({
+          guild_id: guildId,
+          member_name: contribution.member_name,
+          entry_type: 'decay',
+          points,
+          reason: data.reason ? ValidationUtils.sanitizeString(data.reason) : `${data.percent}% decay`,
+          created_by: userId
+        }));
+      }
+
+      return {
+        success: true,
+        data: entries,
+        message: `Points decayed for ${entries.length} members`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to decay points'
+      };
+    }
+  }
+
+  /**
+   * Give a drop of a killed boss to a member, who pays for it with points
+   */
+  async awardLoot(guildId: string, data: CreateLootAwardRequest, userId: string): Promise<ApiResponse<LootAward>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_points')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can award loot'
+        };
+      }
+
+      let spawnEvent: SpawnEvent;
+      try {
+        spawnEvent = await this.pb.getSpawnEvent(data.spawn_event_id);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      if (!spawnEvent.kill_time) {
+        return {
+          success: false,
+          error: 'Loot can only be awarded for a killed boss'
+        };
+      }
+
+      if (spawnEvent.killed_by_guild && spawnEvent.killed_by_guild !== guildId) {
+        return {
+          success: false,
+          error: 'This kill is credited to another guild'
+        };
+      }
+
+      const boss: Boss = await this.pb.getBoss(spawnEvent.boss_id);
+      if (!(boss.drops || []).includes(data.item)) {
+        return {
+          success: false,
+          error: 'The boss does not drop this item'
+        };
+      }
+
+      const contribution = await this.findContribution(guildId, data.member_name);
+      if (!contribution) {
+        return {
+          success: false,
+          error: 'Guild member contribution not found'
+        };
+      }
+
+      // Each drop of a kill goes to one member; the unique (spawn_event_id, item) settles races
+      let award: LootAward;
+      try {
+        award = await this.pb.createLootAward({
+          guild_id: guildId,
+          spawn_event_id: spawnEvent.id,
+          boss_id: boss.id,
+          item: data.item,
+          member_name: contribution.member_name,
+          member_id: contribution.member_id,
+          points: data.points,
+          awarded_by: userId,
+          notes: data.notes ? ValidationUtils.sanitizeString(data.notes) : undefined
+        });
+      } catch (error: any) {
+        if (error?.code !== '23505') throw error;
+        return {
+          success: false,
+          error: 'This drop has already been awarded'
+        };
+      }
+
+      if (data.points > 0) {
+        try {
+          await this.appendEntry({
+            guild_id: guildId,
+            member_name: contribution.member_name,
+            entry_type: 'spend',
+            points: -data.points,
+            spawn_event_id: spawnEvent.id,
+            loot_award_id: award.id,
+            reason: `${data.item} from ${boss.name}`,
+            created_by: userId
+          }, undefined, true);
+        } catch (error: any) {
+          // The award only stands once it is paid for
+          await this.pb.deleteLootAward(award.id);
+          if (error?.hint !== 'insufficient_points') throw error;
+          return {
+            success: false,
+            error: error.message
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: award,
+        message: 'Loot awarded successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to award loot'
+      };
+    }
+  }
+
+  async getLootAwards(guildId: string, queryParams: LootAwardQueryParams): Promise<ApiResponse<LootAward[]>> {
+    try {
+      const { page = 1, limit = 50, spawn_event_id, member_name } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = { guild_id: guildId };
+      if (spawn_event_id) filter.spawn_event_id = spawn_event_id;
+      if (member_name) filter.member_name = member_name;
+
+      const result = await this.pb.getLootAwards({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-created'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch loot awards'
+      };
+    }
+  }
+
+  private async findContribution(guildId: string, memberName: string): Promise<GuildMemberContribution | null> {
+    const result = await this.pb.getGuildMemberContributions({
+      filter: { guild_id: guildId, member_name: memberName },
+      perPage: 1
+    });
+    return result.items[0] || null;
+  }
+
+  private async loadEntries(guildId: string, memberName: string): Promise<ContributionLedgerEntry[]> {
+    const entries: ContributionLedgerEntry[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getContributionLedgerEntries({
+        page,
+        perPage: 1000,
+        filter: { guild_id: guildId, member_name: memberName },
+        sort: 'created'
+      });
+      entries.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return entries;
+  }
+
+  private async loadGuild(guildId: string): Promise<Guild | null> {
+    try {
+      return await this.pb.getGuild(guildId);
+    } catch (error) {
+      return null;
+    }
+  }
+}
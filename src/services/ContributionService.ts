@@ -1,6 +1,13 @@
 import SupabaseClientWrapper from '@/models/SupabaseClient';
 import {
+  Boss,
+  Guild,
+  User,
+  SpawnEvent,
+  SpawnAttendance,
   GuildMemberContribution,
+  ContributionRules,
+  UpdateContributionRulesRequest,
   CreateGuildMemberContributionRequest,
   UpdateGuildMemberContributionRequest,
   GuildMemberContributionQueryParams,
@@ -8,12 +15,17 @@ import {
   PaginationInfo
 } from '@/types';
 import { ValidationUtils } from '@/utils/validation';
+import { ContributionUtils, ContributionRosterEntry, AttendedSpawnEvent } from '@/utils/contribution';
+import { GuildService } from './GuildService';
+import { ContributionLedgerService, NewLedgerEntry } from './ContributionLedgerService';
 
 export class ContributionService {
   private pb: SupabaseClientWrapper;
+  private ledgerService: ContributionLedgerService;
 
   constructor() {
     this.pb = SupabaseClientWrapper.getInstance();
+    this.ledgerService = new ContributionLedgerService();
   }
 
   async getGuildMemberContributions(
@@ -152,11 +164,12 @@ export class ContributionService {
         };
       }
 
+      // A member that was removed and added back keeps the points on their ledger
       const contributionData = {
         guild_id: data.guild_id,
         member_name: ValidationUtils.sanitizeString(data.member_name),
         member_id: data.member_id || undefined,
-        contribution_score: 0,
+        contribution_score: await this.ledgerService.sumEntries(data.guild_id, data.member_name),
         last_event_date: undefined
       };
 
@@ -204,15 +217,47 @@ export class ContributionService {
         };
       }
 
-      const updateData: any = {};
-      if (data.member_name) {
-        updateData.member_name = ValidationUtils.sanitizeString(data.member_name);
+      const memberName = data.member_name ? ValidationUtils.sanitizeString(data.member_name) : undefined;
+      if (memberName && memberName !== existingContribution.member_name) {
+        // The ledger is keyed by member name
+        const history = await this.pb.getContributionLedgerEntries({
+          filter: { guild_id: guild.id, member_name: existingContribution.member_name },
+          perPage: 1
+        });
+        if (history.totalItems > 0) {
+          return {
+            success: false,
+            error: 'Members with a points history cannot be renamed'
+          };
+        }
       }
+
       if (data.contribution_score !== undefined) {
-        updateData.contribution_score = data.contribution_score;
+        if (!GuildService.hasPermission(guild, userId, 'guild:manage_points')) {
+          return {
+            success: false,
+            error: 'Only the guild leader and officers can change contribution scores'
+          };
+        }
+
+        // The score is derived from the ledger, so setting it records the difference
+        const balance = await this.ledgerService.sumEntries(guild.id, existingContribution.member_name);
+        const difference = ContributionUtils.roundPoints(data.contribution_score - balance);
+        if (difference !== 0) {
+          await this.ledgerService.appendEntry({
+            guild_id: guild.id,
+            member_name: existingContribution.member_name,
+            entry_type: 'adjust',
+            points: difference,
+            reason: 'Score set manually',
+            created_by: userId
+          });
+        }
       }
 
-      const contribution = await this.pb.updateGuildMemberContribution(id, updateData);
+      const contribution = memberName
+        ? await this.pb.updateGuildMemberContribution(id, { member_name: memberName })
+        : await this.pb.getGuildMemberContribution(id);
       return {
         success: true,
         data: contribution,
@@ -261,93 +306,175 @@ export class ContributionService {
   }
 
   /**
-   * Increment contribution score for a member when they join an event
+   * Replay every spawn event under the guild's current rules and record the
+   * difference with each roster member's earned points as an 'earn' entry.
+   * Spending, adjustments and decay are left as they are.
    */
-  async incrementContribution(
-    guildId: string,
-    memberName: string,
-    memberId?: string,
-    eventDate?: string
-  ): Promise<ApiResponse<GuildMemberContribution>> {
+  async recalculateGuildContributions(guildId: string, userId: string): Promise<ApiResponse<boolean>> {
     try {
-      if (!guildId || !memberName) {
+      if (!guildId) {
         return {
           success: false,
-          error: 'Guild ID and member name are required'
+          error: 'Guild ID is required'
         };
       }
 
-      // Find existing contribution or create new one
-      const existingContributions = await this.pb.getGuildMemberContributions({
-        filter: {
-          guild_id: guildId,
-          member_name: memberName
-        },
-        perPage: 1
-      });
-
-      let contribution: GuildMemberContribution;
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
 
-      if (existingContributions.items.length > 0) {
-        // Update existing contribution
-        const existing = existingContributions.items[0];
-        const updatedData: any = {
-          contribution_score: (existing.contribution_score || 0) + 1
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_settings')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can recalculate contributions'
         };
-        
-        if (eventDate) {
-          updatedData.last_event_date = eventDate;
+      }
+
+      const rules = ContributionUtils.resolveRules(guild.contribution_rules);
+      const roster = await this.loadRoster(guild);
+      const spawnEvents = await this.loadGuildSpawnEvents(guildId, roster);
+      const attendance = await this.loadAttendance(spawnEvents.map(event => event.id));
+      const bosses = await this.loadBosses(spawnEvents.map(event => event.boss_id));
+
+      const totals = new Map<string, { points: number; lastEventDate?: string }>();
+      for (const event of spawnEvents) {
+        const attendedEvent: AttendedSpawnEvent = { spawnEvent: event, attendees: attendance.get(event.id) || [] };
+        const scores = ContributionUtils.scoreEvent(attendedEvent, bosses.get(event.boss_id) || null, guildId, rules, roster);
+
+        for (const [memberName, score] of scores) {
+          const total = totals.get(memberName) || { points: 0 };
+          total.points += score.points;
+          if (score.participated && (!total.lastEventDate || new Date(event.spawn_time) > new Date(total.lastEventDate))) {
+            total.lastEventDate = event.spawn_time;
+          }
+          totals.set(memberName, total);
         }
+      }
+
+      for (const member of roster) {
+        const total = totals.get(member.member_name);
+        const earned = await this.ledgerService.sumEntries(guildId, member.member_name, 'earn');
+        const difference = ContributionUtils.roundPoints((total?.points || 0) - earned);
+        if (difference === 0) continue;
 
-        contribution = await this.pb.updateGuildMemberContribution(existing.id, updatedData);
-      } else {
-        // Create new contribution
-        const contributionData = {
+        const entry: NewLedgerEntry = {
           guild_id: guildId,
-          member_name: ValidationUtils.sanitizeString(memberName),
-          member_id: memberId || undefined,
-          contribution_score: 1,
-          last_event_date: eventDate || new Date().toISOString()
+          member_name: member.member_name,
+          entry_type: 'earn',
+          points: difference,
+          reason: 'Recalculated under the current rules',
+          created_by: userId
         };
-
-        contribution = await this.pb.createGuildMemberContribution(contributionData);
+        if (member.member_id) entry.member_id = member.member_id;
+        await this.ledgerService.appendEntry(entry, total?.lastEventDate);
       }
 
       return {
         success: true,
-        data: contribution,
-        message: 'Contribution updated successfully'
+        data: true,
+        message: 'Guild contributions recalculated successfully'
       };
     } catch (error: any) {
       return {
         success: false,
-        error: error.message || 'Failed to increment contribution'
+        error: error.message || 'Failed to recalculate guild contributions'
       };
     }
   }
 
   /**
-   * Recalculate contribution scores for all members in a guild based on spawn events
+   * A spawn event with its current attendance, to pass as `previous` to
+   * recordSpawnEventChange before changing the event or who attended it
+   */
+  async loadAttendedEvent(spawnEvent: SpawnEvent): Promise<AttendedSpawnEvent> {
+    const attendance = await this.loadAttendance([spawnEvent.id]);
+    return { spawnEvent, attendees: attendance.get(spawnEvent.id) || [] };
+  }
+
+  /**
+   * Score a spawn event change (null = created / deleted) for every guild it
+   * touches, recording the difference in points as an 'earn' entry per member.
+   * The attendance of `next` is read as it is now.
    */
-  async recalculateGuildContributions(guildId: string): Promise<ApiResponse<boolean>> {
+  async recordSpawnEventChange(previous: AttendedSpawnEvent | null, next: SpawnEvent | null): Promise<void> {
     try {
-      if (!guildId) {
+      const current = next || previous?.spawnEvent;
+      if (!current) return;
+
+      const nextAttended = next ? await this.loadAttendedEvent(next) : null;
+      const boss: Boss | null = await this.pb.getBoss(current.boss_id).catch(() => null);
+      const guildIds = await this.findInvolvedGuilds([previous, nextAttended]);
+
+      for (const guildId of guildIds) {
+        const guild = await this.loadGuild(guildId);
+        if (!guild) continue;
+
+        const rules = ContributionUtils.resolveRules(guild.contribution_rules);
+        const roster = await this.loadRoster(guild);
+        const before = ContributionUtils.scoreEvent(previous, boss, guildId, rules, roster);
+        const after = ContributionUtils.scoreEvent(nextAttended, boss, guildId, rules, roster);
+
+        for (const member of roster) {
+          const beforeScore = before.get(member.member_name);
+          const afterScore = after.get(member.member_name);
+          const delta = ContributionUtils.roundPoints((afterScore?.points || 0) - (beforeScore?.points || 0));
+          const joined = !!afterScore?.participated && !beforeScore?.participated;
+          if (delta === 0 && !joined) continue;
+
+          const entry: NewLedgerEntry = {
+            guild_id: guildId,
+            member_name: member.member_name,
+            entry_type: 'earn',
+            points: delta,
+            spawn_event_id: current.id
+          };
+          if (member.member_id) entry.member_id = member.member_id;
+          await this.ledgerService.appendEntry(entry, joined ? current.spawn_time : undefined);
+        }
+      }
+    } catch (error) {
+      // Log error but don't fail the spawn event change
+      console.error('Failed to update contributions for spawn event:', error);
+    }
+  }
+
+  async getContributionRules(guildId: string): Promise<ApiResponse<ContributionRules>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
         return {
           success: false,
-          error: 'Guild ID is required'
+          error: 'Guild not found'
         };
       }
 
-      // Get all spawn events with participants
-      const spawnEvents = await this.pb.getSpawnEvents({
-        filter: {
-          'participants?length': { '>': 0 }
-        },
-        sort: '-spawn_time'
-      });
+      return {
+        success: true,
+        data: ContributionUtils.resolveRules(guild.contribution_rules)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch contribution rules'
+      };
+    }
+  }
 
-      // Get guild members
-      const guild = await this.pb.getGuild(guildId);
+  /**
+   * Change how the guild scores contributions. Applies to new events; existing
+   * scores change once the guild's contributions are recalculated.
+   */
+  async updateContributionRules(
+    guildId: string,
+    data: UpdateContributionRulesRequest,
+    userId: string
+  ): Promise<ApiResponse<ContributionRules>> {
+    try {
+      const guild = await this.loadGuild(guildId);
       if (!guild) {
         return {
           success: false,
@@ -355,67 +482,25 @@ export class ContributionService {
         };
       }
 
-      // Count contributions per member
-      const contributionCounts: Record<string, { count: number; lastEventDate?: string }> = {};
-
-      for (const event of spawnEvents.items) {
-        if (!event.participants || event.participants.length === 0) continue;
-
-        for (const participant of event.participants) {
-          if (!contributionCounts[participant]) {
-            contributionCounts[participant] = { count: 0 };
-          }
-          contributionCounts[participant].count++;
-          
-          // Update last event date if this event is more recent
-          if (event.spawn_time) {
-            const eventDate = new Date(event.spawn_time);
-            const lastDate = contributionCounts[participant].lastEventDate
-              ? new Date(contributionCounts[participant].lastEventDate!)
-              : null;
-
-            if (!lastDate || eventDate > lastDate) {
-              contributionCounts[participant].lastEventDate = event.spawn_time;
-            }
-          }
-        }
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_settings')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can change contribution rules'
+        };
       }
 
-      // Update or create contribution records
-      for (const [memberName, data] of Object.entries(contributionCounts)) {
-        const existingContributions = await this.pb.getGuildMemberContributions({
-          filter: {
-            guild_id: guildId,
-            member_name: memberName
-          },
-          perPage: 1
-        });
-
-        if (existingContributions.items.length > 0) {
-          const existing = existingContributions.items[0];
-          await this.pb.updateGuildMemberContribution(existing.id, {
-            contribution_score: data.count,
-            last_event_date: data.lastEventDate
-          });
-        } else {
-          await this.pb.createGuildMemberContribution({
-            guild_id: guildId,
-            member_name: memberName,
-            contribution_score: data.count,
-            last_event_date: data.lastEventDate
-          });
-        }
-      }
+      const rules = ContributionUtils.applyRulesUpdate(ContributionUtils.resolveRules(guild.contribution_rules), data);
+      await this.pb.updateGuild(guildId, { contribution_rules: rules });
 
       return {
         success: true,
-        data: true,
-        message: 'Guild contributions recalculated successfully'
+        data: rules,
+        message: 'Contribution rules updated, recalculate to apply them to past events'
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message || 'Failed to recalculate guild contributions'
+        error: 'Failed to update contribution rules'
       };
     }
   }
@@ -436,5 +521,194 @@ export class ContributionService {
       sort_order: 'desc'
     });
   }
-}
 
+  /**
+   * Guild members by username, plus everyone with a contribution record (which
+   * also covers participants that are not registered users)
+   */
+  async loadRoster(guild: Guild): Promise<ContributionRosterEntry[]> {
+    const roster = new Map<string, ContributionRosterEntry>();
+
+    if ((guild.members || []).length > 0) {
+      const users = await this.pb.getUsers({
+        filter: { id: guild.members },
+        perPage: guild.members.length
+      });
+      for (const user of users.items as User[]) {
+        roster.set(user.username, { member_name: user.username, member_id: user.id });
+      }
+    }
+
+    const contributions = await this.pb.getGuildMemberContributions({
+      filter: { guild_id: guild.id },
+      perPage: 1000
+    });
+    for (const contribution of contributions.items as GuildMemberContribution[]) {
+      const entry: ContributionRosterEntry = {
+        member_name: contribution.member_name,
+        since: contribution.created
+      };
+      const memberId = contribution.member_id || roster.get(contribution.member_name)?.member_id;
+      if (memberId) entry.member_id = memberId;
+      roster.set(contribution.member_name, entry);
+    }
+
+    return Array.from(roster.values());
+  }
+
+  /**
+   * Guilds of the events' attendees and reporters, and the guilds credited with their kills
+   */
+  private async findInvolvedGuilds(attendedEvents: (AttendedSpawnEvent | null)[]): Promise<string[]> {
+    const guildIds = new Set<string>();
+    const names = new Set<string>();
+    const userIds = new Set<string>();
+
+    for (const attendedEvent of attendedEvents) {
+      if (!attendedEvent) continue;
+      const { spawnEvent, attendees } = attendedEvent;
+      if (spawnEvent.killed_by_guild) guildIds.add(spawnEvent.killed_by_guild);
+      if (spawnEvent.reported_by && spawnEvent.reported_by !== 'system') userIds.add(spawnEvent.reported_by);
+      for (const attendee of attendees) {
+        if (attendee.member_id) userIds.add(attendee.member_id);
+        names.add(attendee.member_name);
+      }
+    }
+
+    if (userIds.size > 0) {
+      const users = await this.pb.getUsers({ filter: { id: Array.from(userIds) }, perPage: userIds.size });
+      (users.items as User[]).forEach(user => {
+        if (user.guild) guildIds.add(user.guild);
+      });
+    }
+
+    if (names.size > 0) {
+      // Attendees outside the user system are tracked through existing contribution records
+      const contributions = await this.pb.getGuildMemberContributions({
+        filter: { member_name: Array.from(names) },
+        perPage: 1000
+      });
+      (contributions.items as GuildMemberContribution[]).forEach(contribution => guildIds.add(contribution.guild_id));
+    }
+
+    return Array.from(guildIds);
+  }
+
+  /**
+   * Attendance rows of the spawn events, by spawn event id
+   */
+  private async loadAttendance(spawnEventIds: string[]): Promise<Map<string, SpawnAttendance[]>> {
+    const attendance = new Map<string, SpawnAttendance[]>();
+
+    for (let i = 0; i < spawnEventIds.length; i += 200) {
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const result = await this.pb.getSpawnAttendanceRecords({
+          page,
+          perPage: 1000,
+          filter: { spawn_event_id: spawnEventIds.slice(i, i + 200) }
+        });
+        for (const row of result.items as SpawnAttendance[]) {
+          attendance.set(row.spawn_event_id, [...(attendance.get(row.spawn_event_id) || []), row]);
+        }
+        totalPages = result.totalPages;
+        page++;
+      } while (page <= totalPages);
+    }
+
+    return attendance;
+  }
+
+  /**
+   * The spawn events that can score for a guild: its kills, and the events its
+   * roster reported or attended. Everything else is worth nothing to it.
+   */
+  private async loadGuildSpawnEvents(guildId: string, roster: ContributionRosterEntry[]): Promise<SpawnEvent[]> {
+    const spawnEvents = new Map<string, SpawnEvent>();
+    const addEvents = (events: SpawnEvent[]) => events.forEach(event => spawnEvents.set(event.id, event));
+
+    const memberIds = roster.map(member => member.member_id).filter((id): id is string => !!id);
+    const memberNames = roster.map(member => member.member_name);
+
+    addEvents(await this.loadAllPages<SpawnEvent>(page => this.pb.getSpawnEvents({
+      page,
+      perPage: 1000,
+      filter: { killed_by_guild: guildId }
+    })));
+
+    const attendedIds = new Set<string>();
+    for (let i = 0; i < Math.max(memberIds.length, memberNames.length); i += 200) {
+      const idChunk = memberIds.slice(i, i + 200);
+      const nameChunk = memberNames.slice(i, i + 200);
+
+      if (idChunk.length > 0) {
+        addEvents(await this.loadAllPages<SpawnEvent>(page => this.pb.getSpawnEvents({
+          page,
+          perPage: 1000,
+          filter: { reported_by: idChunk }
+        })));
+        (await this.loadAllPages<SpawnAttendance>(page => this.pb.getSpawnAttendanceRecords({
+          page,
+          perPage: 1000,
+          filter: { member_id: idChunk }
+        }))).forEach(row => attendedIds.add(row.spawn_event_id));
+      }
+      if (nameChunk.length > 0) {
+        (await this.loadAllPages<SpawnAttendance>(page => this.pb.getSpawnAttendanceRecords({
+          page,
+          perPage: 1000,
+          filter: { member_name: nameChunk }
+        }))).forEach(row => attendedIds.add(row.spawn_event_id));
+      }
+    }
+
+    const missingIds = Array.from(attendedIds).filter(id => !spawnEvents.has(id));
+    for (let i = 0; i < missingIds.length; i += 200) {
+      const chunk = missingIds.slice(i, i + 200);
+      addEvents((await this.pb.getSpawnEvents({ filter: { id: chunk }, perPage: chunk.length })).items);
+    }
+
+    return Array.from(spawnEvents.values())
+      .sort((a, b) => new Date(a.spawn_time).getTime() - new Date(b.spawn_time).getTime());
+  }
+
+  private async loadAllPages<T>(load: (page: number) => Promise<{ items: T[]; totalPages: number }>): Promise<T[]> {
+    const items: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await load(page);
+      items.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return items;
+  }
+
+  private async loadBosses(bossIds: string[]): Promise<Map<string, Boss>> {
+    const ids = Array.from(new Set(bossIds));
+    const bosses = new Map<string, Boss>();
+
+    for (let i = 0; i < ids.length; i += 200) {
+      const result = await this.pb.getBosses({
+        filter: { id: ids.slice(i, i + 200) },
+        perPage: 200
+      });
+      (result.items as Boss[]).forEach(boss => bosses.set(boss.id, boss));
+    }
+
+    return bosses;
+  }
+
+  private async loadGuild(guildId: string): Promise<Guild | null> {
+    try {
+      return await this.pb.getGuild(guildId);
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Boss,
+  SpawnEvent,
+  RespawnTimer,
+  GuildWebhook,
+  DiscordEventType,
+  UpsertGuildWebhookRequest,
+  ApiResponse
+} from '@/types';
+import { DiscordUtils, DEFAULT_DISCORD_TEMPLATES } from '@/utils/discord';
+import { NotificationUtils } from '@/utils/notification';
+import { GuildService } from './GuildService';
+
+type PublicGuildWebhook = Omit<GuildWebhook, 'secret'> & { secret?: string };
+
+const ALL_EVENTS: DiscordEventType[] = ['spawn_soon', 'spawned', 'killed'];
+
+export class DiscordService {
+  // Enabled webhooks, shared by all instances and reloaded after any change
+  private static webhookCache: GuildWebhook[] | null = null;
+  // "<webhook id>:<boss id>:<next_spawn>" keys of spawn-soon alerts already posted
+  private static sentSpawnSoon: Set<string> = new Set();
+
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  static invalidateCache(): void {
+    DiscordService.webhookCache = null;
+  }
+
+  async getWebhook(guildId: string, userId: string): Promise<ApiResponse<PublicGuildWebhook>> {
+    try {
+      const permission = await this.checkGuildManager(guildId, userId);
+      if (permission.error) {
+        return { success: false, error: permission.error };
+      }
+
+      const webhook = await this.findWebhook(guildId);
+      if (!webhook) {
+        return {
+          success: false,
+          error: 'No webhook registered for this guild'
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toPublicWebhook(webhook)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to get guild webhook'
+      };
+    }
+  }
+
+  async upsertWebhook(guildId: string, data: UpsertGuildWebhookRequest, userId: string): Promise<ApiResponse<PublicGuildWebhook>> {
+    try {
+      const permission = await this.checkGuildManager(guildId, userId);
+      if (permission.error) {
+        return { success: false, error: permission.error };
+      }
+
+      if (!DiscordUtils.isAllowedWebhookUrl(data.url)) {
+        return {
+          success: false,
+          error: 'Webhook URL must be a Discord webhook URL'
+        };
+      }
+
+      const webhookData: any = {
+        url: data.url,
+        last_error: null
+      };
+      if (data.enabled !== undefined) webhookData.enabled = data.enabled;
+      if (data.events) webhookData.events = data.events;
+      if (data.servers) webhookData.servers = data.servers;
+      if (data.spawn_soon_minutes !== undefined) webhookData.spawn_soon_minutes = data.spawn_soon_minutes;
+      if (data.templates) webhookData.templates = data.templates;
+
+      const existing = await this.findWebhook(guildId);
+      let webhook: GuildWebhook;
+
+      if (existing) {
+        webhook = await this.pb.updateGuildWebhook(existing.id, webhookData);
+      } else {
+        webhook = await this.pb.createGuildWebhook({
+          guild_id: guildId,
+          secret: DiscordUtils.generateSecret(),
+          enabled: true,
+          events: ALL_EVENTS,
+          servers: [],
+          spawn_soon_minutes: 5,
+          templates: {},
+          ...webhookData
+        });
+      }
+
+      DiscordService.invalidateCache();
+
+      // The signing secret is only revealed when the webhook is first registered
+      return {
+        success: true,
+        data: existing ? this.toPublicWebhook(webhook) : { ...this.toPublicWebhook(webhook), secret: webhook.secret },
+        message: existing ? 'Guild webhook updated successfully' : 'Guild webhook registered successfully'
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to register guild webhook'
+      };
+    }
+  }
+
+  async deleteWebhook(guildId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const permission = await this.checkGuildManager(guildId, userId);
+      if (permission.error) {
+        return { success: false, error: permission.error };
+      }
+
+      const webhook = await this.findWebhook(guildId);
+      if (!webhook) {
+        return {
+          success: false,
+          error: 'No webhook registered for this guild'
+        };
+      }
+
+      await this.pb.deleteGuildWebhook(webhook.id);
+      DiscordService.invalidateCache();
+
+      return {
+        success: true,
+        data: true,
+        message: 'Guild webhook removed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove guild webhook'
+      };
+    }
+  }
+
+  /**
+   * Post a signed test message so the guild can confirm the webhook works and
+   * that messages really come from this tracker
+   */
+  async sendTestPing(guildId: string, userId: string): Promise<ApiResponse<{ timestamp: string; signature: string }>> {
+    try {
+      const permission = await this.checkGuildManager(guildId, userId);
+      if (permission.error) {
+        return { success: false, error: permission.error };
+      }
+
+      const webhook = await this.findWebhook(guildId);
+      if (!webhook) {
+        return {
+          success: false,
+          error: 'No webhook registered for this guild'
+        };
+      }
+
+      // Verify with HMAC-SHA256(secret, "<X-Tracker-Timestamp>.<request body>")
+      const timestamp = Date.now().toString();
+      const body = JSON.stringify({
+        username: 'Boss Respawn Tracker',
+        content: `Test ping for guild **${permission.guild.name}**`
+      });
+      const signature = DiscordUtils.sign(webhook.secret, timestamp, body);
+
+      try {
+        await DiscordUtils.postWebhook(webhook.url, body, {
+          'X-Tracker-Timestamp': timestamp,
+          'X-Tracker-Signature': signature
+        });
+      } catch (error: any) {
+        await this.pb.updateGuildWebhook(webhook.id, { last_error: error?.message || 'Test ping failed' });
+        return {
+          success: false,
+          error: error?.message || 'Test ping failed'
+        };
+      }
+
+      await this.pb.updateGuildWebhook(webhook.id, {
+        last_delivery_at: new Date().toISOString(),
+        last_error: null
+      });
+
+      return {
+        success: true,
+        data: { timestamp, signature },
+        message: 'Test ping delivered'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to send test ping'
+      };
+    }
+  }
+
+  /**
+   * Post a boss event to every enabled guild webhook subscribed to it.
+   * Returns the number of webhooks that accepted the message.
+   */
+  async notifyBossEvent(event: DiscordEventType, boss: Boss, extra: { timer?: RespawnTimer; spawnEvent?: SpawnEvent; killedBy?: string } = {}): Promise<number> {
+    const webhooks = (await this.loadWebhooks()).filter(webhook => this.isSubscribed(webhook, event, boss));
+    let delivered = 0;
+
+    for (const webhook of webhooks) {
+      if (await this.deliver(webhook, event, boss, extra)) delivered++;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Called on every scheduler tick; posts "spawn soon" once per webhook when the
+   * timer drops below the webhook's configured lead time
+   */
+  async handleTimer(boss: Boss, timer: RespawnTimer): Promise<void> {
+    if (timer.time_remaining <= 0) {
+      // The spawn is over, forget which webhooks were already warned about it
+      for (const key of DiscordService.sentSpawnSoon) {
+        if (key.endsWith(`:${boss.id}:${timer.next_spawn}`)) DiscordService.sentSpawnSoon.delete(key);
+      }
+      return;
+    }
+
+    const webhooks = (await this.loadWebhooks()).filter(webhook => this.isSubscribed(webhook, 'spawn_soon', boss));
+
+    for (const webhook of webhooks) {
+      if (timer.time_remaining > webhook.spawn_soon_minutes * 60) continue;
+
+      const key = `${webhook.id}:${boss.id}:${timer.next_spawn}`;
+      if (DiscordService.sentSpawnSoon.has(key)) continue;
+
+      DiscordService.sentSpawnSoon.add(key);
+      await this.deliver(webhook, 'spawn_soon', boss, { timer });
+    }
+  }
+
+  private async deliver(webhook: GuildWebhook, event: DiscordEventType, boss: Boss, extra: { timer?: RespawnTimer; spawnEvent?: SpawnEvent; killedBy?: string }): Promise<boolean> {
+    const template = webhook.templates?.[event] || DEFAULT_DISCORD_TEMPLATES[event];
+    const variables = {
+      boss_name: boss.name,
+      level: boss.level,
+      location: boss.location,
+      server: boss.server,
+      difficulty: boss.difficulty,
+      time_remaining: extra.timer ? NotificationUtils.formatTimeRemaining(extra.timer.time_remaining) : undefined,
+      spawn_time: extra.spawnEvent?.spawn_time || boss.next_spawn,
+      next_spawn: boss.next_spawn || 'unknown',
+      killed_by: extra.killedBy ? ` by ${extra.killedBy}` : ''
+    };
+
+    const embed = DiscordUtils.buildEmbed(template, variables, [
+      { name: 'Level', value: boss.level.toString(), inline: true },
+      { name: 'Location', value: boss.location, inline: true },
+      { name: 'Server', value: boss.server, inline: true }
+    ]);
+
+    try {
+      await DiscordUtils.postWebhook(webhook.url, { username: 'Boss Respawn Tracker', embeds: [embed] });
+      await this.pb.updateGuildWebhook(webhook.id, { last_delivery_at: new Date().toISOString(), last_error: null });
+      return true;
+    } catch (error: any) {
+      console.error(`Failed to deliver Discord ${event} message for guild ${webhook.guild_id}:`, error);
+      await this.pb.updateGuildWebhook(webhook.id, { last_error: error?.message || 'Delivery failed' }).catch(() => undefined);
+      return false;
+    }
+  }
+
+  private isSubscribed(webhook: GuildWebhook, event: DiscordEventType, boss: Boss): boolean {
+    if (!webhook.enabled) return false;
+    if (webhook.events && webhook.events.length > 0 && !webhook.events.includes(event)) return false;
+    return !webhook.servers || webhook.servers.length === 0 || webhook.servers.includes(boss.server);
+  }
+
+  private async loadWebhooks(): Promise<GuildWebhook[]> {
+    if (!DiscordService.webhookCache) {
+      const result = await this.pb.getGuildWebhooks({
+        filter: { enabled: true },
+        perPage: 1000
+      });
+      DiscordService.webhookCache = result.items;
+    }
+    return DiscordService.webhookCache || [];
+  }
+
+  private async findWebhook(guildId: string): Promise<GuildWebhook | undefined> {
+    const result = await this.pb.getGuildWebhooks({
+      filter: { guild_id: guildId },
+      perPage: 1
+    });
+    return result.items[0];
+  }
+
+  private async checkGuildManager(guildId: string, userId: string): Promise<{ guild?: any; error?: string }> {
+    let guild: any;
+    try {
+      guild = await this.pb.getGuild(guildId);
+    } catch (error) {
+      return { error: 'Guild not found' };
+    }
+
+    if (!guild) {
+      return { error: 'Guild not found' };
+    }
+
+    if (!GuildService.hasPermission(guild, userId, 'guild:manage_webhooks')) {
+      return { error: 'Only the guild leader and officers can manage guild webhooks' };
+    }
+
+    return { guild };
+  }
+
+  private toPublicWebhook(webhook: GuildWebhook): PublicGuildWebhook {
+    const { secret, ...publicWebhook } = webhook;
+    // Hide the webhook token, anyone holding it can post to the channel
+    const maskedUrl = webhook.url.replace(/\/([^/]+)$/, (_match, token: string) => `/****${token.slice(-4)}`);
+    return { ...publicWebhook, url: maskedUrl };
+  }
+}
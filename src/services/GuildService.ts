@@ -0,0 +1,1039 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Guild,
+  GuildStats,
+  GuildRole,
+  GuildPermission,
+  GuildMember,
+  GuildJoinRequest,
+  GuildQueryParams,
+  GuildJoinRequestQueryParams,
+  CreateGuildRequest,
+  UpdateGuildRequest,
+  User,
+  SpawnEvent,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { ValidationUtils } from '@/utils/validation';
+import { SocketUtils } from '@/utils/socket';
+import { PermissionUtils } from '@/utils/permissions';
+import { RoleService } from './RoleService';
+
+// Members who logged in within this many days count as active in GuildStats
+const ACTIVE_MEMBER_DAYS = 30;
+
+export class GuildService {
+  private pb: SupabaseClientWrapper;
+  private roleService: RoleService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.roleService = new RoleService();
+  }
+
+  static getRole(guild: Guild, userId: string): GuildRole | undefined {
+    if (guild.leader_id === userId) return 'leader';
+    if ((guild.officers || []).includes(userId)) return 'officer';
+    if ((guild.members || []).includes(userId)) return 'member';
+    return undefined;
+  }
+
+  /**
+   * Officers manage settings, invites, join requests and webhooks; the leader
+   * additionally manages officers, leadership and disbanding
+   */
+  static hasPermission(guild: Guild, userId: string, permission: GuildPermission): boolean {
+    return PermissionUtils.hasGuildPermission(GuildService.getRole(guild, userId), permission);
+  }
+
+  async getGuilds(queryParams: GuildQueryParams, userId?: string): Promise<ApiResponse<Guild[]>> {
+    try {
+      const {
+        page = 1,
+        limit = 50,
+        search,
+        sort_by = 'created',
+        sort_order = 'desc'
+      } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const sortValidation = ValidationUtils.validateSortParams(sort_by, sort_order, ['name', 'created']);
+      if (!sortValidation.isValid) {
+        return {
+          success: false,
+          error: sortValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = {};
+      if (search) {
+        filter.name = { $like: `%${search}%` };
+      }
+
+      const result = await this.pb.getGuilds({
+        page,
+        perPage: limit,
+        filter,
+        sort: `${sort_order === 'desc' ? '-' : ''}${sort_by}`
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items.map((guild: Guild) => this.toPublicGuild(guild, userId)),
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch guilds'
+      };
+    }
+  }
+
+  async getGuild(id: string, userId?: string): Promise<ApiResponse<Guild>> {
+    try {
+      if (!id) {
+        return {
+          success: false,
+          error: 'Guild ID is required'
+        };
+      }
+
+      const guild = await this.pb.getGuild(id);
+      return {
+        success: true,
+        data: this.toPublicGuild(guild, userId)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Guild not found'
+      };
+    }
+  }
+
+  async createGuild(data: CreateGuildRequest, userId: string): Promise<ApiResponse<Guild>> {
+    try {
+      if (!data.name || data.name.trim().length === 0) {
+        return {
+          success: false,
+          error: 'Guild name is required'
+        };
+      }
+
+      const user: User = await this.pb.getUser(userId);
+      if (user.guild) {
+        return {
+          success: false,
+          error: 'You are already a member of a guild'
+        };
+      }
+
+      const name = ValidationUtils.sanitizeString(data.name);
+      const existing = await this.pb.getGuilds({
+        filter: { name },
+        perPage: 1
+      });
+
+      if (existing.items.length > 0) {
+        return {
+          success: false,
+          error: 'A guild with this name already exists'
+        };
+      }
+
+      const guildData: any = {
+        name,
+        leader_id: userId,
+        officers: [],
+        members: [userId],
+        invite_code: this.generateInviteCode(),
+        boss_tracking_enabled: true,
+        stats: {
+          total_members: 1,
+          active_members: 1,
+          boss_kills: 0,
+          accuracy_rate: 0
+        }
+      };
+      if (data.description) guildData.description = ValidationUtils.sanitizeString(data.description);
+      if (data.notification_channel) guildData.notification_channel = data.notification_channel;
+
+      const guild: Guild = await this.pb.createGuild(guildData);
+
+      try {
+        await this.pb.updateUser(userId, { guild: guild.id });
+      } catch (error) {
+        // Don't leave a guild behind whose leader does not point back at it
+        await this.pb.deleteGuild(guild.id);
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: guild,
+        message: 'Guild created successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to create guild'
+      };
+    }
+  }
+
+  async updateGuild(id: string, data: UpdateGuildRequest, userId: string): Promise<ApiResponse<Guild>> {
+    try {
+      const guild = await this.loadGuild(id);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_settings')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can update the guild'
+        };
+      }
+
+      const updateData: any = {};
+
+      if (data.name) {
+        const name = ValidationUtils.sanitizeString(data.name);
+        const existing = await this.pb.getGuilds({
+          filter: { name },
+          perPage: 1
+        });
+
+        if (existing.items.length > 0 && existing.items[0].id !== id) {
+          return {
+            success: false,
+            error: 'A guild with this name already exists'
+          };
+        }
+        updateData.name = name;
+      }
+
+      if (data.description !== undefined) updateData.description = ValidationUtils.sanitizeString(data.description);
+      if (data.notification_channel !== undefined) updateData.notification_channel = data.notification_channel;
+      if (data.boss_tracking_enabled !== undefined) updateData.boss_tracking_enabled = data.boss_tracking_enabled;
+
+      const updatedGuild = await this.saveGuild(id, updateData);
+
+      return {
+        success: true,
+        data: this.toPublicGuild(updatedGuild, userId),
+        message: 'Guild updated successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update guild'
+      };
+    }
+  }
+
+  async deleteGuild(id: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const guild = await this.loadGuild(id);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:disband')) {
+        return {
+          success: false,
+          error: 'Only the guild leader can disband the guild'
+        };
+      }
+
+      for (const memberId of guild.members || []) {
+        await this.pb.updateUser(memberId, { guild: null });
+      }
+
+      await this.pb.deleteGuild(id);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Guild disbanded successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to disband guild'
+      };
+    }
+  }
+
+  async getMembers(guildId: string): Promise<ApiResponse<GuildMember[]>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      const users = await this.loadUsers(guild.members || []);
+      const members: GuildMember[] = users.map(user => {
+        const member: GuildMember = {
+          id: user.id,
+          username: user.username,
+          role: GuildService.getRole(guild, user.id) || 'member',
+          is_active: user.is_active
+        };
+        if (user.avatar) member.avatar = user.avatar;
+        if (user.last_login) member.last_login = user.last_login;
+        return member;
+      });
+
+      const roleOrder: Record<GuildRole, number> = { leader: 0, officer: 1, member: 2 };
+      members.sort((a, b) => roleOrder[a.role] - roleOrder[b.role] || a.username.localeCompare(b.username));
+
+      return {
+        success: true,
+        data: members
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch guild members'
+      };
+    }
+  }
+
+  /**
+   * The stored GuildStats. They are recomputed when membership changes and
+   * every config.scheduler.guildStatsCron.
+   */
+  async getStats(guildId: string): Promise<ApiResponse<GuildStats>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: guild.stats || { total_members: (guild.members || []).length, active_members: 0, boss_kills: 0, accuracy_rate: 0 }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to get guild statistics'
+      };
+    }
+  }
+
+  async regenerateInviteCode(guildId: string, userId: string): Promise<ApiResponse<{ invite_code: string }>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_invites')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can manage invite codes'
+        };
+      }
+
+      // The previous code stops working as soon as it is replaced
+      const inviteCode = this.generateInviteCode();
+      await this.pb.updateGuild(guildId, { invite_code: inviteCode });
+
+      return {
+        success: true,
+        data: { invite_code: inviteCode },
+        message: 'Invite code generated successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to generate invite code'
+      };
+    }
+  }
+
+  async revokeInviteCode(guildId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_invites')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can manage invite codes'
+        };
+      }
+
+      await this.pb.updateGuild(guildId, { invite_code: null });
+
+      return {
+        success: true,
+        data: true,
+        message: 'Invite code revoked successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to revoke invite code'
+      };
+    }
+  }
+
+  /**
+   * An invite code skips the approval step and joins the guild straight away
+   */
+  async joinByInviteCode(inviteCode: string, userId: string): Promise<ApiResponse<Guild>> {
+    try {
+      const result = await this.pb.getGuilds({
+        filter: { invite_code: inviteCode.toUpperCase() },
+        perPage: 1
+      });
+      const guild: Guild | undefined = result.items[0];
+
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Invalid invite code'
+        };
+      }
+
+      const user: User = await this.pb.getUser(userId);
+      if (user.guild) {
+        return {
+          success: false,
+          error: user.guild === guild.id ? 'You are already a member of this guild' : 'You are already a member of a guild'
+        };
+      }
+
+      const updatedGuild = await this.addMember(guild, userId);
+
+      return {
+        success: true,
+        data: this.toPublicGuild(updatedGuild, userId),
+        message: 'Joined guild successfully'
+      };
+    } catch (error: any) {
+      if (error?.hint === 'already_in_guild') {
+        return {
+          success: false,
+          error: 'You are already a member of a guild'
+        };
+      }
+      return {
+        success: false,
+        error: 'Failed to join guild'
+      };
+    }
+  }
+
+  async requestToJoin(guildId: string, userId: string, message?: string): Promise<ApiResponse<GuildJoinRequest>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      const user: User = await this.pb.getUser(userId);
+      if (user.guild) {
+        return {
+          success: false,
+          error: user.guild === guildId ? 'You are already a member of this guild' : 'You are already a member of a guild'
+        };
+      }
+
+      const pending = await this.pb.getGuildJoinRequests({
+        filter: { guild_id: guildId, user_id: userId, status: 'pending' },
+        perPage: 1
+      });
+
+      if (pending.items.length > 0) {
+        return {
+          success: false,
+          error: 'You already have a pending request for this guild'
+        };
+      }
+
+      const requestData: any = {
+        guild_id: guildId,
+        user_id: userId,
+        status: 'pending'
+      };
+      if (message) requestData.message = ValidationUtils.sanitizeString(message);
+
+      const joinRequest = await this.pb.createGuildJoinRequest(requestData);
+
+      return {
+        success: true,
+        data: joinRequest,
+        message: 'Join request submitted successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to submit join request'
+      };
+    }
+  }
+
+  async getJoinRequests(guildId: string, userId: string, queryParams: GuildJoinRequestQueryParams): Promise<ApiResponse<GuildJoinRequest[]>> {
+    try {
+      const { page = 1, limit = 50, status } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:review_join_requests')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can view join requests'
+        };
+      }
+
+      const filter: any = { guild_id: guildId };
+      if (status) filter.status = status;
+
+      const result = await this.pb.getGuildJoinRequests({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-created'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch join requests'
+      };
+    }
+  }
+
+  async reviewJoinRequest(guildId: string, requestId: string, approve: boolean, userId: string): Promise<ApiResponse<GuildJoinRequest>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:review_join_requests')) {
+        return {
+          success: false,
+          error: 'Only the guild leader and officers can review join requests'
+        };
+      }
+
+      const joinRequest = await this.loadJoinRequest(guildId, requestId);
+      if (!joinRequest) {
+        return {
+          success: false,
+          error: 'Join request not found'
+        };
+      }
+
+      if (joinRequest.status !== 'pending') {
+        return {
+          success: false,
+          error: `Join request has already been ${joinRequest.status}`
+        };
+      }
+
+      if (approve) {
+        const applicant: User = await this.pb.getUser(joinRequest.user_id);
+        if (applicant.guild) {
+          // The applicant joined another guild in the meantime
+          await this.pb.updateGuildJoinRequest(requestId, { status: 'cancelled' });
+          return {
+            success: false,
+            error: 'User is already a member of a guild'
+          };
+        }
+
+        try {
+          await this.addMember(guild, joinRequest.user_id);
+        } catch (error: any) {
+          if (error?.hint !== 'already_in_guild') throw error;
+          await this.pb.updateGuildJoinRequest(requestId, { status: 'cancelled' });
+          return {
+            success: false,
+            error: 'User is already a member of a guild'
+          };
+        }
+      }
+
+      const updatedRequest = await this.pb.updateGuildJoinRequest(requestId, {
+        status: approve ? 'approved' : 'rejected',
+        reviewed_by: userId,
+        reviewed_at: new Date().toISOString()
+      });
+
+      return {
+        success: true,
+        data: updatedRequest,
+        message: approve ? 'Join request approved' : 'Join request rejected'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to review join request'
+      };
+    }
+  }
+
+  async cancelJoinRequest(guildId: string, requestId: string, userId: string): Promise<ApiResponse<GuildJoinRequest>> {
+    try {
+      const joinRequest = await this.loadJoinRequest(guildId, requestId);
+      if (!joinRequest || joinRequest.user_id !== userId) {
+        return {
+          success: false,
+          error: 'Join request not found'
+        };
+      }
+
+      if (joinRequest.status !== 'pending') {
+        return {
+          success: false,
+          error: `Join request has already been ${joinRequest.status}`
+        };
+      }
+
+      const updatedRequest = await this.pb.updateGuildJoinRequest(requestId, { status: 'cancelled' });
+
+      return {
+        success: true,
+        data: updatedRequest,
+        message: 'Join request cancelled'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to cancel join request'
+      };
+    }
+  }
+
+  async leaveGuild(guildId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild || !guild.members.includes(userId)) {
+        return {
+          success: false,
+          error: 'You are not a member of this guild'
+        };
+      }
+
+      if (guild.leader_id === userId) {
+        return {
+          success: false,
+          error: 'The guild leader must transfer leadership or disband the guild before leaving'
+        };
+      }
+
+      await this.removeMember(guild, userId);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Left guild successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to leave guild'
+      };
+    }
+  }
+
+  /**
+   * The leader can remove anyone else; officers can only remove regular members
+   */
+  async kickMember(guildId: string, memberId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      const actorRole = GuildService.getRole(guild, userId);
+      const memberRole = GuildService.getRole(guild, memberId);
+
+      if (!memberRole) {
+        return {
+          success: false,
+          error: 'User is not a member of this guild'
+        };
+      }
+
+      if (memberId === userId) {
+        return {
+          success: false,
+          error: 'Use leave to remove yourself from the guild'
+        };
+      }
+
+      const allowed = PermissionUtils.hasGuildPermission(actorRole, 'guild:kick_members') &&
+        PermissionUtils.outranks(actorRole, memberRole);
+      if (!allowed) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to remove this member'
+        };
+      }
+
+      await this.removeMember(guild, memberId);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Member removed from guild'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove member'
+      };
+    }
+  }
+
+  async setMemberRole(guildId: string, memberId: string, role: 'officer' | 'member', userId: string): Promise<ApiResponse<Guild>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:manage_roles')) {
+        return {
+          success: false,
+          error: 'Only the guild leader can change member roles'
+        };
+      }
+
+      const memberRole = GuildService.getRole(guild, memberId);
+      if (!memberRole) {
+        return {
+          success: false,
+          error: 'User is not a member of this guild'
+        };
+      }
+
+      if (memberRole === 'leader') {
+        return {
+          success: false,
+          error: 'Use leadership transfer to change the leader'
+        };
+      }
+
+      if (memberRole === role) {
+        return {
+          success: false,
+          error: role === 'officer' ? 'Member is already an officer' : 'Member is not an officer'
+        };
+      }
+
+      const officers = (guild.officers || []).filter(id => id !== memberId);
+      if (role === 'officer') officers.push(memberId);
+
+      const updatedGuild = await this.saveGuild(guildId, { officers });
+      await this.roleService.recordGuildRoleChange(guildId, memberId, memberRole, role, userId);
+
+      return {
+        success: true,
+        data: this.toPublicGuild(updatedGuild, userId),
+        message: role === 'officer' ? 'Member promoted to officer' : 'Officer demoted to member'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to change member role'
+      };
+    }
+  }
+
+  /**
+   * Hand the guild to another member; the previous leader stays on as an officer
+   */
+  async transferLeadership(guildId: string, newLeaderId: string, userId: string): Promise<ApiResponse<Guild>> {
+    try {
+      const guild = await this.loadGuild(guildId);
+      if (!guild) {
+        return {
+          success: false,
+          error: 'Guild not found'
+        };
+      }
+
+      if (!GuildService.hasPermission(guild, userId, 'guild:transfer_leadership')) {
+        return {
+          success: false,
+          error: 'Only the guild leader can transfer leadership'
+        };
+      }
+
+      if (newLeaderId === userId) {
+        return {
+          success: false,
+          error: 'You are already the guild leader'
+        };
+      }
+
+      if (!guild.members.includes(newLeaderId)) {
+        return {
+          success: false,
+          error: 'New leader must be a member of the guild'
+        };
+      }
+
+      const newLeaderRole = GuildService.getRole(guild, newLeaderId) || 'member';
+      const officers = [...(guild.officers || []).filter(id => id !== newLeaderId), userId];
+      const updatedGuild = await this.saveGuild(guildId, {
+        leader_id: newLeaderId,
+        officers
+      });
+      await this.roleService.recordGuildRoleChange(guildId, newLeaderId, newLeaderRole, 'leader', userId);
+      await this.roleService.recordGuildRoleChange(guildId, userId, 'leader', 'officer', userId);
+
+      return {
+        success: true,
+        data: this.toPublicGuild(updatedGuild, userId),
+        message: 'Guild leadership transferred successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to transfer leadership'
+      };
+    }
+  }
+
+  /**
+   * Add a user to guilds.members and point users.guild at the guild in one database
+   * call; it fails with the hint 'already_in_guild' when the user joined a guild in
+   * the meantime. Other pending join requests of the user are cancelled since a user
+   * can only be in one guild.
+   */
+  private async addMember(guild: Guild, userId: string): Promise<Guild> {
+    const updatedGuild: Guild = await this.pb.addGuildMember(guild.id, userId);
+    this.emitUpdate(updatedGuild);
+
+    const pending = await this.pb.getGuildJoinRequests({
+      filter: { user_id: userId, status: 'pending' },
+      perPage: 100
+    });
+    for (const joinRequest of pending.items as GuildJoinRequest[]) {
+      if (joinRequest.guild_id !== guild.id) {
+        await this.pb.updateGuildJoinRequest(joinRequest.id, { status: 'cancelled' });
+      }
+    }
+
+    return this.refreshStats(updatedGuild);
+  }
+
+  private async removeMember(guild: Guild, userId: string): Promise<Guild> {
+    const updatedGuild: Guild = await this.pb.removeGuildMember(guild.id, userId);
+    this.emitUpdate(updatedGuild);
+
+    return this.refreshStats(updatedGuild);
+  }
+
+  /**
+   * Recompute and store the stats of every guild. Returns how many were refreshed.
+   */
+  async refreshAllStats(): Promise<number> {
+    let refreshed = 0;
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getGuilds({ page, perPage: 100, sort: 'created' });
+      for (const guild of result.items as Guild[]) {
+        try {
+          await this.refreshStats(guild);
+          refreshed++;
+        } catch (error) {
+          console.error(`Failed to refresh statistics of guild ${guild.id}:`, error);
+        }
+      }
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return refreshed;
+  }
+
+  private async refreshStats(guild: Guild): Promise<Guild> {
+    const stats = await this.computeStats(guild);
+    return this.pb.updateGuild(guild.id, { stats });
+  }
+
+  private async computeStats(guild: Guild): Promise<GuildStats> {
+    const memberIds = guild.members || [];
+    if (memberIds.length === 0) {
+      return { total_members: 0, active_members: 0, boss_kills: 0, accuracy_rate: 0 };
+    }
+
+    const activeSince = moment().subtract(ACTIVE_MEMBER_DAYS, 'days');
+    const users = await this.loadUsers(memberIds);
+    const activeMembers = users.filter(user =>
+      user.is_active && user.last_login && moment(user.last_login).isAfter(activeSince)
+    ).length;
+
+    const spawnEvents = await this.loadMemberSpawnEvents(memberIds);
+    const verified = spawnEvents.filter(event => event.verified).length;
+    // Only verified kills count, as on the leaderboards; the verified flag is set on legacy and new events alike
+    const kills = await this.pb.getSpawnEvents({ filter: { killed_by_guild: guild.id, verified: true }, perPage: 1 });
+
+    return {
+      total_members: memberIds.length,
+      active_members: activeMembers,
+      boss_kills: kills.totalItems,
+      accuracy_rate: spawnEvents.length > 0 ? Math.round((verified / spawnEvents.length) * 10000) / 100 : 0
+    };
+  }
+
+  private async saveGuild(id: string, data: any): Promise<Guild> {
+    const guild: Guild = await this.pb.updateGuild(id, data);
+    this.emitUpdate(guild);
+    return guild;
+  }
+
+  private emitUpdate(guild: Guild): void {
+    SocketUtils.emitToRooms([SocketUtils.guildRoom(guild.id)], 'guild:update', this.toPublicGuild(guild));
+  }
+
+  private async loadGuild(id: string): Promise<Guild | null> {
+    try {
+      return await this.pb.getGuild(id);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async loadJoinRequest(guildId: string, requestId: string): Promise<GuildJoinRequest | null> {
+    try {
+      const joinRequest: GuildJoinRequest = await this.pb.getGuildJoinRequest(requestId);
+      return joinRequest.guild_id === guildId ? joinRequest : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async loadUsers(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+
+    const result = await this.pb.getUsers({
+      filter: { id: { $in: ids } },
+      perPage: ids.length
+    });
+    return result.items;
+  }
+
+  private async loadMemberSpawnEvents(memberIds: string[]): Promise<SpawnEvent[]> {
+    const events: SpawnEvent[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getSpawnEvents({
+        page,
+        perPage: 500,
+        filter: { reported_by: { $in: memberIds } }
+      });
+      events.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return events;
+  }
+
+  private generateInviteCode(): string {
+    return crypto.randomBytes(5).toString('hex').toUpperCase();
+  }
+
+  private toPublicGuild(guild: Guild, userId?: string): Guild {
+    if (userId && GuildService.hasPermission(guild, userId, 'guild:manage_invites')) return guild;
+
+    const { invite_code, ...publicGuild } = guild;
+    return publicGuild;
+  }
+}
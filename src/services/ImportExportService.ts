@@ -0,0 +1,597 @@
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Boss,
+  BossSchedule,
+  CreateBossRequest,
+  CreateSpawnEventRequest,
+  SpawnEvent,
+  DataImportRequest,
+  DataImportResult,
+  DataImportRowError,
+  DataExportFile,
+  DataExportQueryParams,
+  DataFormat,
+  ApiResponse
+} from '@/types';
+import { CsvUtils } from '@/utils/csv';
+import { TimerUtils } from '@/utils/timer';
+import { ValidationUtils } from '@/utils/validation';
+import { BossService } from './BossService';
+import { ServerService } from './ServerService';
+import { SchedulerService } from './SchedulerService';
+
+// Rows accepted by a single import request
+const MAX_IMPORT_ROWS = 1000;
+
+const BOSS_COLUMNS = [
+  'id', 'name', 'level', 'location', 'server', 'difficulty', 'respawn_time', 'respawn_variance',
+  'respawn_window_min', 'respawn_window_max', 'respawn_anchor', 'schedule_type', 'schedule',
+  'post_maintenance_rule', 'description', 'tags', 'drops', 'requirements', 'last_spawn', 'next_spawn'
+];
+
+const SPAWN_COLUMNS = [
+  'id', 'boss_id', 'boss_name', 'server', 'spawn_time', 'kill_time', 'verified', 'verification_status',
+  'notes', 'participants', 'coordinates_x', 'coordinates_y', 'coordinates_z'
+];
+
+type ImportRow = Record<string, unknown>;
+type ImportedSpawnEvent = CreateSpawnEventRequest & { kill_time?: string; participants?: string[] };
+
+export class ImportExportService {
+  private pb: SupabaseClientWrapper;
+  private bossService: BossService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.bossService = new BossService();
+  }
+
+  /**
+   * Create bosses from CSV or JSON rows. Every row is validated on its own;
+   * valid rows are created and the rest are reported with their errors.
+   * A dry run only validates.
+   */
+  async importBosses(data: DataImportRequest, userId: string): Promise<ApiResponse<DataImportResult>> {
+    try {
+      const parsed = this.parseRows(data);
+      if (parsed.error) {
+        return { success: false, error: parsed.error };
+      }
+
+      const rows = parsed.rows;
+      const result = this.emptyResult(data, rows.length);
+      const existingNames = await this.loadBossNames(rows.map(row => data.server || this.text(row['server']) || ''));
+      const seenNames = new Set<string>();
+
+      for (let index = 0; index < rows.length; index++) {
+        const { boss, errors } = this.toBossRequest(rows[index] as ImportRow, data.server);
+
+        if (boss) {
+          const validation = ValidationUtils.validateBossData(boss);
+          errors.push(...validation.errors);
+
+          if (boss.server && !(await ServerService.serverExists(boss.server))) {
+            errors.push(`Server "${boss.server}" is not registered`);
+          }
+
+          const key = this.bossKey(boss.server, boss.name);
+          if (existingNames.has(key)) {
+            errors.push('A boss with this name already exists on this server');
+          } else if (seenNames.has(key)) {
+            errors.push('Duplicate boss name for this server in the import');
+          }
+          seenNames.add(key);
+        }
+
+        if (errors.length > 0 || !boss) {
+          result.errors.push({ row: index + 1, errors });
+          continue;
+        }
+
+        result.valid_rows++;
+        if (data.dry_run) continue;
+
+        const created = await this.bossService.createBoss(boss, userId);
+        if (created.success && created.data) {
+          result.imported++;
+          result.ids.push(created.data.id);
+        } else {
+          result.errors.push({ row: index + 1, errors: [created.error || 'Failed to create boss'] });
+        }
+      }
+
+      return {
+        success: true,
+        data: result,
+        message: data.dry_run
+          ? `Dry run: ${result.valid_rows} of ${result.total_rows} rows are valid`
+          : `Imported ${result.imported} of ${result.total_rows} bosses`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to import bosses'
+      };
+    }
+  }
+
+  /**
+   * Create historical spawn events. Rows reference their boss by `boss_id`, or
+   * by `boss_name` on the row's server when moving data between servers.
+   * Imported events are flagged as such and not counted towards the importing
+   * user's reputation, rankings or reporter bonuses.
+   */
+  async importSpawnEvents(data: DataImportRequest, userId: string): Promise<ApiResponse<DataImportResult>> {
+    try {
+      const parsed = this.parseRows(data);
+      if (parsed.error) {
+        return { success: false, error: parsed.error };
+      }
+
+      const rows = parsed.rows;
+      const result = this.emptyResult(data, rows.length);
+      const bossCache = new Map<string, Boss | null>();
+      const importedBosses = new Map<string, Boss>();
+      const seenSpawns: { bossId: string; time: number }[] = [];
+      const latestByBoss = new Map<string, SpawnEvent>();
+
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index] as ImportRow;
+        const { spawnEvent, verified, errors } = this.toSpawnEventRequest(row, data.server);
+
+        const boss = await this.resolveBoss(row, spawnEvent.server, bossCache);
+        if (boss) spawnEvent.boss_id = boss.id;
+
+        const validation = ValidationUtils.validateSpawnEventData(spawnEvent, { allowHistorical: true });
+        errors.push(...validation.errors);
+
+        const bossName = this.text(row['boss_name']);
+        if (!boss && (spawnEvent.boss_id || bossName)) {
+          errors.push(`Boss "${spawnEvent.boss_id || bossName}" not found on server "${spawnEvent.server}"`);
+        }
+
+        const spawnTime = moment(spawnEvent.spawn_time);
+        if (spawnTime.isValid() && spawnTime.isAfter(moment())) {
+          errors.push('Imported spawns cannot be in the future');
+        }
+        if (spawnEvent.kill_time && !moment(spawnEvent.kill_time).isValid()) {
+          errors.push('Kill time must be a valid date');
+        } else if (spawnEvent.kill_time && moment(spawnEvent.kill_time).isBefore(spawnTime)) {
+          errors.push('Kill time cannot be before the spawn time');
+        }
+
+        if (boss && errors.length === 0) {
+          if (await this.isDuplicateSpawn(boss.id, spawnEvent.spawn_time, seenSpawns)) {
+            errors.push('A spawn event for this boss already exists within 5 minutes of this time');
+          }
+          seenSpawns.push({ bossId: boss.id, time: spawnTime.valueOf() });
+        }
+
+        if (errors.length > 0 || !boss) {
+          result.errors.push({ row: index + 1, errors });
+          continue;
+        }
+
+        result.valid_rows++;
+        if (data.dry_run) continue;
+
+        try {
+          const created: SpawnEvent = await this.pb.createSpawnEvent({
+            ...spawnEvent,
+            notes: spawnEvent.notes ? ValidationUtils.sanitizeString(spawnEvent.notes) : undefined,
+            reported_by: userId,
+            imported: true,
+            verified,
+            verification_status: verified ? 'verified' : 'pending',
+            verified_at: verified ? spawnEvent.spawn_time : undefined,
+            confirmation_weight: 0,
+            dispute_weight: 0,
+            confirmations_count: 0,
+            disputes_count: 0
+          });
+          result.imported++;
+          result.ids.push(created.id);
+
+          importedBosses.set(boss.id, boss);
+          const latest = latestByBoss.get(boss.id);
+          if (!latest || moment(created.spawn_time).isAfter(moment(latest.spawn_time))) {
+            latestByBoss.set(boss.id, created);
+          }
+        } catch (error: any) {
+          result.errors.push({ row: index + 1, errors: [error?.message || 'Failed to create spawn event'] });
+        }
+      }
+
+      await this.refreshBossTimers(latestByBoss, importedBosses);
+
+      return {
+        success: true,
+        data: result,
+        message: data.dry_run
+          ? `Dry run: ${result.valid_rows} of ${result.total_rows} rows are valid`
+          : `Imported ${result.imported} of ${result.total_rows} spawn events`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to import spawn events'
+      };
+    }
+  }
+
+  async exportBosses(queryParams: DataExportQueryParams): Promise<ApiResponse<DataExportFile>> {
+    try {
+      const filter: any = {};
+      if (queryParams.server) filter.server = queryParams.server;
+
+      const bosses: Boss[] = await this.loadAll('bosses', filter, 'created');
+      const records = bosses.map(boss => {
+        const record: Record<string, unknown> = {};
+        BOSS_COLUMNS.forEach(column => {
+          record[column] = (boss as any)[column];
+        });
+        return record;
+      });
+
+      return {
+        success: true,
+        data: this.buildExport('bosses', queryParams.format || 'json', BOSS_COLUMNS, records)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to export bosses'
+      };
+    }
+  }
+
+  /**
+   * Spawn history with the boss name on every row, so it can be imported on
+   * another server or deployment where the boss ids differ
+   */
+  async exportSpawnEvents(queryParams: DataExportQueryParams): Promise<ApiResponse<DataExportFile>> {
+    try {
+      const filter: any = {};
+      if (queryParams.server) filter.server = queryParams.server;
+      if (queryParams.boss_id) filter.boss_id = queryParams.boss_id;
+      if (queryParams.date_from) filter.spawn_time = { '>=': queryParams.date_from };
+
+      let spawnEvents: SpawnEvent[] = await this.loadAll('spawn_events', filter, 'spawn_time');
+      if (queryParams.date_to) {
+        const dateTo = moment(queryParams.date_to);
+        spawnEvents = spawnEvents.filter(spawnEvent => !moment(spawnEvent.spawn_time).isAfter(dateTo));
+      }
+
+      const bossIds = Array.from(new Set(spawnEvents.map(spawnEvent => spawnEvent.boss_id)));
+      const bossNames = new Map<string, string>();
+      for (let i = 0; i < bossIds.length; i += 200) {
+        const chunk = bossIds.slice(i, i + 200);
+        const bosses = await this.pb.getBosses({ filter: { id: chunk }, perPage: chunk.length });
+        bosses.items.forEach((boss: Boss) => bossNames.set(boss.id, boss.name));
+      }
+
+      const records = spawnEvents.map(spawnEvent => ({
+        id: spawnEvent.id,
+        boss_id: spawnEvent.boss_id,
+        boss_name: bossNames.get(spawnEvent.boss_id),
+        server: spawnEvent.server,
+        spawn_time: spawnEvent.spawn_time,
+        kill_time: spawnEvent.kill_time,
+        verified: spawnEvent.verified,
+        verification_status: spawnEvent.verification_status,
+        notes: spawnEvent.notes,
+        participants: spawnEvent.participants,
+        coordinates_x: spawnEvent.coordinates?.x,
+        coordinates_y: spawnEvent.coordinates?.y,
+        coordinates_z: spawnEvent.coordinates?.z
+      }));
+
+      return {
+        success: true,
+        data: this.buildExport('spawn-events', queryParams.format || 'json', SPAWN_COLUMNS, records)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to export spawn events'
+      };
+    }
+  }
+
+  private parseRows(data: DataImportRequest): { rows: ImportRow[]; error?: string } {
+    let rows: unknown;
+
+    try {
+      if (data.format === 'csv') {
+        rows = typeof data.data === 'string' ? CsvUtils.parse(data.data) : null;
+      } else {
+        rows = typeof data.data === 'string' ? JSON.parse(data.data) : data.data;
+      }
+    } catch (error) {
+      return { rows: [], error: data.format === 'csv' ? 'Import data is not valid CSV' : 'Import data is not valid JSON' };
+    }
+
+    if (!Array.isArray(rows)) {
+      return { rows: [], error: data.format === 'csv' ? 'CSV imports need the file content as text' : 'JSON imports need an array of rows' };
+    }
+    if (rows.length === 0) {
+      return { rows: [], error: 'Import data contains no rows' };
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return { rows: [], error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` };
+    }
+
+    return { rows: rows.map(row => (row && typeof row === 'object' && !Array.isArray(row) ? row as ImportRow : {})) };
+  }
+
+  private toBossRequest(row: ImportRow, serverOverride?: string): { boss?: CreateBossRequest; errors: string[] } {
+    const errors: string[] = [];
+    const number = (field: string): number | undefined => {
+      const value = this.number(row[field]);
+      if (value === null) errors.push(`${field} must be a number`);
+      return value ?? undefined;
+    };
+
+    const boss: any = {
+      name: ValidationUtils.sanitizeString(this.text(row['name']) || ''),
+      level: number('level'),
+      location: ValidationUtils.sanitizeString(this.text(row['location']) || ''),
+      server: serverOverride || this.text(row['server']) || '',
+      difficulty: this.text(row['difficulty']),
+      respawn_time: number('respawn_time')
+    };
+
+    const optionalNumbers = ['respawn_variance', 'respawn_window_min', 'respawn_window_max'];
+    optionalNumbers.forEach(field => {
+      const value = number(field);
+      if (value !== undefined) boss[field] = value;
+    });
+
+    const description = this.text(row['description']);
+    if (description) boss.description = ValidationUtils.sanitizeString(description);
+
+    ['tags', 'drops', 'requirements'].forEach(field => {
+      const list = this.list(row[field]);
+      if (list) boss[field] = list;
+    });
+
+    const respawnAnchor = this.text(row['respawn_anchor']);
+    if (respawnAnchor) {
+      if (!['spawn_time', 'kill_time'].includes(respawnAnchor)) errors.push('respawn_anchor must be spawn_time or kill_time');
+      boss.respawn_anchor = respawnAnchor;
+    }
+
+    const postMaintenanceRule = this.text(row['post_maintenance_rule']);
+    if (postMaintenanceRule) {
+      if (!['keep', 'spawn_at_end', 'restart_timer'].includes(postMaintenanceRule)) {
+        errors.push('post_maintenance_rule must be keep, spawn_at_end or restart_timer');
+      }
+      boss.post_maintenance_rule = postMaintenanceRule;
+    }
+
+    const scheduleType = this.text(row['schedule_type']);
+    if (scheduleType) {
+      if (!['respawn', 'fixed'].includes(scheduleType)) errors.push('schedule_type must be respawn or fixed');
+      boss.schedule_type = scheduleType;
+    }
+
+    const schedule = this.object(row['schedule']);
+    if (schedule === null) {
+      errors.push('schedule must be a JSON object');
+    } else if (schedule) {
+      boss.schedule = schedule as BossSchedule;
+    }
+
+    if (boss.difficulty && !ValidationUtils.validateDifficulty(boss.difficulty)) {
+      errors.push('difficulty must be easy, medium, hard, extreme or legendary');
+    }
+
+    // Fixed-schedule bosses get their average gap between spawns as respawn_time
+    if (boss.schedule_type === 'fixed' && boss.schedule && boss.respawn_time === undefined) {
+      const scheduleErrors = ValidationUtils.validateBossSchedule(boss.schedule);
+      if (scheduleErrors.length > 0) {
+        errors.push(...scheduleErrors);
+        return { errors };
+      }
+      boss.respawn_time = TimerUtils.getScheduleInterval(boss.schedule);
+    }
+
+    if (boss.level === undefined) errors.push('level is required');
+    if (boss.respawn_time === undefined) errors.push('respawn_time is required');
+
+    return { boss: boss as CreateBossRequest, errors };
+  }
+
+  private toSpawnEventRequest(row: ImportRow, serverOverride?: string): { spawnEvent: ImportedSpawnEvent; verified: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    const spawnEvent: any = {
+      boss_id: this.text(row['boss_id']) || '',
+      spawn_time: this.text(row['spawn_time']) || '',
+      server: serverOverride || this.text(row['server']) || ''
+    };
+
+    const notes = this.text(row['notes']);
+    if (notes) spawnEvent.notes = notes;
+
+    const killTime = this.text(row['kill_time']);
+    if (killTime) spawnEvent.kill_time = killTime;
+
+    const participants = this.list(row['participants']);
+    if (participants) spawnEvent.participants = participants;
+
+    // Coordinates come as an object in JSON and as coordinates_x/_y/_z columns in CSV
+    const coordinates = this.object(row['coordinates']);
+    const x = this.number(row['coordinates_x']);
+    const y = this.number(row['coordinates_y']);
+    const z = this.number(row['coordinates_z']);
+    if (coordinates === null || x === null || y === null || z === null) {
+      errors.push('coordinates must be numbers');
+    } else if (coordinates) {
+      spawnEvent.coordinates = coordinates;
+    } else if (x !== undefined || y !== undefined) {
+      spawnEvent.coordinates = z === undefined ? { x, y } : { x, y, z };
+    }
+
+    // Imported history counts as verified unless the row says otherwise
+    const verified = this.boolean(row['verified']);
+    if (verified === null) errors.push('verified must be true or false');
+
+    return { spawnEvent, verified: verified ?? true, errors };
+  }
+
+  private async resolveBoss(row: ImportRow, server: string, cache: Map<string, Boss | null>): Promise<Boss | null> {
+    const bossId = this.text(row['boss_id']);
+    if (bossId) {
+      if (!cache.has(bossId)) {
+        try {
+          cache.set(bossId, await this.pb.getBoss(bossId));
+        } catch (error) {
+          cache.set(bossId, null);
+        }
+      }
+      const boss = cache.get(bossId);
+      if (boss && boss.server === server) return boss;
+    }
+
+    const bossName = this.text(row['boss_name']);
+    if (!bossName || !server) return null;
+
+    const key = this.bossKey(server, bossName);
+    if (!cache.has(key)) {
+      const result = await this.pb.getBosses({ filter: { server, name: bossName }, perPage: 1 });
+      cache.set(key, result.items[0] || null);
+    }
+    return cache.get(key) || null;
+  }
+
+  private async isDuplicateSpawn(bossId: string, spawnTime: string, seen: { bossId: string; time: number }[]): Promise<boolean> {
+    const time = moment(spawnTime).valueOf();
+    if (seen.some(spawn => spawn.bossId === bossId && Math.abs(spawn.time - time) < 5 * 60000)) return true;
+
+    const existing = await this.pb.getSpawnEvents({
+      filter: {
+        boss_id: bossId,
+        spawn_time: { '>=': moment(time).subtract(5, 'minutes').toISOString() }
+      },
+      sort: 'spawn_time',
+      perPage: 1
+    });
+    const nearest: SpawnEvent | undefined = existing.items[0];
+    return !!nearest && moment(nearest.spawn_time).diff(moment(time), 'minutes', true) < 5;
+  }
+
+  /**
+   * Move bosses whose newest known spawn came from the import onto it
+   */
+  private async refreshBossTimers(latestByBoss: Map<string, SpawnEvent>, bosses: Map<string, Boss>): Promise<void> {
+    for (const [bossId, spawnEvent] of latestByBoss) {
+      const boss = bosses.get(bossId);
+      if (!boss || TimerUtils.isFixedSchedule(boss)) continue;
+      if (boss.last_spawn && !moment(spawnEvent.spawn_time).isAfter(moment(boss.last_spawn))) continue;
+
+      const updatedBoss = await this.pb.updateBoss(bossId, {
+        last_spawn: spawnEvent.spawn_time,
+        next_spawn: TimerUtils.calculateNextSpawn(boss, spawnEvent)
+      });
+      SchedulerService.getInstance().trackBoss(updatedBoss);
+    }
+  }
+
+  private buildExport(name: string, format: DataFormat, columns: string[], records: Record<string, unknown>[]): DataExportFile {
+    const filename = `${name}-${moment().format('YYYYMMDD-HHmmss')}.${format}`;
+
+    if (format === 'csv') {
+      return { filename, content_type: 'text/csv; charset=utf-8', content: CsvUtils.stringify(columns, records), rows: records.length };
+    }
+
+    // Drop empty fields so JSON exports import back unchanged
+    const rows = records.map(record => Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined && value !== null)
+    ));
+    return { filename, content_type: 'application/json; charset=utf-8', content: JSON.stringify(rows, null, 2), rows: records.length };
+  }
+
+  private async loadBossNames(servers: string[]): Promise<Set<string>> {
+    const names = new Set<string>();
+    for (const server of new Set(servers.filter(server => server.length > 0))) {
+      const bosses: Boss[] = await this.loadAll('bosses', { server }, 'created');
+      bosses.forEach(boss => names.add(this.bossKey(server, boss.name)));
+    }
+    return names;
+  }
+
+  private async loadAll(collection: 'bosses' | 'spawn_events', filter: any, sort: string): Promise<any[]> {
+    const items: any[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const query = { page, perPage: 500, filter, sort };
+      const result = collection === 'bosses' ? await this.pb.getBosses(query) : await this.pb.getSpawnEvents(query);
+      items.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return items;
+  }
+
+  private emptyResult(data: DataImportRequest, totalRows: number): DataImportResult {
+    return {
+      dry_run: !!data.dry_run,
+      total_rows: totalRows,
+      valid_rows: 0,
+      imported: 0,
+      ids: [],
+      errors: [] as DataImportRowError[]
+    };
+  }
+
+  private bossKey(server: string, name: string): string {
+    return `${server}:${name.trim().toLowerCase()}`;
+  }
+
+  // Cell readers: CSV cells are strings, JSON rows carry native values.
+  // Empty cells read as undefined, unreadable ones as null.
+
+  private text(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+  }
+
+  private number(value: unknown): number | null | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    return Number.isFinite(number) ? number : null;
+  }
+
+  private boolean(value: unknown): boolean | null | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'boolean') return value;
+    const text = String(value).trim().toLowerCase();
+    if (['true', '1', 'yes'].includes(text)) return true;
+    if (['false', '0', 'no'].includes(text)) return false;
+    return null;
+  }
+
+  private list(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) return value.map(item => String(item));
+    const text = this.text(value);
+    return text ? CsvUtils.parseList(text) : undefined;
+  }
+
+  private object(value: unknown): Record<string, unknown> | null | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>;
+
+    try {
+      const parsed = JSON.parse(String(value));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  SpawnEvent,
+  User,
+  Guild,
+  SpawnAttendance,
+  LeaderboardCategory,
+  LeaderboardPeriod,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  LeaderboardSnapshotData,
+  LeaderboardQueryParams,
+  ApiResponse
+} from '@/types';
+import { LeaderboardUtils, LEADERBOARD_PERIODS, PeriodRange } from '@/utils/leaderboard';
+
+const LEADERBOARD_CATEGORIES: LeaderboardCategory[] = ['reporters', 'guilds', 'contributors'];
+
+// Ids per `in` filter when resolving names and attendance
+const LOOKUP_CHUNK_SIZE = 200;
+
+interface NameLookup {
+  usernames: Map<string, string>; // user id -> username
+  attendees: Map<string, string[]>; // spawn event id -> attending user ids
+  guildNames: Map<string, string>; // guild id -> name
+}
+
+/**
+ * Leaderboards are served from precomputed snapshots, one per category,
+ * period and server (plus one across all servers). The scheduler rewrites
+ * them every config.leaderboards.refreshCron; a snapshot that is missing or
+ * belongs to a period that has ended is built on the first request and
+ * stored, so later requests read it instead of scanning spawn events again.
+ */
+export class LeaderboardService {
+  // Snapshots being built on demand, so concurrent requests share one build
+  private static building = new Map<string, Promise<LeaderboardSnapshot>>();
+
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  async getLeaderboard(category: LeaderboardCategory, queryParams: LeaderboardQueryParams): Promise<ApiResponse<LeaderboardSnapshotData>> {
+    try {
+      const { period = 'all_time', server, limit = 50 } = queryParams;
+
+      if (!LEADERBOARD_CATEGORIES.includes(category)) {
+        return {
+          success: false,
+          error: 'Invalid leaderboard category'
+        };
+      }
+
+      if (!LEADERBOARD_PERIODS.includes(period)) {
+        return {
+          success: false,
+          error: 'Invalid leaderboard period'
+        };
+      }
+
+      const range = LeaderboardUtils.getPeriodRange(period);
+      const stored = await this.findSnapshot(category, period, server || null);
+      let snapshot: LeaderboardSnapshotData;
+
+      if (stored && this.coversRange(stored, range)) {
+        snapshot = stored;
+      } else {
+        snapshot = await this.buildOnDemand(category, period, server || null, range, stored);
+      }
+
+      return {
+        success: true,
+        data: {
+          ...snapshot,
+          entries: snapshot.entries.slice(0, Math.min(limit, config.leaderboards.size))
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch leaderboard'
+      };
+    }
+  }
+
+  /**
+   * Recompute every snapshot. Spawn events are loaded once per period and
+   * split by server in memory.
+   */
+  async refreshAll(): Promise<number> {
+    let refreshed = 0;
+
+    for (const period of LEADERBOARD_PERIODS) {
+      const range = LeaderboardUtils.getPeriodRange(period);
+      const spawnEvents = await this.loadSpawnEvents(range);
+      const lookup = await this.loadNames(spawnEvents);
+      const servers = Array.from(new Set(spawnEvents.map(event => event.server).filter(Boolean)));
+
+      for (const server of [null, ...servers]) {
+        const serverEvents = server ? spawnEvents.filter(event => event.server === server) : spawnEvents;
+
+        for (const category of LEADERBOARD_CATEGORIES) {
+          const existing = await this.findSnapshot(category, period, server);
+          await this.saveSnapshot(category, period, server, range, this.buildEntries(category, serverEvents, lookup), existing);
+          refreshed++;
+        }
+      }
+    }
+
+    return refreshed;
+  }
+
+  private buildOnDemand(
+    category: LeaderboardCategory,
+    period: LeaderboardPeriod,
+    server: string | null,
+    range: PeriodRange,
+    existing: LeaderboardSnapshot | null
+  ): Promise<LeaderboardSnapshot> {
+    const key = `${category}:${period}:${server ?? ''}`;
+    const pending = LeaderboardService.building.get(key);
+    if (pending) return pending;
+
+    const build = (async () => {
+      const spawnEvents = await this.loadSpawnEvents(range, server || undefined);
+      const lookup = await this.loadNames(spawnEvents);
+      return this.saveSnapshot(category, period, server, range, this.buildEntries(category, spawnEvents, lookup), existing);
+    })().finally(() => LeaderboardService.building.delete(key));
+
+    LeaderboardService.building.set(key, build);
+    return build;
+  }
+
+  private buildEntries(category: LeaderboardCategory, spawnEvents: SpawnEvent[], lookup: NameLookup): LeaderboardEntry[] {
+    const size = config.leaderboards.size;
+
+    switch (category) {
+      case 'reporters':
+        return LeaderboardUtils.withRanks(
+          LeaderboardUtils.rankReporters(spawnEvents)
+            .filter(entry => lookup.usernames.has(entry.user_id))
+            .map(entry => ({ ...entry, username: lookup.usernames.get(entry.user_id) as string })),
+          size
+        );
+      case 'guilds':
+        return LeaderboardUtils.withRanks(
+          LeaderboardUtils.rankGuilds(spawnEvents)
+            .filter(entry => lookup.guildNames.has(entry.guild_id))
+            .map(entry => ({ ...entry, guild_name: lookup.guildNames.get(entry.guild_id) as string })),
+          size
+        );
+      default:
+        return LeaderboardUtils.withRanks(
+          LeaderboardUtils.rankContributors(spawnEvents, lookup.attendees)
+            .filter(entry => lookup.usernames.has(entry.user_id))
+            .map(entry => ({ ...entry, username: lookup.usernames.get(entry.user_id) as string })),
+          size
+        );
+    }
+  }
+
+  private async findSnapshot(
+    category: LeaderboardCategory,
+    period: LeaderboardPeriod,
+    server: string | null
+  ): Promise<LeaderboardSnapshot | null> {
+    const result = await this.pb.getLeaderboardSnapshots({
+      filter: { category, period, server: server ?? { $is: null } },
+      sort: '-computed_at',
+      perPage: 1
+    });
+    return result.items[0] || null;
+  }
+
+  /**
+   * A weekly, monthly or season snapshot only counts while its period is the current one
+   */
+  private coversRange(snapshot: LeaderboardSnapshot, range: PeriodRange): boolean {
+    if (!range.start) return true;
+    return !!snapshot.period_start && moment(snapshot.period_start).isSame(range.start);
+  }
+
+  private async saveSnapshot(
+    category: LeaderboardCategory,
+    period: LeaderboardPeriod,
+    server: string | null,
+    range: PeriodRange,
+    entries: LeaderboardEntry[],
+    existing: LeaderboardSnapshot | null
+  ): Promise<LeaderboardSnapshot> {
+    const snapshotData = this.buildSnapshotData(category, period, server, range, entries);
+
+    return existing
+      ? this.pb.updateLeaderboardSnapshot(existing.id, snapshotData)
+      : this.pb.createLeaderboardSnapshot(snapshotData);
+  }
+
+  private buildSnapshotData(
+    category: LeaderboardCategory,
+    period: LeaderboardPeriod,
+    server: string | null,
+    range: PeriodRange,
+    entries: LeaderboardEntry[]
+  ): LeaderboardSnapshotData {
+    return {
+      category,
+      period,
+      server,
+      period_start: range.start ? range.start.toISOString() : null,
+      period_end: range.end.toISOString(),
+      entries,
+      computed_at: new Date().toISOString()
+    };
+  }
+
+  private async loadSpawnEvents(range: PeriodRange, server?: string): Promise<SpawnEvent[]> {
+    const filter: any = {};
+    if (range.start) filter.spawn_time = { '>=': range.start.toISOString() };
+    if (server) filter.server = server;
+
+    const spawnEvents: SpawnEvent[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getSpawnEvents({
+        page,
+        perPage: 1000,
+        filter,
+        sort: 'spawn_time'
+      });
+      spawnEvents.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return spawnEvents;
+  }
+
+  /**
+   * Resolve the reporters, attendees and guilds of the events to names.
+   * Deleted users and guilds are left out of the lookup and so off the boards.
+   * Only attendees with a user id (member_id) can be ranked.
+   */
+  private async loadNames(spawnEvents: SpawnEvent[]): Promise<NameLookup> {
+    const userIds = new Set<string>();
+    const guildIds = new Set<string>();
+
+    for (const event of spawnEvents) {
+      if (event.reported_by && event.reported_by !== 'system') userIds.add(event.reported_by);
+      if (event.kill_reported_by) userIds.add(event.kill_reported_by);
+      if (event.killed_by_guild) guildIds.add(event.killed_by_guild);
+    }
+
+    const attendees = new Map<string, string[]>();
+    const attendance = await this.loadAttendance(spawnEvents.filter(event => event.kill_time).map(event => event.id));
+    for (const row of attendance) {
+      if (!row.member_id) continue;
+      attendees.set(row.spawn_event_id, [...(attendees.get(row.spawn_event_id) || []), row.member_id]);
+      userIds.add(row.member_id);
+    }
+
+    const users = await this.loadInChunks<User>(
+      Array.from(userIds),
+      chunk => this.pb.getUsers({ filter: { id: chunk }, perPage: chunk.length })
+    );
+    const guilds = await this.loadInChunks<Guild>(
+      Array.from(guildIds),
+      chunk => this.pb.getGuilds({ filter: { id: chunk }, perPage: chunk.length })
+    );
+
+    return {
+      usernames: new Map(users.map(user => [user.id, user.username])),
+      attendees,
+      guildNames: new Map(guilds.map(guild => [guild.id, guild.name]))
+    };
+  }
+
+  private async loadAttendance(spawnEventIds: string[]): Promise<SpawnAttendance[]> {
+    const rows: SpawnAttendance[] = [];
+    for (let i = 0; i < spawnEventIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = spawnEventIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const result = await this.pb.getSpawnAttendanceRecords({
+          page,
+          perPage: 1000,
+          filter: { spawn_event_id: chunk }
+        });
+        rows.push(...result.items);
+        totalPages = result.totalPages;
+        page++;
+      } while (page <= totalPages);
+    }
+    return rows;
+  }
+
+  private async loadInChunks<T>(values: string[], load: (chunk: string[]) => Promise<{ items: T[] }>): Promise<T[]> {
+    const items: T[] = [];
+    for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+      const result = await load(values.slice(i, i + LOOKUP_CHUNK_SIZE));
+      items.push(...result.items);
+    }
+    return items;
+  }
+}
@@ -0,0 +1,56 @@
+import config from '@/config';
+import { NotificationChannel, NotificationEvent, User } from '@/types';
+import { SocketUtils } from '@/utils/socket';
+
+/**
+ * In-app delivery: emits notification:new into the recipient's user room.
+ * Fails when the recipient has no socket connected, so it is not counted as delivered.
+ */
+export class SocketNotificationChannel implements NotificationChannel {
+  name = 'socket';
+
+  isEnabledFor(user: User): boolean {
+    return user.is_active !== false;
+  }
+
+  async send(notification: NotificationEvent, user: User): Promise<void> {
+    if (!SocketUtils.isAttached()) {
+      throw new Error('Socket.IO server is not attached');
+    }
+
+    const room = SocketUtils.userRoom(user.id);
+    if ((await SocketUtils.countInRoom(room)) === 0) {
+      throw new Error('Recipient has no connected socket');
+    }
+
+    SocketUtils.emitToRooms([room], 'notification:new', notification);
+  }
+}
+
+/**
+ * Push delivery through an external push gateway (e.g. a Firebase relay).
+ * Disabled unless PUSH_WEBHOOK_URL is configured.
+ */
+export class PushNotificationChannel implements NotificationChannel {
+  name = 'push';
+
+  isEnabledFor(user: User): boolean {
+    return Boolean(config.notifications.pushWebhookUrl) && user.notification_settings?.push_notifications === true;
+  }
+
+  async send(notification: NotificationEvent, user: User): Promise<void> {
+    const response = await fetch(config.notifications.pushWebhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        user_id: user.id,
+        username: user.username,
+        notification
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Push gateway responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  Boss,
+  User,
+  NotificationEvent,
+  NotificationChannel,
+  NotificationQueryParams,
+  NotificationTiming,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { NotificationUtils } from '@/utils/notification';
+import { ValidationUtils } from '@/utils/validation';
+import { SocketNotificationChannel, PushNotificationChannel } from './NotificationChannels';
+
+export class NotificationService {
+  private static channels: NotificationChannel[] = [
+    new SocketNotificationChannel(),
+    new PushNotificationChannel()
+  ];
+
+  // Set while dispatchDue runs so a slow run is not overlapped by the next one
+  private static dispatching = false;
+
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  /**
+   * Register an additional delivery channel (replaces a channel with the same name)
+   */
+  static registerChannel(channel: NotificationChannel): void {
+    this.channels = [...this.channels.filter(existing => existing.name !== channel.name), channel];
+  }
+
+  static getChannels(): NotificationChannel[] {
+    return [...this.channels];
+  }
+
+  async getNotifications(userId: string, queryParams: NotificationQueryParams): Promise<ApiResponse<NotificationEvent[]>> {
+    try {
+      const { page = 1, limit = 50, sent, type } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = { user_id: userId };
+      if (sent !== undefined) filter.sent = sent;
+      if (type) filter.type = type;
+
+      const result = await this.pb.getNotifications({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-scheduled_for'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch notifications'
+      };
+    }
+  }
+
+  /**
+   * Turn every subscriber's notification_timing entries into queued spawn alerts
+   * for the boss's current next_spawn. Pending alerts for an outdated prediction are dropped.
+   */
+  async scheduleSpawnAlerts(boss: Boss): Promise<number> {
+    if (!boss.next_spawn || !moment(boss.next_spawn).isAfter(moment())) return 0;
+
+    const spawnTime = moment(boss.next_spawn);
+    const pending = await this.pb.getNotifications({
+      filter: { boss_id: boss.id, type: 'spawn_alert', sent: false },
+      perPage: 1000
+    });
+
+    const queuedKeys = new Set<string>();
+    for (const notification of pending.items as NotificationEvent[]) {
+      if (notification.spawn_time && spawnTime.isSame(moment(notification.spawn_time))) {
+        queuedKeys.add(`${notification.user_id}:${notification.timing_key}`);
+      } else {
+        await this.pb.deleteNotification(notification.id);
+      }
+    }
+
+    const subscribers = await this.loadSubscribers(boss.id);
+    let created = 0;
+
+    for (const user of subscribers) {
+      const timings: NotificationTiming[] = user.notification_settings?.notification_timing || [];
+
+      for (const timing of timings) {
+        const timingKey = `${timing.type}_${timing.value}`;
+        if (queuedKeys.has(`${user.id}:${timingKey}`)) continue;
+
+        const scheduledFor = spawnTime.clone().subtract(timing.value, timing.type);
+        if (scheduledFor.isBefore(moment())) continue;
+
+        await this.pb.createNotification({
+          user_id: user.id,
+          boss_id: boss.id,
+          type: 'spawn_alert',
+          message: NotificationUtils.formatSpawnAlertMessage(boss, timing),
+          scheduled_for: scheduledFor.toISOString(),
+          spawn_time: spawnTime.toISOString(),
+          timing_key: timingKey,
+          sent: false,
+          attempts: 0,
+          next_attempt_at: scheduledFor.toISOString()
+        });
+        queuedKeys.add(`${user.id}:${timingKey}`);
+        created++;
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Deliver every notification whose scheduled time (or retry time) has passed.
+   * Skipped while a previous run is still going.
+   */
+  async dispatchDue(): Promise<number> {
+    if (NotificationService.dispatching) return 0;
+    NotificationService.dispatching = true;
+
+    try {
+      const due = await this.pb.getNotifications({
+        filter: {
+          sent: false,
+          next_attempt_at: { '<=': new Date().toISOString() },
+          attempts: { '<': config.notifications.maxAttempts }
+        },
+        sort: 'next_attempt_at',
+        perPage: 100
+      });
+
+      let delivered = 0;
+      for (const notification of due.items as NotificationEvent[]) {
+        if (await this.deliver(notification)) delivered++;
+      }
+
+      return delivered;
+    } finally {
+      NotificationService.dispatching = false;
+    }
+  }
+
+  /**
+   * Send one notification through every enabled channel. It counts as sent once
+   * at least one channel succeeds; otherwise it is retried with exponential backoff.
+   */
+  async deliver(notification: NotificationEvent): Promise<boolean> {
+    const attempts = (notification.attempts || 0) + 1;
+
+    // An alert for a spawn that already happened is of no use anymore, so stop retrying
+    if (notification.spawn_time && !moment(notification.spawn_time).isAfter(moment())) {
+      await this.pb.updateNotification(notification.id, {
+        attempts: config.notifications.maxAttempts,
+        last_error: 'Spawn time has passed'
+      });
+      return false;
+    }
+
+    try {
+      const user: User = await this.pb.getUser(notification.user_id);
+      const channels = NotificationService.channels.filter(channel => channel.isEnabledFor(user, notification));
+
+      if (channels.length === 0) {
+        // Nothing can ever deliver this one, so stop retrying
+        await this.pb.updateNotification(notification.id, {
+          attempts: config.notifications.maxAttempts,
+          last_error: 'No delivery channel enabled for user'
+        });
+        return false;
+      }
+
+      const deliveredChannels: string[] = [];
+      const errors: string[] = [];
+
+      for (const channel of channels) {
+        try {
+          await channel.send(notification, user);
+          deliveredChannels.push(channel.name);
+        } catch (error: any) {
+          errors.push(`${channel.name}: ${error?.message || 'delivery failed'}`);
+        }
+      }
+
+      if (deliveredChannels.length > 0) {
+        await this.pb.updateNotification(notification.id, {
+          sent: true,
+          sent_at: new Date().toISOString(),
+          attempts,
+          channels: deliveredChannels,
+          last_error: errors.length > 0 ? errors.join('; ') : null
+        });
+        return true;
+      }
+
+      await this.scheduleRetry(notification.id, attempts, errors.join('; '));
+      return false;
+    } catch (error: any) {
+      await this.scheduleRetry(notification.id, attempts, error?.message || 'Failed to deliver notification');
+      return false;
+    }
+  }
+
+  private async scheduleRetry(id: string, attempts: number, lastError: string): Promise<void> {
+    const delaySeconds = config.notifications.retryDelaySeconds * Math.pow(2, attempts - 1);
+
+    await this.pb.updateNotification(id, {
+      attempts,
+      last_error: lastError,
+      next_attempt_at: moment().add(delaySeconds, 'seconds').toISOString()
+    });
+  }
+
+  private async loadSubscribers(bossId: string): Promise<User[]> {
+    const subscribers: User[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getUsers({
+        page,
+        perPage: 500,
+        filter: {
+          favorite_bosses: { $contains: [bossId] },
+          is_active: true
+        }
+      });
+      subscribers.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return subscribers;
+  }
+}
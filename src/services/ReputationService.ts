@@ -0,0 +1,101 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import { User, UserStats, UserStatsIncrements, UserReputation, TrustPrivilege, ApiResponse } from '@/types';
+import { ReputationUtils, ReportState } from '@/utils/reputation';
+import { PermissionUtils } from '@/utils/permissions';
+
+/**
+ * Keeps each reporter's report stats and trust tier up to date. Stats are
+ * adjusted incrementally as reports are created, resolved or deleted instead
+ * of being recounted from spawn_events.
+ */
+export class ReputationService {
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  async getReputation(userId: string): Promise<ApiResponse<UserReputation>> {
+    try {
+      let user: User;
+      try {
+        user = await this.pb.getUser(userId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toReputation(user)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to get user reputation'
+      };
+    }
+  }
+
+  /**
+   * Earned through the trust tier, or granted outright by the user's role
+   */
+  async hasPrivilege(userId: string, privilege: TrustPrivilege): Promise<boolean> {
+    try {
+      const user: User = await this.pb.getUser(userId);
+      return ReputationUtils.hasPrivilege(user?.stats, privilege) ||
+        PermissionUtils.hasPermission(user, PermissionUtils.privilegePermission(privilege));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Record a report moving between verification states (null = created / deleted)
+   */
+  async recordReportChange(reporterId: string, from: ReportState, to: ReportState): Promise<void> {
+    if (from === to) return;
+    await this.updateStats(reporterId, ReputationUtils.reportChangeIncrements(from, to));
+  }
+
+  async recordDisputeReceived(reporterId: string): Promise<void> {
+    await this.updateStats(reporterId, { disputes_received: 1 });
+  }
+
+  /**
+   * The counters change in one database statement so concurrent updates are not
+   * lost; the trust fields derived from them are refreshed afterwards
+   */
+  private async updateStats(userId: string, increments: UserStatsIncrements): Promise<void> {
+    // System-generated events have no user behind them
+    if (!userId || userId === 'system') return;
+
+    try {
+      const stats: UserStats | null = await this.pb.incrementUserStats(userId, increments);
+      if (stats) await this.pb.mergeUserStats(userId, ReputationUtils.getTrustFields(stats));
+    } catch (error) {
+      console.error(`Failed to update reputation for user ${userId}:`, error);
+    }
+  }
+
+  private toReputation(user: User): UserReputation {
+    const stats = user.stats || ({} as UserStats);
+    const trustScore = stats.trust_score ?? ReputationUtils.calculateTrustScore(stats);
+    const trustTier = stats.trust_tier || ReputationUtils.getTrustTier({ ...stats, trust_score: trustScore });
+
+    return {
+      user_id: user.id,
+      reports_count: stats.reports_count || 0,
+      verified_reports: stats.verified_reports || 0,
+      rejected_reports: stats.rejected_reports || 0,
+      accuracy_rate: stats.accuracy_rate || 0,
+      disputes_received: stats.disputes_received || 0,
+      dispute_streak: stats.dispute_streak || 0,
+      trust_score: trustScore,
+      trust_tier: trustTier,
+      privileges: ReputationUtils.getPrivileges(trustTier)
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  User,
+  GuildRole,
+  Permission,
+  RoleCatalog,
+  RoleChange,
+  RoleChangeQueryParams,
+  UpdateUserRoleRequest,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { PermissionUtils } from '@/utils/permissions';
+import { ValidationUtils } from '@/utils/validation';
+
+/**
+ * Site-wide roles and their audit trail. Guild roles live on the guild itself
+ * (leader_id / officers); GuildService records their changes here as well.
+ */
+export class RoleService {
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  async hasPermission(userId: string, permission: Permission): Promise<boolean> {
+    try {
+      const user: User = await this.pb.getUser(userId);
+      return PermissionUtils.hasPermission(user, permission);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  getCatalog(): ApiResponse<RoleCatalog> {
+    return {
+      success: true,
+      data: PermissionUtils.getCatalog()
+    };
+  }
+
+  async setUserRole(targetId: string, data: UpdateUserRoleRequest, userId: string): Promise<ApiResponse<User>> {
+    try {
+      if (!PermissionUtils.isUserRole(data.role)) {
+        return {
+          success: false,
+          error: 'Invalid role'
+        };
+      }
+
+      if (!(await this.hasPermission(userId, 'roles:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to manage roles'
+        };
+      }
+
+      // Also keeps the last admin from demoting themselves
+      if (targetId === userId) {
+        return {
+          success: false,
+          error: 'You cannot change your own role'
+        };
+      }
+
+      let user: User;
+      try {
+        user = await this.pb.getUser(targetId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'User not found'
+        };
+      }
+
+      const previousRole = PermissionUtils.getUserRole(user);
+      if (previousRole === data.role) {
+        return {
+          success: false,
+          error: `User already has the ${data.role} role`
+        };
+      }
+
+      const updatedUser: User = await this.pb.updateUser(targetId, { role: data.role });
+      await this.recordChange({
+        scope: 'site',
+        user_id: targetId,
+        changed_by: userId,
+        previous_role: previousRole,
+        new_role: data.role,
+        ...(data.reason ? { reason: ValidationUtils.sanitizeString(data.reason) } : {})
+      });
+
+      const { password, ...userWithoutPassword } = updatedUser;
+
+      return {
+        success: true,
+        data: userWithoutPassword as User,
+        message: `Role changed from ${previousRole} to ${data.role}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to change user role'
+      };
+    }
+  }
+
+  /**
+   * Take away any elevated role, leaving the user with the default 'user' role
+   */
+  async revokeUserRole(targetId: string, userId: string, reason?: string): Promise<ApiResponse<User>> {
+    return this.setUserRole(targetId, { role: 'user', ...(reason ? { reason } : {}) }, userId);
+  }
+
+  async getRoleChanges(queryParams: RoleChangeQueryParams): Promise<ApiResponse<RoleChange[]>> {
+    try {
+      const { page = 1, limit = 50, scope, user_id, guild_id } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = {};
+      if (scope) filter.scope = scope;
+      if (user_id) filter.user_id = user_id;
+      if (guild_id) filter.guild_id = guild_id;
+
+      const result = await this.pb.getRoleChanges({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-created'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch role changes'
+      };
+    }
+  }
+
+  /**
+   * Audit an officer promotion/demotion or leadership transfer. A failed write is
+   * logged rather than failing the guild change that already happened.
+   */
+  async recordGuildRoleChange(
+    guildId: string,
+    memberId: string,
+    previousRole: GuildRole,
+    newRole: GuildRole,
+    userId: string
+  ): Promise<void> {
+    await this.recordChange({
+      scope: 'guild',
+      guild_id: guildId,
+      user_id: memberId,
+      changed_by: userId,
+      previous_role: previousRole,
+      new_role: newRole
+    }).catch(error => console.error(`Failed to record guild role change in guild ${guildId}:`, error));
+  }
+
+  private async recordChange(change: Omit<RoleChange, 'id' | 'created' | 'updated'>): Promise<RoleChange> {
+    return this.pb.createRoleChange(change);
+  }
+}
@@ -0,0 +1,255 @@
+import cron, { ScheduledTask } from 'node-cron';
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import { Boss, RespawnTimer, SpawnEvent } from '@/types';
+import { TimerUtils } from '@/utils/timer';
+import { SocketUtils } from '@/utils/socket';
+import { NotificationService } from './NotificationService';
+import { DiscordService } from './DiscordService';
+import { ServerService } from './ServerService';
+import { LeaderboardService } from './LeaderboardService';
+import { GuildService } from './GuildService';
+
+interface TrackedTimer {
+  boss: Boss;
+  next_spawn: string;
+  spawn_announced: boolean;
+}
+
+/**
+ * Background scheduler that keeps every boss's next_spawn in memory,
+ * pushes timer:update ticks into the server/boss rooms and emits
+ * boss:spawn once a timer runs out.
+ */
+export class SchedulerService {
+  private static instance: SchedulerService;
+  private pb: SupabaseClientWrapper;
+  private notificationService: NotificationService;
+  private discordService: DiscordService;
+  private serverService: ServerService;
+  private leaderboardService: LeaderboardService;
+  private guildService: GuildService;
+  private timers: Map<string, TrackedTimer> = new Map();
+  private tasks: ScheduledTask[] = [];
+
+  private constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.notificationService = new NotificationService();
+    this.discordService = new DiscordService();
+    this.serverService = new ServerService();
+    this.leaderboardService = new LeaderboardService();
+    this.guildService = new GuildService();
+  }
+
+  public static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+    return SchedulerService.instance;
+  }
+
+  async start(): Promise<void> {
+    if (this.tasks.length > 0) return;
+
+    await this.rebuild();
+
+    this.tasks.push(cron.schedule(config.scheduler.tickCron, () => this.tick()));
+    this.tasks.push(cron.schedule(config.scheduler.syncCron, () => {
+      this.rebuild().catch(error => console.error('Failed to resync respawn timers:', error));
+    }));
+    this.tasks.push(cron.schedule(config.scheduler.maintenanceCron, () => {
+      this.serverService.processMaintenanceWindows().catch(error => console.error('Failed to process maintenance windows:', error));
+    }));
+    this.tasks.push(cron.schedule(config.notifications.dispatchCron, () => {
+      this.notificationService.dispatchDue().catch(error => console.error('Failed to dispatch notifications:', error));
+    }));
+    this.tasks.push(cron.schedule(config.leaderboards.refreshCron, () => {
+      this.leaderboardService.refreshAll().catch(error => console.error('Failed to refresh leaderboards:', error));
+    }));
+    this.tasks.push(cron.schedule(config.scheduler.guildStatsCron, () => {
+      this.guildService.refreshAllStats().catch(error => console.error('Failed to refresh guild statistics:', error));
+    }));
+  }
+
+  stop(): void {
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+  }
+
+  /**
+   * Rebuild timer state from the bosses table, falling back to the latest
+   * spawn event for bosses that have no next_spawn stored yet
+   */
+  async rebuild(): Promise<void> {
+    const bosses = await this.loadAllBosses();
+    const timers: Map<string, TrackedTimer> = new Map();
+    DiscordService.invalidateCache();
+
+    for (const boss of bosses) {
+      let nextSpawn = boss.next_spawn;
+
+      if (TimerUtils.isFixedSchedule(boss)) {
+        nextSpawn = TimerUtils.calculateNextSpawn(boss);
+      } else if (!nextSpawn) {
+        const spawnEvents = await this.pb.getSpawnEvents({
+          filter: { boss_id: boss.id },
+          sort: '-spawn_time',
+          perPage: 1
+        });
+        const lastSpawnEvent: SpawnEvent | undefined = spawnEvents.items[0];
+
+        // Without any known spawn there is nothing to count down from
+        if (!lastSpawnEvent && !boss.last_spawn) continue;
+        nextSpawn = TimerUtils.calculateNextSpawn(boss, lastSpawnEvent);
+      }
+
+      timers.set(boss.id, this.buildTrackedTimer(boss, nextSpawn));
+    }
+
+    this.timers = timers;
+
+    // Queue alerts for upcoming spawns (already queued ones are skipped)
+    for (const tracked of timers.values()) {
+      if (tracked.spawn_announced) continue;
+      await this.notificationService.scheduleSpawnAlerts(tracked.boss)
+        .catch(error => console.error(`Failed to schedule alerts for boss ${tracked.boss.id}:`, error));
+    }
+  }
+
+  /**
+   * Start (or refresh) tracking a boss after its spawn information changed
+   */
+  trackBoss(boss: Boss): void {
+    if (!boss.next_spawn) {
+      this.timers.delete(boss.id);
+      return;
+    }
+
+    const previous = this.timers.get(boss.id);
+    const tracked = this.buildTrackedTimer(boss, boss.next_spawn);
+    this.timers.set(boss.id, tracked);
+    this.emitTimer(tracked);
+
+    if (previous?.next_spawn !== tracked.next_spawn) {
+      this.notificationService.scheduleSpawnAlerts(tracked.boss)
+        .catch(error => console.error(`Failed to schedule alerts for boss ${boss.id}:`, error));
+    }
+  }
+
+  untrackBoss(bossId: string): void {
+    this.timers.delete(bossId);
+  }
+
+  getTimer(bossId: string): RespawnTimer | undefined {
+    const tracked = this.timers.get(bossId);
+    return tracked ? this.toRespawnTimer(tracked) : undefined;
+  }
+
+  getTimersByServer(server: string): RespawnTimer[] {
+    return Array.from(this.timers.values())
+      .filter(tracked => tracked.boss.server === server)
+      .map(tracked => this.toRespawnTimer(tracked));
+  }
+
+  private tick(): void {
+    for (const tracked of this.timers.values()) {
+      if (tracked.spawn_announced) {
+        if (TimerUtils.isFixedSchedule(tracked.boss)) this.advanceSchedule(tracked);
+        continue;
+      }
+
+      const timer = this.emitTimer(tracked);
+      this.discordService.handleTimer(tracked.boss, timer)
+        .catch(error => console.error(`Failed to post Discord alerts for boss ${tracked.boss.id}:`, error));
+
+      if (timer.time_remaining <= 0) {
+        tracked.spawn_announced = true;
+        SocketUtils.emitToRooms(this.roomsFor(tracked.boss), 'boss:spawn', this.toPredictedSpawnEvent(tracked));
+        this.discordService.notifyBossEvent('spawned', tracked.boss)
+          .catch(error => console.error(`Failed to post Discord spawn for boss ${tracked.boss.id}:`, error));
+      }
+    }
+  }
+
+  /**
+   * Fixed-schedule bosses move on to their next scheduled spawn once the
+   * window of the current one has closed
+   */
+  private advanceSchedule(tracked: TrackedTimer): void {
+    const nextSpawn = TimerUtils.calculateNextSpawn(tracked.boss);
+    if (nextSpawn === tracked.next_spawn) return;
+
+    const boss: Boss = { ...tracked.boss, last_spawn: tracked.next_spawn, next_spawn: nextSpawn };
+    this.trackBoss(boss);
+    this.pb.updateBoss(boss.id, { last_spawn: boss.last_spawn, next_spawn: nextSpawn })
+      .catch(error => console.error(`Failed to advance schedule for boss ${boss.id}:`, error));
+  }
+
+  private emitTimer(tracked: TrackedTimer): RespawnTimer {
+    const timer = this.toRespawnTimer(tracked);
+    SocketUtils.emitToRooms(this.roomsFor(tracked.boss), 'timer:update', timer);
+    return timer;
+  }
+
+  private buildTrackedTimer(boss: Boss, nextSpawn: string): TrackedTimer {
+    const existing = this.timers.get(boss.id);
+
+    // Keep the announced flag for an unchanged timer, and never re-announce
+    // spawns that were already in the past when we started tracking them
+    const spawnAnnounced = existing && existing.next_spawn === nextSpawn
+      ? existing.spawn_announced
+      : !moment(nextSpawn).isAfter(moment());
+
+    return {
+      boss: { ...boss, next_spawn: nextSpawn },
+      next_spawn: nextSpawn,
+      spawn_announced: spawnAnnounced
+    };
+  }
+
+  private toRespawnTimer(tracked: TrackedTimer): RespawnTimer {
+    const timeRemaining = TimerUtils.calculateTimeRemaining(tracked.next_spawn);
+    return TimerUtils.buildRespawnTimer(tracked.boss, tracked.next_spawn, timeRemaining > 0);
+  }
+
+  private toPredictedSpawnEvent(tracked: TrackedTimer): SpawnEvent {
+    const now = new Date().toISOString();
+
+    return {
+      id: `${tracked.boss.id}:${tracked.next_spawn}`,
+      created: now,
+      updated: now,
+      boss_id: tracked.boss.id,
+      spawn_time: tracked.next_spawn,
+      reported_by: 'system',
+      verified: false,
+      verification_status: 'pending',
+      confirmation_weight: 0,
+      dispute_weight: 0,
+      confirmations_count: 0,
+      disputes_count: 0,
+      server: tracked.boss.server,
+      notes: 'Predicted from respawn timer'
+    };
+  }
+
+  private roomsFor(boss: Boss): string[] {
+    return [SocketUtils.serverRoom(boss.server), SocketUtils.bossRoom(boss.id)];
+  }
+
+  private async loadAllBosses(): Promise<Boss[]> {
+    const bosses: Boss[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getBosses({ page, perPage: 500, sort: 'created' });
+      bosses.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return bosses;
+  }
+}
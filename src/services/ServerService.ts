@@ -0,0 +1,576 @@
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment-timezone';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import {
+  Boss,
+  GameServer,
+  MaintenanceWindow,
+  PostMaintenanceRule,
+  CreateGameServerRequest,
+  UpdateGameServerRequest,
+  CreateMaintenanceWindowRequest,
+  RecordServerEventRequest,
+  ServerEvent,
+  ServerEventType,
+  ServerEventQueryParams,
+  ServerTimerReset,
+  GameServerQueryParams,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
+import { TimerUtils } from '@/utils/timer';
+import { ValidationUtils } from '@/utils/validation';
+import { SocketUtils } from '@/utils/socket';
+import { SchedulerService } from './SchedulerService';
+
+// A claimed maintenance window whose reset has not finished by then can be claimed again
+const MAINTENANCE_CLAIM_MINUTES = 10;
+
+export class ServerService {
+  // Registered server names, shared by all instances and reloaded after any change
+  private static nameCache: Set<string> | null = null;
+
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  static invalidateCache(): void {
+    ServerService.nameCache = null;
+  }
+
+  /**
+   * Used by the request schemas to check bosses and spawn events reference a registered server
+   */
+  static async serverExists(name: string): Promise<boolean> {
+    if (!ServerService.nameCache) {
+      const result = await SupabaseClientWrapper.getInstance().getGameServers({ perPage: 10000 });
+      ServerService.nameCache = new Set(result.items.map((server: GameServer) => server.name));
+    }
+    return ServerService.nameCache.has(name);
+  }
+
+  async getServers(queryParams: GameServerQueryParams): Promise<ApiResponse<GameServer[]>> {
+    try {
+      const { page = 1, limit = 50, region, status } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = {};
+      if (region) filter.region = region;
+      if (status) filter.status = status;
+
+      const result = await this.pb.getGameServers({
+        page,
+        perPage: limit,
+        filter,
+        sort: 'name'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch servers'
+      };
+    }
+  }
+
+  async getServer(name: string): Promise<ApiResponse<GameServer>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: server
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Server not found'
+      };
+    }
+  }
+
+  async createServer(data: CreateGameServerRequest): Promise<ApiResponse<GameServer>> {
+    try {
+      if (!ValidationUtils.validateServerName(data.name)) {
+        return {
+          success: false,
+          error: 'Server name may only contain letters, numbers, dashes and underscores'
+        };
+      }
+
+      if (!moment.tz.zone(data.timezone)) {
+        return {
+          success: false,
+          error: `Unknown timezone: ${data.timezone}`
+        };
+      }
+
+      if (await this.loadServer(data.name)) {
+        return {
+          success: false,
+          error: 'A server with this name already exists'
+        };
+      }
+
+      const server = await this.pb.createGameServer({
+        name: data.name,
+        region: ValidationUtils.sanitizeString(data.region),
+        timezone: data.timezone,
+        status: data.status || 'online',
+        post_maintenance_rule: data.post_maintenance_rule || 'keep',
+        maintenance_windows: [],
+        description: data.description ? ValidationUtils.sanitizeString(data.description) : undefined
+      });
+      ServerService.invalidateCache();
+
+      return {
+        success: true,
+        data: server,
+        message: 'Server registered successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to register server'
+      };
+    }
+  }
+
+  async updateServer(name: string, data: UpdateGameServerRequest): Promise<ApiResponse<GameServer>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      if (data.timezone && !moment.tz.zone(data.timezone)) {
+        return {
+          success: false,
+          error: `Unknown timezone: ${data.timezone}`
+        };
+      }
+
+      const updateData: any = {};
+      if (data.region) updateData.region = ValidationUtils.sanitizeString(data.region);
+      if (data.timezone) updateData.timezone = data.timezone;
+      if (data.status) updateData.status = data.status;
+      if (data.post_maintenance_rule) updateData.post_maintenance_rule = data.post_maintenance_rule;
+      if (data.description !== undefined) updateData.description = ValidationUtils.sanitizeString(data.description);
+
+      const updatedServer = await this.pb.updateGameServer(server.id, updateData);
+
+      return {
+        success: true,
+        data: updatedServer,
+        message: 'Server updated successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to update server'
+      };
+    }
+  }
+
+  /**
+   * Servers can only be removed once no boss or spawn event references them
+   */
+  async deleteServer(name: string): Promise<ApiResponse<boolean>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      const [bosses, spawnEvents] = await Promise.all([
+        this.pb.getBosses({ filter: { server: name }, perPage: 1 }),
+        this.pb.getSpawnEvents({ filter: { server: name }, perPage: 1 })
+      ]);
+
+      if (bosses.totalItems > 0 || spawnEvents.totalItems > 0) {
+        return {
+          success: false,
+          error: 'Server is still referenced by bosses or spawn events'
+        };
+      }
+
+      await this.pb.deleteGameServer(server.id);
+      ServerService.invalidateCache();
+
+      return {
+        success: true,
+        data: true,
+        message: 'Server removed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove server'
+      };
+    }
+  }
+
+  async addMaintenanceWindow(name: string, data: CreateMaintenanceWindowRequest): Promise<ApiResponse<GameServer>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      const start = moment(data.start);
+      const end = moment(data.end);
+      if (!end.isAfter(start)) {
+        return {
+          success: false,
+          error: 'Maintenance must end after it starts'
+        };
+      }
+
+      const overlapping = (server.maintenance_windows || []).some(window =>
+        start.isBefore(moment(window.end)) && end.isAfter(moment(window.start))
+      );
+      if (overlapping) {
+        return {
+          success: false,
+          error: 'Maintenance window overlaps an existing one'
+        };
+      }
+
+      const window: MaintenanceWindow = {
+        id: uuidv4(),
+        start: start.toISOString(),
+        end: end.toISOString()
+      };
+      if (data.reason) window.reason = ValidationUtils.sanitizeString(data.reason);
+
+      const windows = [...(server.maintenance_windows || []), window]
+        .sort((a, b) => moment(a.start).diff(moment(b.start)));
+      const updatedServer = await this.pb.updateGameServer(server.id, { maintenance_windows: windows });
+
+      return {
+        success: true,
+        data: updatedServer,
+        message: 'Maintenance window scheduled successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to schedule maintenance window'
+      };
+    }
+  }
+
+  async removeMaintenanceWindow(name: string, windowId: string): Promise<ApiResponse<GameServer>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      const windows = server.maintenance_windows || [];
+      if (!windows.some(window => window.id === windowId)) {
+        return {
+          success: false,
+          error: 'Maintenance window not found'
+        };
+      }
+
+      const updatedServer = await this.pb.updateGameServer(server.id, {
+        maintenance_windows: windows.filter(window => window.id !== windowId)
+      });
+
+      return {
+        success: true,
+        data: updatedServer,
+        message: 'Maintenance window removed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove maintenance window'
+      };
+    }
+  }
+
+  /**
+   * Record a server restart or maintenance end: every boss timer on the server
+   * is reset per its post-maintenance rule, the reset is audited and the
+   * refreshed timers are broadcast to the server room
+   */
+  async recordServerEvent(name: string, data: RecordServerEventRequest, userId: string): Promise<ApiResponse<ServerEvent>> {
+    try {
+      const server = await this.loadServer(name);
+      if (!server) {
+        return {
+          success: false,
+          error: 'Server not found'
+        };
+      }
+
+      const occurredAt = data.occurred_at ? moment(data.occurred_at) : moment();
+      if (occurredAt.isAfter(moment())) {
+        return {
+          success: false,
+          error: 'Server events cannot be recorded in the future'
+        };
+      }
+
+      // Maintenance windows this event closes out are not applied again by the scheduler
+      const windows = server.maintenance_windows || [];
+      const closed = windows.filter(window => !window.applied_at && !occurredAt.isBefore(moment(window.start)));
+
+      const extras: { recordedBy: string; maintenanceWindowId?: string; notes?: string } = { recordedBy: userId };
+      if (closed[0]) extras.maintenanceWindowId = closed[0].id;
+      if (data.notes) extras.notes = ValidationUtils.sanitizeString(data.notes);
+
+      const claimed = await this.claimWindows(server, closed);
+      let event: ServerEvent;
+      try {
+        event = await this.applyServerEvent(server, data.type, occurredAt.toISOString(), extras);
+      } catch (error) {
+        await this.finishWindows(server, claimed, false);
+        throw error;
+      }
+      await this.finishWindows(server, claimed, true);
+
+      if (server.status !== 'online') {
+        await this.pb.updateGameServer(server.id, { status: 'online' });
+      }
+
+      return {
+        success: true,
+        data: event,
+        message: `Server ${data.type === 'restart' ? 'restart' : 'maintenance end'} recorded, ${event.bosses_updated} boss timers reset`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to record server event'
+      };
+    }
+  }
+
+  async getServerEvents(name: string, queryParams: ServerEventQueryParams): Promise<ApiResponse<ServerEvent[]>> {
+    try {
+      const { page = 1, limit = 20, type } = queryParams;
+
+      const paginationValidation = ValidationUtils.validatePaginationParams(page, limit);
+      if (!paginationValidation.isValid) {
+        return {
+          success: false,
+          error: paginationValidation.errors.join(', ')
+        };
+      }
+
+      const filter: any = { server: name };
+      if (type) filter.type = type;
+
+      const result = await this.pb.getServerEvents({
+        page,
+        perPage: limit,
+        filter,
+        sort: '-occurred_at'
+      });
+
+      const pagination: PaginationInfo = {
+        page: result.page,
+        limit: result.perPage,
+        total: result.totalItems,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1
+      };
+
+      return {
+        success: true,
+        data: result.items,
+        pagination
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch server events'
+      };
+    }
+  }
+
+  /**
+   * Called by the scheduler: moves servers in and out of maintenance status and
+   * resets the boss timers of every window that has ended since the last run
+   */
+  async processMaintenanceWindows(): Promise<void> {
+    const result = await this.pb.getGameServers({ perPage: 10000 });
+    const now = moment();
+
+    for (const server of result.items as GameServer[]) {
+      const windows = server.maintenance_windows || [];
+      const active = windows.find(window => now.isBetween(moment(window.start), moment(window.end), undefined, '[)'));
+      const ended = windows.filter(window => !window.applied_at && !now.isBefore(moment(window.end)));
+
+      const updateData: any = {};
+      if (active && server.status === 'online') updateData.status = 'maintenance';
+      if (!active && server.status === 'maintenance' && ended.length > 0) updateData.status = 'online';
+
+      for (const window of await this.claimWindows(server, ended)) {
+        let applied = false;
+        try {
+          await this.applyServerEvent(server, 'maintenance_end', window.end, { maintenanceWindowId: window.id });
+          applied = true;
+        } catch (error) {
+          console.error(`Failed to reset timers after maintenance on ${server.name}:`, error);
+        }
+        // A failed reset is released and retried on the next run
+        await this.finishWindows(server, [window], applied);
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        await this.pb.updateGameServer(server.id, updateData);
+      }
+    }
+  }
+
+  /**
+   * Apply each boss's post-maintenance rule (falling back to the server's) to
+   * every boss on the server and return what changed
+   */
+  async resetBossTimers(server: GameServer, endedAt: string): Promise<ServerTimerReset[]> {
+    const bosses = await this.loadServerBosses(server.name);
+    const resets: ServerTimerReset[] = [];
+
+    for (const boss of bosses) {
+      const rule: PostMaintenanceRule = boss.post_maintenance_rule || server.post_maintenance_rule || 'keep';
+
+      // Fixed schedules keep running on server time
+      if (rule === 'keep' || TimerUtils.isFixedSchedule(boss)) continue;
+
+      const bossData = rule === 'spawn_at_end'
+        ? { last_spawn: endedAt, next_spawn: endedAt }
+        : { next_spawn: TimerUtils.calculateNextSpawn({ ...boss, last_spawn: endedAt }) };
+
+      const updatedBoss: Boss = await this.pb.updateBoss(boss.id, bossData);
+      SchedulerService.getInstance().trackBoss(updatedBoss);
+      resets.push({
+        boss_id: boss.id,
+        rule,
+        previous_last_spawn: boss.last_spawn || null,
+        previous_next_spawn: boss.next_spawn || null,
+        last_spawn: updatedBoss.last_spawn || null,
+        next_spawn: updatedBoss.next_spawn || null
+      });
+    }
+
+    return resets;
+  }
+
+  private async applyServerEvent(
+    server: GameServer,
+    type: ServerEventType,
+    occurredAt: string,
+    extras: { recordedBy?: string; maintenanceWindowId?: string; notes?: string }
+  ): Promise<ServerEvent> {
+    const resets = await this.resetBossTimers(server, occurredAt);
+
+    const eventData: any = {
+      server: server.name,
+      type,
+      occurred_at: occurredAt,
+      bosses_updated: resets.length,
+      resets
+    };
+    if (extras.recordedBy) eventData.recorded_by = extras.recordedBy;
+    if (extras.maintenanceWindowId) eventData.maintenance_window_id = extras.maintenanceWindowId;
+    if (extras.notes) eventData.notes = extras.notes;
+
+    const event: ServerEvent = await this.pb.createServerEvent(eventData);
+
+    SocketUtils.emitToRooms([SocketUtils.serverRoom(server.name)], 'server:timers', {
+      server: server.name,
+      event,
+      timers: SchedulerService.getInstance().getTimersByServer(server.name)
+    });
+
+    return event;
+  }
+
+  /**
+   * Claim the windows whose timer reset is about to run; windows already applied
+   * or being applied by someone else are left out
+   */
+  private async claimWindows(server: GameServer, windows: MaintenanceWindow[]): Promise<MaintenanceWindow[]> {
+    const claimed: MaintenanceWindow[] = [];
+    for (const window of windows) {
+      if (await this.pb.claimMaintenanceWindow(server.id, window.id, MAINTENANCE_CLAIM_MINUTES)) claimed.push(window);
+    }
+    return claimed;
+  }
+
+  private async finishWindows(server: GameServer, windows: MaintenanceWindow[], applied: boolean): Promise<void> {
+    for (const window of windows) {
+      await this.pb.finishMaintenanceWindow(server.id, window.id, applied);
+    }
+  }
+
+  private async loadServerBosses(name: string): Promise<Boss[]> {
+    const bosses: Boss[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.pb.getBosses({ page, perPage: 500, filter: { server: name }, sort: 'created' });
+      bosses.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return bosses;
+  }
+
+  private async loadServer(name: string): Promise<GameServer | null> {
+    const result = await this.pb.getGameServers({
+      filter: { name },
+      perPage: 1
+    });
+    return result.items[0] || null;
+  }
+}
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import {
+  User,
+  UserSession,
+  RefreshToken,
+  AuthTokens,
+  SessionContext,
+  SessionRevokeReason,
+  ApiResponse
+} from '@/types';
+
+// last_seen_at is written at most this often per session, not on every request
+const LAST_SEEN_INTERVAL_MINUTES = 5;
+
+export interface AccessTokenClaims {
+  id: string;
+  username: string;
+  sid: string;
+}
+
+/**
+ * Server-side sessions behind the short-lived access tokens. Each login opens a
+ * session; its refresh token is rotated on every use, and presenting a token
+ * that was already rotated revokes the whole session, since either the client
+ * or whoever stole the token is replaying it.
+ */
+export class SessionService {
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  async createSession(user: User, context: SessionContext): Promise<AuthTokens> {
+    const now = moment();
+    const session: UserSession = await this.pb.createUserSession({
+      user_id: user.id,
+      device: this.describeDevice(context.user_agent),
+      user_agent: context.user_agent?.substring(0, 500) || null,
+      ip: context.ip || null,
+      last_seen_at: now.toISOString(),
+      expires_at: now.clone().add(config.jwt.refreshTokenDays, 'days').toISOString()
+    });
+
+    return this.issueTokens(user, session);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(refreshToken: string, context: SessionContext): Promise<ApiResponse<AuthTokens>> {
+    try {
+      const tokens = await this.pb.getRefreshTokens({
+        filter: { token_hash: this.hashToken(refreshToken) },
+        perPage: 1
+      });
+      const record: RefreshToken | undefined = tokens.items[0];
+      if (!record) {
+        return {
+          success: false,
+          error: 'Invalid refresh token'
+        };
+      }
+
+      const session = await this.loadSession(record.session_id);
+      if (!session || !this.isActive(session)) {
+        return {
+          success: false,
+          error: 'Session has expired or was revoked'
+        };
+      }
+
+      if (record.used_at) {
+        return await this.revokeForReuse(session);
+      }
+
+      if (moment(record.expires_at).isBefore(moment())) {
+        return {
+          success: false,
+          error: 'Invalid refresh token'
+        };
+      }
+
+      const user: User | null = await this.pb.getUser(session.user_id).catch(() => null);
+      if (!user || !user.is_active) {
+        await this.revoke(session, 'revoked');
+        return {
+          success: false,
+          error: 'Session has expired or was revoked'
+        };
+      }
+
+      // Only one of two concurrent refreshes with the same token gets to use it
+      const marked = await this.pb.markRefreshTokenUsed(record.id, new Date().toISOString());
+      if (!marked) {
+        return await this.revokeForReuse(session);
+      }
+
+      const now = moment();
+      const updatedSession: UserSession = await this.pb.updateUserSession(session.id, {
+        last_seen_at: now.toISOString(),
+        expires_at: now.clone().add(config.jwt.refreshTokenDays, 'days').toISOString(),
+        ...(context.ip ? { ip: context.ip } : {})
+      });
+
+      return {
+        success: true,
+        data: await this.issueTokens(user, updatedSession),
+        message: 'Token refreshed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to refresh token'
+      };
+    }
+  }
+
+  /**
+   * Verify an access token and check that its session is still active.
+   * Returns null for invalid or expired tokens and revoked sessions.
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+    let claims: AccessTokenClaims;
+    try {
+      claims = jwt.verify(token, config.jwt.secret) as AccessTokenClaims;
+    } catch (error) {
+      return null;
+    }
+
+    // Tokens issued before sessions existed carry no session id
+    if (!claims || !claims.id || !claims.sid) return null;
+
+    const session = await this.loadSession(claims.sid);
+    if (!session || session.user_id !== claims.id || !this.isActive(session)) return null;
+
+    if (moment().diff(moment(session.last_seen_at), 'minutes') >= LAST_SEEN_INTERVAL_MINUTES) {
+      this.pb.updateUserSession(session.id, { last_seen_at: new Date().toISOString() })
+        .catch(error => console.error(`Failed to update last seen of session ${session.id}:`, error));
+    }
+
+    return claims;
+  }
+
+  async getSessions(userId: string, currentSessionId?: string): Promise<ApiResponse<UserSession[]>> {
+    try {
+      const result = await this.pb.getUserSessions({
+        filter: { user_id: userId, revoked_at: { $is: null }, expires_at: { '>': new Date().toISOString() } },
+        sort: '-last_seen_at',
+        perPage: 100
+      });
+
+      return {
+        success: true,
+        data: result.items.map((session: UserSession) => ({ ...session, current: session.id === currentSessionId }))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch sessions'
+      };
+    }
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevokeReason = 'revoked'): Promise<ApiResponse<boolean>> {
+    try {
+      const session = await this.loadSession(sessionId);
+      if (!session || session.user_id !== userId || !this.isActive(session)) {
+        return {
+          success: false,
+          error: 'Session not found'
+        };
+      }
+
+      await this.revoke(session, reason);
+
+      return {
+        success: true,
+        data: true,
+        message: reason === 'logout' ? 'Logout successful' : 'Session revoked successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to revoke session'
+      };
+    }
+  }
+
+  /**
+   * Sign the user out everywhere, optionally keeping the session making the request
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason = 'revoked_all',
+    exceptSessionId?: string
+  ): Promise<ApiResponse<number>> {
+    try {
+      const result = await this.pb.getUserSessions({
+        filter: { user_id: userId, revoked_at: { $is: null } },
+        perPage: 1000
+      });
+
+      let revoked = 0;
+      for (const session of result.items as UserSession[]) {
+        if (session.id === exceptSessionId) continue;
+        await this.revoke(session, reason);
+        revoked++;
+      }
+
+      return {
+        success: true,
+        data: revoked,
+        message: `${revoked} session(s) revoked`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to revoke sessions'
+      };
+    }
+  }
+
+  private async issueTokens(user: User, session: UserSession): Promise<AuthTokens> {
+    const claims: AccessTokenClaims = { id: user.id, username: user.username, sid: session.id };
+    const token = jwt.sign(claims, config.jwt.secret, { expiresIn: config.jwt.expiresIn } as jwt.SignOptions);
+    const decoded = jwt.decode(token) as { iat: number; exp: number };
+
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    await this.pb.createRefreshToken({
+      session_id: session.id,
+      token_hash: this.hashToken(refreshToken),
+      expires_at: session.expires_at
+    });
+
+    return {
+      token,
+      refresh_token: refreshToken,
+      expires_in: decoded.exp - decoded.iat,
+      session_id: session.id
+    };
+  }
+
+  private async revoke(session: UserSession, reason: SessionRevokeReason): Promise<void> {
+    await this.pb.updateUserSession(session.id, {
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason
+    });
+  }
+
+  /**
+   * A refresh token came back after it was used: someone else holds a copy,
+   * so the whole session goes
+   */
+  private async revokeForReuse(session: UserSession): Promise<ApiResponse<AuthTokens>> {
+    await this.revoke(session, 'reuse_detected');
+    console.error(`Refresh token reuse detected, revoked session ${session.id} of user ${session.user_id}`);
+    return {
+      success: false,
+      error: 'Refresh token was already used, the session has been revoked'
+    };
+  }
+
+  private isActive(session: UserSession): boolean {
+    return !session.revoked_at && moment(session.expires_at).isAfter(moment());
+  }
+
+  private async loadSession(sessionId: string): Promise<UserSession | null> {
+    try {
+      return await this.pb.getUserSession(sessionId);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Rough "Browser on OS" label for the sessions list
+   */
+  private describeDevice(userAgent?: string): string | null {
+    if (!userAgent) return null;
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/PostmanRuntime/, 'Postman'],
+      [/curl\//, 'curl']
+    ];
+    const systems: [RegExp, string][] = [
+      [/Windows/, 'Windows'],
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iOS/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux']
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || 'Unknown device';
+  }
+}
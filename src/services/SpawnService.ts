@@ -1,16 +1,49 @@
 import SupabaseClientWrapper from '@/models/SupabaseClient';
-import { SpawnEvent, CreateSpawnEventRequest, UpdateSpawnEventRequest, SpawnEventQueryParams, ApiResponse, PaginationInfo } from '@/types';
+import config from '@/config';
+import {
+  SpawnEvent,
+  SpawnConfirmation,
+  SpawnVote,
+  User,
+  Guild,
+  CreateSpawnEventRequest,
+  UpdateSpawnEventRequest,
+  RecordKillRequest,
+  BossKilledEvent,
+  SpawnEventQueryParams,
+  ApiResponse,
+  PaginationInfo
+} from '@/types';
 import { TimerUtils } from '@/utils/timer';
 import { ValidationUtils } from '@/utils/validation';
+import { SocketUtils } from '@/utils/socket';
+import { VerificationUtils } from '@/utils/verification';
 import { ContributionService } from './ContributionService';
+import { SchedulerService } from './SchedulerService';
+import { DiscordService } from './DiscordService';
+import { ReputationService } from './ReputationService';
+import { GuildService } from './GuildService';
+import { RoleService } from './RoleService';
+import { AchievementService } from './AchievementService';
+import { AttendanceService } from './AttendanceService';
 
 export class SpawnService {
   private pb: SupabaseClientWrapper;
   private contributionService: ContributionService;
+  private discordService: DiscordService;
+  private reputationService: ReputationService;
+  private roleService: RoleService;
+  private achievementService: AchievementService;
+  private attendanceService: AttendanceService;
 
   constructor() {
     this.pb = SupabaseClientWrapper.getInstance();
     this.contributionService = new ContributionService();
+    this.discordService = new DiscordService();
+    this.reputationService = new ReputationService();
+    this.roleService = new RoleService();
+    this.achievementService = new AchievementService();
+    this.attendanceService = new AttendanceService();
   }
 
   async getSpawnEvents(queryParams: SpawnEventQueryParams): Promise<ApiResponse<SpawnEvent[]>> {
@@ -125,20 +158,35 @@ export class SpawnService {
         };
       }
 
-      const spawnEventData = {
+      // Reports from trusted reporters count as verified straight away, but stay
+      // provisional so the community can still dispute them
+      const instantlyVerified = await this.reputationService.hasPrivilege(userId, 'instant_verification');
+
+      const spawnEventData: any = {
         ...data,
         reported_by: userId,
-        verified: false,
+        verified: instantlyVerified,
+        verification_status: instantlyVerified ? 'verified' : 'pending',
+        provisional: instantlyVerified,
+        confirmation_weight: 0,
+        dispute_weight: 0,
+        confirmations_count: 0,
+        disputes_count: 0,
         notes: data.notes ? ValidationUtils.sanitizeString(data.notes) : undefined
       };
+      if (instantlyVerified) spawnEventData.verified_at = new Date().toISOString();
 
       const spawnEvent = await this.pb.createSpawnEvent(spawnEventData);
+      await this.reputationService.recordReportChange(userId, null, spawnEventData.verification_status);
+      await this.achievementService.recordStatusChange(null, spawnEvent);
+      await this.contributionService.recordSpawnEventChange(null, spawnEvent);
 
       // Update boss with new spawn information
-      await this.pb.updateBoss(data.boss_id, {
+      const updatedBoss = await this.pb.updateBoss(data.boss_id, {
         last_spawn: data.spawn_time,
         next_spawn: TimerUtils.calculateNextSpawn(boss, spawnEvent)
       });
+      SchedulerService.getInstance().trackBoss(updatedBoss);
 
       return {
         success: true,
@@ -172,55 +220,83 @@ export class SpawnService {
         };
       }
 
-      // Check if user has permission to update (reporter or admin)
-      if (existingEvent.reported_by !== userId) {
-        // Check if user is admin
-        try {
-          const user = await this.pb.getUser(userId);
-          if (!user || (user as any).role !== 'admin') {
-            return {
-              success: false,
-              error: 'Insufficient permissions to update this spawn event'
-            };
-          }
-        } catch (error) {
-          return {
-            success: false,
-            error: 'Insufficient permissions to update this spawn event'
-          };
-        }
+      // Check if user has permission to update (reporter or moderator)
+      if (existingEvent.reported_by !== userId && !(await this.roleService.hasPermission(userId, 'spawns:moderate'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to update this spawn event'
+        };
       }
 
+      // Reporters can't verify their own reports, that is decided by confirmations
+      if (data.verified !== undefined && !(await this.roleService.hasPermission(userId, 'spawns:verify'))) {
+        return {
+          success: false,
+          error: 'Spawn events are verified by community confirmations'
+        };
+      }
+
+      const previous = await this.contributionService.loadAttendedEvent(existingEvent);
       const updateData: any = {};
       
       if (data.spawn_time) updateData.spawn_time = data.spawn_time;
       if (data.server) updateData.server = data.server;
       if (data.notes) updateData.notes = ValidationUtils.sanitizeString(data.notes);
       if (data.coordinates) updateData.coordinates = data.coordinates;
-      if (data.verified !== undefined) updateData.verified = data.verified;
-      if (data.kill_time) updateData.kill_time = data.kill_time;
+      if (data.verified !== undefined) {
+        updateData.verified = data.verified;
+        updateData.verification_status = data.verified ? 'verified' : 'pending';
+        updateData.verified_at = data.verified ? new Date().toISOString() : null;
+      }
+      // A first kill is recorded through recordKill below; this only moves an existing one
+      const newKill = !!data.kill_time && !existingEvent.kill_time;
+      if (data.kill_time && !newKill) updateData.kill_time = data.kill_time;
       if (data.participants !== undefined) updateData.participants = data.participants;
 
-      const spawnEvent = await this.pb.updateSpawnEvent(id, updateData);
+      let spawnEvent = Object.keys(updateData).length > 0 ? await this.pb.updateSpawnEvent(id, updateData) : existingEvent;
+      if (data.participants !== undefined) {
+        spawnEvent = await this.attendanceService.syncParticipants(spawnEvent, userId, false);
+      }
+
+      if (updateData.verification_status) {
+        await this.reputationService.recordReportChange(
+          existingEvent.reported_by,
+          VerificationUtils.getStatus(existingEvent),
+          updateData.verification_status
+        );
+        await this.achievementService.recordStatusChange(existingEvent, spawnEvent);
+      }
 
-      // If spawn time was updated, recalculate boss next spawn
-      if (data.spawn_time) {
+      // If spawn time (or the kill, for kill-anchored bosses) was updated, recalculate boss next spawn
+      if (data.spawn_time || updateData.kill_time) {
         const boss = await this.pb.getBoss(existingEvent.boss_id);
-        if (boss) {
-          await this.pb.updateBoss(existingEvent.boss_id, {
-            last_spawn: data.spawn_time,
-            next_spawn: TimerUtils.calculateNextSpawn(boss, spawnEvent)
-          });
+        if (boss && (data.spawn_time || boss.respawn_anchor === 'kill_time')) {
+          const bossData: any = { next_spawn: TimerUtils.calculateNextSpawn(boss, spawnEvent) };
+          if (data.spawn_time) bossData.last_spawn = data.spawn_time;
+
+          const updatedBoss = await this.pb.updateBoss(existingEvent.boss_id, bossData);
+          SchedulerService.getInstance().trackBoss(updatedBoss);
         }
       }
 
-      // Track contributions when participants are added or updated
-      if (data.participants !== undefined && Array.isArray(data.participants)) {
-        await this.updateContributionsForParticipants(
-          data.participants,
-          spawnEvent.spawn_time || existingEvent.spawn_time,
-          spawnEvent.server || existingEvent.server
-        );
+      // Rescore contributions when participants, the kill or the verification change
+      if (data.participants !== undefined || updateData.kill_time || updateData.verification_status) {
+        await this.contributionService.recordSpawnEventChange(previous, spawnEvent);
+      }
+
+      // New kills are announced, timed and credited like any other recorded kill
+      if (newKill) {
+        const killResult = await this.recordKill(id, {
+          kill_time: data.kill_time as string,
+          participants: spawnEvent.participants || []
+        }, userId);
+        if (!killResult.success || !killResult.data) {
+          return {
+            success: false,
+            error: killResult.error || 'Failed to record kill'
+          };
+        }
+        spawnEvent = killResult.data;
       }
 
       return {
@@ -253,26 +329,21 @@ export class SpawnService {
         };
       }
 
-      // Check if user has permission to delete (reporter or admin)
-      if (existingEvent.reported_by !== userId) {
-        // Check if user is admin
-        try {
-          const user = await this.pb.getUser(userId);
-          if (!user || (user as any).role !== 'admin') {
-            return {
-              success: false,
-              error: 'Insufficient permissions to delete this spawn event'
-            };
-          }
-        } catch (error) {
-          return {
-            success: false,
-            error: 'Insufficient permissions to delete this spawn event'
-          };
-        }
+      // Check if user has permission to delete (reporter or moderator)
+      if (existingEvent.reported_by !== userId && !(await this.roleService.hasPermission(userId, 'spawns:moderate'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to delete this spawn event'
+        };
       }
 
+      const previous = await this.contributionService.loadAttendedEvent(existingEvent);
+      const killCredit = await this.achievementService.loadKillCredit(existingEvent);
       await this.pb.deleteSpawnEvent(id);
+      await this.reputationService.recordReportChange(existingEvent.reported_by, VerificationUtils.getStatus(existingEvent), null);
+      await this.achievementService.recordDeletion(existingEvent, killCredit);
+      await this.contributionService.recordSpawnEventChange(previous, null);
+
       return {
         success: true,
         data: true,
@@ -286,6 +357,9 @@ export class SpawnService {
     }
   }
 
+  /**
+   * Admin override: mark a spawn event verified without waiting for consensus
+   */
   async verifySpawnEvent(id: string, userId: string): Promise<ApiResponse<SpawnEvent>> {
     try {
       if (!id) {
@@ -303,35 +377,295 @@ export class SpawnService {
         };
       }
 
-      // Only allow verification by admin or the original reporter
-      if (spawnEvent.reported_by !== userId) {
-        // Check if user is admin
+      if (!(await this.roleService.hasPermission(userId, 'spawns:verify'))) {
+        return {
+          success: false,
+          error: 'Spawn events are verified by community confirmations'
+        };
+      }
+
+      const updatedEvent = await this.pb.updateSpawnEvent(id, {
+        verified: true,
+        verification_status: 'verified',
+        provisional: false,
+        verified_at: new Date().toISOString()
+      });
+      await this.reputationService.recordReportChange(spawnEvent.reported_by, VerificationUtils.getStatus(spawnEvent), 'verified');
+      if (VerificationUtils.getStatus(spawnEvent) !== 'verified') {
+        await this.achievementService.recordStatusChange(spawnEvent, updatedEvent);
+        await this.contributionService.recordSpawnEventChange(
+          await this.contributionService.loadAttendedEvent(spawnEvent),
+          updatedEvent
+        );
+      }
+
+      return {
+        success: true,
+        data: updatedEvent,
+        message: 'Spawn event verified successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to verify spawn event'
+      };
+    }
+  }
+
+  /**
+   * Record (or change) a user's confirmation or dispute of someone else's report.
+   * The event is verified once the weighted confirmations reach
+   * config.verification.threshold, or rejected once the disputes do. Provisionally
+   * verified reports take votes too.
+   */
+  async voteOnSpawnEvent(id: string, userId: string, vote: SpawnVote): Promise<ApiResponse<SpawnEvent>> {
+    try {
+      let spawnEvent: SpawnEvent;
+      try {
+        spawnEvent = await this.pb.getSpawnEvent(id);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      if (spawnEvent.reported_by === userId) {
+        return {
+          success: false,
+          error: 'You cannot confirm or dispute your own report'
+        };
+      }
+
+      if (VerificationUtils.getStatus(spawnEvent) !== 'pending' && !spawnEvent.provisional) {
+        return {
+          success: false,
+          error: `Spawn event has already been ${spawnEvent.verification_status}`
+        };
+      }
+
+      const voter: User = await this.pb.getUser(userId);
+      const weight = this.getVoteWeight(voter);
+
+      const existing = await this.pb.getSpawnConfirmations({
+        filter: { spawn_event_id: id, user_id: userId },
+        perPage: 1
+      });
+
+      const previousVote: SpawnVote | undefined = existing.items[0]?.vote;
+
+      if (existing.items.length > 0) {
+        await this.pb.updateSpawnConfirmation(existing.items[0].id, { vote, weight });
+      } else {
+        await this.pb.createSpawnConfirmation({
+          spawn_event_id: id,
+          user_id: userId,
+          vote,
+          weight
+        });
+      }
+
+      if (vote === 'dispute' && previousVote !== 'dispute') {
+        await this.reputationService.recordDisputeReceived(spawnEvent.reported_by);
+      }
+
+      const updatedEvent = await this.resolveConsensus(spawnEvent);
+      const settled = VerificationUtils.getStatus(updatedEvent) !== VerificationUtils.getStatus(spawnEvent)
+        || (!!spawnEvent.provisional && !updatedEvent.provisional);
+
+      return {
+        success: true,
+        data: updatedEvent,
+        message: settled
+          ? `Spawn event ${updatedEvent.verification_status} by community consensus`
+          : `Spawn event ${vote === 'confirm' ? 'confirmed' : 'disputed'}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to record confirmation'
+      };
+    }
+  }
+
+  async getSpawnConfirmations(id: string): Promise<ApiResponse<SpawnConfirmation[]>> {
+    try {
+      const result = await this.pb.getSpawnConfirmations({
+        filter: { spawn_event_id: id },
+        sort: 'created',
+        perPage: 500
+      });
+
+      return {
+        success: true,
+        data: result.items
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to get spawn confirmations'
+      };
+    }
+  }
+
+  /**
+   * Record the kill of a spawned boss: when, by which guild and with whom.
+   * Kill-anchored bosses restart their respawn clock from the kill. Kills on
+   * reports that are not verified yet can only be recorded by the reporter,
+   * members of the killing guild and moderators.
+   */
+  async recordKill(id: string, data: RecordKillRequest, userId: string): Promise<ApiResponse<SpawnEvent>> {
+    try {
+      let spawnEvent: SpawnEvent;
+      try {
+        spawnEvent = await this.pb.getSpawnEvent(id);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Spawn event not found'
+        };
+      }
+
+      if (spawnEvent.kill_time) {
+        return {
+          success: false,
+          error: 'A kill has already been recorded for this spawn event'
+        };
+      }
+
+      if (spawnEvent.verification_status === 'rejected') {
+        return {
+          success: false,
+          error: 'Cannot record a kill for a rejected spawn report'
+        };
+      }
+
+      if (
+        VerificationUtils.getStatus(spawnEvent) !== 'verified' &&
+        spawnEvent.reported_by !== userId &&
+        !data.guild_id &&
+        !(await this.roleService.hasPermission(userId, 'spawns:moderate'))
+      ) {
+        return {
+          success: false,
+          error: 'Only the reporter or the killing guild can record a kill for an unverified spawn report'
+        };
+      }
+
+      const killTime = data.kill_time ? new Date(data.kill_time).toISOString() : new Date().toISOString();
+      if (new Date(killTime).getTime() < new Date(spawnEvent.spawn_time).getTime()) {
+        return {
+          success: false,
+          error: 'Kill time cannot be before the spawn time'
+        };
+      }
+
+      if (new Date(killTime).getTime() > Date.now() + 5 * 60000) {
+        return {
+          success: false,
+          error: 'Kill time cannot be in the future'
+        };
+      }
+
+      let guild: Guild | undefined;
+      if (data.guild_id) {
         try {
-          const user = await this.pb.getUser(userId);
-          if (!user || (user as any).role !== 'admin') {
-            return {
-              success: false,
-              error: 'Insufficient permissions to verify this spawn event'
-            };
-          }
+          guild = await this.pb.getGuild(data.guild_id);
         } catch (error) {
           return {
             success: false,
-            error: 'Insufficient permissions to verify this spawn event'
+            error: 'Guild not found'
+          };
+        }
+
+        // Only members can credit their own guild with a kill
+        if (!guild || (!GuildService.getRole(guild, userId) && !(await this.roleService.hasPermission(userId, 'spawns:moderate')))) {
+          return {
+            success: false,
+            error: 'Only members of the killing guild can report its kills'
           };
         }
       }
 
-      const updatedEvent = await this.pb.updateSpawnEvent(id, { verified: true });
+      const participants = Array.from(new Set(
+        (data.participants || [])
+          .map(participant => ValidationUtils.sanitizeString(participant))
+          .filter(participant => participant.length > 0)
+      ));
+
+      const updateData: any = {
+        kill_time: killTime,
+        kill_reported_by: userId,
+        participants
+      };
+      if (guild) updateData.killed_by_guild = guild.id;
+      if (data.notes) updateData.notes = ValidationUtils.sanitizeString(data.notes);
+
+      const previous = await this.contributionService.loadAttendedEvent(spawnEvent);
+
+      // Members checked in during the fight stay on the list
+      const updatedEvent = await this.attendanceService.syncParticipants(
+        await this.pb.updateSpawnEvent(id, updateData),
+        userId,
+        true
+      );
+      const attendees = updatedEvent.participants || [];
+      const boss = await this.pb.getBoss(spawnEvent.boss_id);
+
+      // Only the latest spawn of the boss drives its timer
+      const latest = await this.pb.getSpawnEvents({
+        filter: { boss_id: spawnEvent.boss_id },
+        sort: '-spawn_time',
+        perPage: 1
+      });
+
+      let timerBoss = boss;
+      if (latest.items[0]?.id === id) {
+        timerBoss = await this.pb.updateBoss(boss.id, {
+          next_spawn: TimerUtils.calculateNextSpawn(boss, updatedEvent)
+        });
+        SchedulerService.getInstance().trackBoss(timerBoss);
+      }
+
+      const rooms = [SocketUtils.serverRoom(boss.server), SocketUtils.bossRoom(boss.id)];
+      if (guild) rooms.push(SocketUtils.guildRoom(guild.id));
+
+      const killedEvent: BossKilledEvent = {
+        boss_id: boss.id,
+        boss_name: boss.name,
+        server: boss.server,
+        spawn_event_id: id,
+        kill_time: killTime,
+        participants: attendees
+      };
+      if (guild) {
+        killedEvent.killed_by_guild = guild.id;
+        killedEvent.guild_name = guild.name;
+      }
+      if (timerBoss.next_spawn) {
+        killedEvent.next_spawn = timerBoss.next_spawn;
+        killedEvent.timer = TimerUtils.buildRespawnTimer(timerBoss, timerBoss.next_spawn, TimerUtils.isBossActive(timerBoss));
+      }
+      SocketUtils.emitToRooms(rooms, 'boss:killed', killedEvent);
+
+      const discordExtra: { spawnEvent: SpawnEvent; killedBy?: string } = { spawnEvent: updatedEvent };
+      if (guild) discordExtra.killedBy = guild.name;
+      this.discordService.notifyBossEvent('killed', timerBoss, discordExtra)
+        .catch(error => console.error('Failed to post Discord kill message:', error));
+
+      await this.contributionService.recordSpawnEventChange(previous, updatedEvent);
+
+      await this.achievementService.recordKill(updatedEvent, boss);
+
       return {
         success: true,
         data: updatedEvent,
-        message: 'Spawn event verified successfully'
+        message: 'Kill recorded successfully'
       };
     } catch (error) {
       return {
         success: false,
-        error: 'Failed to verify spawn event'
+        error: 'Failed to record kill'
       };
     }
   }
@@ -446,6 +780,82 @@ export class SpawnService {
     }
   }
 
+  /**
+   * Sum the weighted votes and settle the event once either side reaches the threshold.
+   * A provisionally verified event is made final by confirmations or rejected by disputes.
+   */
+  private async resolveConsensus(spawnEvent: SpawnEvent): Promise<SpawnEvent> {
+    const votes = await this.pb.getSpawnConfirmations({
+      filter: { spawn_event_id: spawnEvent.id },
+      perPage: 1000
+    });
+
+    const confirmations = (votes.items as SpawnConfirmation[]).filter(vote => vote.vote === 'confirm');
+    const disputes = (votes.items as SpawnConfirmation[]).filter(vote => vote.vote === 'dispute');
+    const confirmationWeight = confirmations.reduce((sum, vote) => sum + Number(vote.weight), 0);
+    const disputeWeight = disputes.reduce((sum, vote) => sum + Number(vote.weight), 0);
+
+    const updateData: any = {
+      confirmation_weight: Math.round(confirmationWeight * 100) / 100,
+      dispute_weight: Math.round(disputeWeight * 100) / 100,
+      confirmations_count: confirmations.length,
+      disputes_count: disputes.length
+    };
+
+    const threshold = config.verification.threshold;
+    const status = VerificationUtils.getStatus(spawnEvent);
+    if (confirmationWeight >= threshold && confirmationWeight > disputeWeight) {
+      if (status === 'pending') {
+        updateData.verified = true;
+        updateData.verification_status = 'verified';
+        updateData.verified_at = new Date().toISOString();
+      }
+      updateData.provisional = false;
+    } else if (disputeWeight >= threshold && disputeWeight > confirmationWeight) {
+      updateData.verified = false;
+      updateData.verification_status = 'rejected';
+      updateData.provisional = false;
+    }
+
+    if (!updateData.verification_status) {
+      return this.pb.updateSpawnEvent(spawnEvent.id, updateData);
+    }
+
+    // Only the vote that actually moves the status applies its side effects
+    const updatedEvent: SpawnEvent | null = await this.pb.updateSpawnEventIfStatus(
+      spawnEvent.id,
+      spawnEvent.verification_status || null,
+      updateData
+    );
+    if (!updatedEvent) {
+      // Another vote settled the event first; keep its status and only store the tallies
+      const { verified, verification_status, verified_at, provisional, ...counts } = updateData;
+      return this.pb.updateSpawnEvent(spawnEvent.id, counts);
+    }
+
+    await this.reputationService.recordReportChange(spawnEvent.reported_by, status, updateData.verification_status);
+    await this.achievementService.recordStatusChange(spawnEvent, updatedEvent);
+    await this.contributionService.recordSpawnEventChange(
+      await this.contributionService.loadAttendedEvent(spawnEvent),
+      updatedEvent
+    );
+
+    return updatedEvent;
+  }
+
+  /**
+   * A vote counts as much as the voter's track record: accuracy_rate / 100,
+   * with a floor so nobody is silenced, and a fixed weight for users without resolved reports
+   */
+  private getVoteWeight(user: User): number {
+    const stats = user.stats;
+    const resolved = (stats?.verified_reports || 0) + (stats?.rejected_reports || 0);
+    if (resolved === 0) return config.verification.newUserWeight;
+
+    const weight = (stats.accuracy_rate || 0) / 100;
+    return Math.min(1, Math.max(config.verification.minWeight, weight));
+  }
+
   private groupByServer(spawnEvents: SpawnEvent[]): Record<string, number> {
     return spawnEvents.reduce((acc, event) => {
       acc[event.server] = (acc[event.server] || 0) + 1;
@@ -459,97 +869,4 @@ export class SpawnService {
       return acc;
     }, {} as Record<string, number>);
   }
-
-  /**
-   * Update contribution scores for participants when they join a spawn event
-   */
-  private async updateContributionsForParticipants(
-    participants: string[],
-    spawnTime: string,
-    server: string
-  ): Promise<void> {
-    try {
-      if (!participants || participants.length === 0) return;
-
-      // Get all users who participated to find their guilds
-      const guildParticipantMap: Record<string, { memberNames: string[]; memberIds: string[] }> = {}; // guild_id -> {memberNames, memberIds}
-
-      for (const participant of participants) {
-        // Try to find user by name or ID
-        try {
-          // Try to find by username first
-          let users = await this.pb.getUsers({
-            filter: { username: participant },
-            perPage: 1
-          });
-
-          // If not found by username, try by ID
-          if (users.items.length === 0) {
-            try {
-              users = await this.pb.getUsers({
-                filter: { id: participant },
-                perPage: 1
-              });
-            } catch (idError) {
-              // ID might not be valid for filter, skip
-            }
-          }
-
-          if (users.items.length > 0) {
-            const user = users.items[0];
-            if (user.guild) {
-              if (!guildParticipantMap[user.guild]) {
-                guildParticipantMap[user.guild] = { memberNames: [], memberIds: [] };
-              }
-              guildParticipantMap[user.guild].memberNames.push(user.username || participant);
-              if (user.id) {
-                guildParticipantMap[user.guild].memberIds.push(user.id);
-              }
-            }
-          } else {
-            // If user not found, try to find existing contribution records with this member name
-            // This allows tracking members even if they're not in the user system
-            try {
-              const contributions = await this.pb.getGuildMemberContributions({
-                filter: { member_name: participant },
-                perPage: 10
-              });
-
-              // Update contributions for all guilds where this member name exists
-              for (const contribution of contributions.items) {
-                if (!guildParticipantMap[contribution.guild_id]) {
-                  guildParticipantMap[contribution.guild_id] = { memberNames: [], memberIds: [] };
-                }
-                guildParticipantMap[contribution.guild_id].memberNames.push(participant);
-              }
-            } catch (contributionError) {
-              // If no contribution record exists, we can't track this participant
-              // They would need to be added to a guild's contribution records first
-              console.warn(`No contribution record found for participant: ${participant}`);
-            }
-          }
-        } catch (error) {
-          // Continue with next participant if user lookup fails
-          console.error(`Failed to lookup user for participant ${participant}:`, error);
-        }
-      }
-
-      // Update contributions for each guild
-      for (const [guildId, data] of Object.entries(guildParticipantMap)) {
-        for (let i = 0; i < data.memberNames.length; i++) {
-          const memberName = data.memberNames[i];
-          const memberId = data.memberIds[i];
-          await this.contributionService.incrementContribution(
-            guildId,
-            memberName,
-            memberId,
-            spawnTime
-          );
-        }
-      }
-    } catch (error) {
-      // Log error but don't fail the spawn event update
-      console.error('Failed to update contributions for participants:', error);
-    }
-  }
 }
@@ -0,0 +1,72 @@
+import fs from 'fs/promises';
+import path from 'path';
+import config from '@/config';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import { StorageAdapter, StoredFile } from '@/types';
+
+const LOCAL_PUBLIC_PATH = '/uploads';
+
+/**
+ * Development backend: writes files under UPLOAD_DIR, which the app serves at /uploads
+ */
+export class LocalDiskStorageAdapter implements StorageAdapter {
+  name = 'local';
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return { key, url: `${LOCAL_PUBLIC_PATH}/${key}` };
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  keyFromUrl(url: string): string | null {
+    return url.startsWith(`${LOCAL_PUBLIC_PATH}/`) ? url.substring(LOCAL_PUBLIC_PATH.length + 1) : null;
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(config.upload.localDirectory);
+    const filePath = path.resolve(root, key);
+
+    // Keys are generated by UploadService, but never write outside the upload directory
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Supabase Storage backend (the public "uploads" bucket created by supabase-setup.sql)
+ */
+export class SupabaseStorageAdapter implements StorageAdapter {
+  name = 'supabase';
+  private pb: SupabaseClientWrapper;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+  }
+
+  async save(key: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const url = await this.pb.uploadBuffer(key, data, contentType);
+    return { key, url };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.pb.removeFile(key);
+  }
+
+  keyFromUrl(url: string): string | null {
+    const marker = '/storage/v1/object/public/uploads/';
+    const index = url.indexOf(marker);
+    return index === -1 ? null : url.substring(index + marker.length);
+  }
+}
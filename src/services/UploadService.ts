@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid';
+import SupabaseClientWrapper from '@/models/SupabaseClient';
+import config from '@/config';
+import { Boss, StorageAdapter, UploadedImage, ApiResponse } from '@/types';
+import { ImageUtils } from '@/utils/image';
+import { LocalDiskStorageAdapter, SupabaseStorageAdapter } from './StorageAdapters';
+import { SchedulerService } from './SchedulerService';
+import { RoleService } from './RoleService';
+
+export class UploadService {
+  private static storage: StorageAdapter = config.upload.storage === 'supabase'
+    ? new SupabaseStorageAdapter()
+    : new LocalDiskStorageAdapter();
+
+  private pb: SupabaseClientWrapper;
+  private roleService: RoleService;
+
+  constructor() {
+    this.pb = SupabaseClientWrapper.getInstance();
+    this.roleService = new RoleService();
+  }
+
+  /**
+   * Swap the storage backend (e.g. for an S3 adapter)
+   */
+  static setStorageAdapter(storage: StorageAdapter): void {
+    this.storage = storage;
+  }
+
+  static getStorageAdapter(): StorageAdapter {
+    return this.storage;
+  }
+
+  async uploadBossImage(bossId: string, file: Express.Multer.File | undefined, userId: string): Promise<ApiResponse<UploadedImage>> {
+    try {
+      let boss: Boss;
+      try {
+        boss = await this.pb.getBoss(bossId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Boss not found'
+        };
+      }
+
+      if (boss.created_by !== userId && !(await this.roleService.hasPermission(userId, 'bosses:edit_any'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to update this boss'
+        };
+      }
+
+      const stored = await this.storeImage(`bosses/${bossId}`, file);
+      if (!stored.success || !stored.data) return stored;
+
+      const updatedBoss = await this.pb.updateBoss(bossId, {
+        image: stored.data.image,
+        image_thumbnail: stored.data.thumbnail
+      });
+      SchedulerService.getInstance().trackBoss(updatedBoss);
+      await this.removeFiles(`bosses/${bossId}`, [boss.image, boss.image_thumbnail]);
+
+      return {
+        success: true,
+        data: stored.data,
+        message: 'Boss image uploaded successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to upload boss image'
+      };
+    }
+  }
+
+  async deleteBossImage(bossId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      let boss: Boss;
+      try {
+        boss = await this.pb.getBoss(bossId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Boss not found'
+        };
+      }
+
+      if (boss.created_by !== userId && !(await this.roleService.hasPermission(userId, 'bosses:edit_any'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to update this boss'
+        };
+      }
+
+      await this.pb.updateBoss(bossId, { image: null, image_thumbnail: null });
+      await this.removeFiles(`bosses/${bossId}`, [boss.image, boss.image_thumbnail]);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Boss image removed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove boss image'
+      };
+    }
+  }
+
+  async uploadAvatar(targetUserId: string, file: Express.Multer.File | undefined, userId: string): Promise<ApiResponse<UploadedImage>> {
+    try {
+      if (targetUserId !== userId && !(await this.roleService.hasPermission(userId, 'users:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to update this user'
+        };
+      }
+
+      const user = await this.pb.getUser(targetUserId);
+      const stored = await this.storeImage(`avatars/${targetUserId}`, file);
+      if (!stored.success || !stored.data) return stored;
+
+      await this.pb.updateUser(targetUserId, {
+        avatar: stored.data.image,
+        avatar_thumbnail: stored.data.thumbnail
+      });
+      await this.removeFiles(`avatars/${targetUserId}`, [user.avatar, user.avatar_thumbnail]);
+
+      return {
+        success: true,
+        data: stored.data,
+        message: 'Avatar uploaded successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to upload avatar'
+      };
+    }
+  }
+
+  async deleteAvatar(targetUserId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      if (targetUserId !== userId && !(await this.roleService.hasPermission(userId, 'users:manage'))) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to update this user'
+        };
+      }
+
+      const user = await this.pb.getUser(targetUserId);
+      await this.pb.updateUser(targetUserId, { avatar: null, avatar_thumbnail: null });
+      await this.removeFiles(`avatars/${targetUserId}`, [user.avatar, user.avatar_thumbnail]);
+
+      return {
+        success: true,
+        data: true,
+        message: 'Avatar removed successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to remove avatar'
+      };
+    }
+  }
+
+  /**
+   * Check the declared type against the file's magic bytes, re-encode it without
+   * metadata and store the image with its thumbnail
+   */
+  private async storeImage(prefix: string, file: Express.Multer.File | undefined): Promise<ApiResponse<UploadedImage>> {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      return {
+        success: false,
+        error: 'Image file is required'
+      };
+    }
+
+    const detectedType = ImageUtils.detectMimeType(file.buffer);
+    if (!detectedType || !ImageUtils.isSupportedMimeType(detectedType) || !config.upload.allowedTypes.includes(detectedType)) {
+      return {
+        success: false,
+        error: `File must be one of: ${config.upload.allowedTypes.join(', ')}`
+      };
+    }
+
+    if (detectedType !== file.mimetype) {
+      return {
+        success: false,
+        error: 'File content does not match its declared type'
+      };
+    }
+
+    let processed;
+    try {
+      processed = await ImageUtils.process(file.buffer, detectedType);
+    } catch (error) {
+      return {
+        success: false,
+        error: 'File is not a valid image'
+      };
+    }
+
+    const name = uuidv4();
+    const storage = UploadService.storage;
+    const image = await storage.save(`${prefix}/${name}.${processed.extension}`, processed.image, processed.contentType);
+    const thumbnail = await storage.save(`${prefix}/${name}_thumb.${processed.extension}`, processed.thumbnail, processed.contentType);
+
+    return {
+      success: true,
+      data: {
+        image: image.url,
+        thumbnail: thumbnail.url,
+        width: processed.width,
+        height: processed.height,
+        content_type: processed.contentType
+      }
+    };
+  }
+
+  /**
+   * Best-effort cleanup of replaced files. Image fields can be set by hand, so only
+   * files stored under the entity's own prefix are deleted; anything else is left alone
+   */
+  private async removeFiles(prefix: string, urls: (string | undefined)[]): Promise<void> {
+    for (const url of urls) {
+      if (!url) continue;
+
+      const key = UploadService.storage.keyFromUrl(url);
+      if (!key || !UploadService.isUnderPrefix(key, prefix)) continue;
+
+      await UploadService.storage.delete(key)
+        .catch(error => console.error(`Failed to delete stored file ${key}:`, error));
+    }
+  }
+
+  private static isUnderPrefix(key: string, prefix: string): boolean {
+    const segments = key.split('/');
+    return key.startsWith(`${prefix}/`) && !segments.some(segment => segment === '' || segment === '.' || segment === '..');
+  }
+}
@@ -1,15 +1,24 @@
 import SupabaseClientWrapper from '@/models/SupabaseClient';
-import { User, CreateUserRequest, UpdateUserRequest, UserQueryParams, ApiResponse, PaginationInfo, LoginRequest } from '@/types';
+import { User, CreateUserRequest, UpdateUserRequest, UserQueryParams, ApiResponse, PaginationInfo, LoginRequest, LoginResult, SessionContext } from '@/types';
 import { ValidationUtils } from '@/utils/validation';
+import { PasswordUtils } from '@/utils/password';
+import { LoginGuardUtils } from '@/utils/loginGuard';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import config from '@/config';
+import { RoleService } from './RoleService';
+import { SessionService } from './SessionService';
+import { AccountSecurityService } from './AccountSecurityService';
 
 export class UserService {
   private pb: SupabaseClientWrapper;
+  private roleService: RoleService;
+  private sessionService: SessionService;
+  private accountSecurityService: AccountSecurityService;
 
   constructor() {
     this.pb = SupabaseClientWrapper.getInstance();
+    this.roleService = new RoleService();
+    this.sessionService = new SessionService();
+    this.accountSecurityService = new AccountSecurityService();
   }
 
   async getUsers(queryParams: UserQueryParams): Promise<ApiResponse<User[]>> {
@@ -104,6 +113,14 @@ export class UserService {
         };
       }
 
+      const passwordValidation = PasswordUtils.validatePassword(data.password, data.username);
+      if (!passwordValidation.isValid) {
+        return {
+          success: false,
+          error: passwordValidation.errors.join(', ')
+        };
+      }
+
       // Check if username already exists
       const existingUser = await this.pb.getUsers({
         filter: { username: data.username },
@@ -141,16 +158,17 @@ export class UserService {
           verified_reports: 0,
           accuracy_rate: 0,
           favorite_bosses_count: 0,
-          achievements: []
+          achievements: [],
+          disputes_received: 0,
+          dispute_streak: 0,
+          trust_score: 0,
+          trust_tier: 'new'
         },
+        role: 'user',
+        password_changed_at: new Date().toISOString(),
         is_active: true
       };
 
-      // Add guild if provided
-      if (data.guild) {
-        (userData as any).guild = data.guild;
-      }
-
       // Insert user directly into users table
       const user = await this.pb.createUser(userData);
       
@@ -205,7 +223,7 @@ export class UserService {
       }
 
       // Check if user has permission to update (self or admin)
-      if (existingUser.id !== userId && existingUser.role !== 'admin') {
+      if (existingUser.id !== userId && !(await this.roleService.hasPermission(userId, 'users:manage'))) {
         return {
           success: false,
           error: 'Insufficient permissions to update this user'
@@ -250,10 +268,10 @@ export class UserService {
       }
       
       // Email cannot be updated - it's auto-generated internally
+      // Guild membership is only changed through GuildService so guilds.members stays in sync
       
       if (data.favorite_bosses) updateData.favorite_bosses = data.favorite_bosses;
       if (data.notification_settings) updateData.notification_settings = data.notification_settings;
-      if (data.guild) updateData.guild = data.guild;
       if (data.avatar) updateData.avatar = data.avatar;
       if (data.bio) updateData.bio = ValidationUtils.sanitizeString(data.bio);
 
@@ -292,7 +310,7 @@ export class UserService {
       }
 
       // Check if user has permission to delete (self or admin)
-      if (existingUser.id !== userId && existingUser.role !== 'admin') {
+      if (existingUser.id !== userId && !(await this.roleService.hasPermission(userId, 'users:manage'))) {
         return {
           success: false,
           error: 'Insufficient permissions to delete this user'
@@ -313,7 +331,7 @@ export class UserService {
     }
   }
 
-  async login(credentials: LoginRequest): Promise<ApiResponse<{ user: User; token: string }>> {
+  async login(credentials: LoginRequest, context: SessionContext = {}): Promise<LoginResult> {
     try {
       // Validate login credentials (username and password only)
       const errors: string[] = [];
@@ -343,43 +361,61 @@ export class UserService {
         perPage: 1
       });
 
-      if (users.items.length === 0) {
+      const user = users.items[0];
+      if (!user) {
+        await this.accountSecurityService.recordLoginAttempt(credentials.username, null, context, 'unknown_user');
         return {
           success: false,
           error: 'Invalid username or password'
         };
       }
 
-      const user = users.items[0];
-      
-      // Verify password
-      if (!user.password) {
+      // A locked or throttled account is turned away before the password is checked
+      const retryAfter = LoginGuardUtils.getRetryAfterSeconds(user);
+      if (retryAfter > 0) {
+        const locked = LoginGuardUtils.isLocked(user);
+        await this.accountSecurityService.recordLoginAttempt(user.username, user.id, context, locked ? 'locked' : 'throttled');
         return {
           success: false,
-          error: 'Invalid username or password'
+          error: locked
+            ? 'Account is temporarily locked after too many failed logins, try again later'
+            : 'Too many failed logins, please wait before trying again',
+          retry_after: retryAfter
         };
       }
 
-      const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
-      
+      // Count the attempt as a failure before checking the password, in one
+      // conditional update: of concurrent guesses only the first gets through,
+      // the others find the state changed and are throttled
+      const reserved = await this.pb.updateUserLoginState(user.id, user, LoginGuardUtils.applyFailure(user));
+      if (!reserved) {
+        await this.accountSecurityService.recordLoginAttempt(user.username, user.id, context, 'throttled');
+        return {
+          success: false,
+          error: 'Too many failed logins, please wait before trying again',
+          retry_after: Math.max(1, LoginGuardUtils.getRetryAfterSeconds(await this.pb.getUser(user.id)))
+        };
+      }
+
+      // Verify password
+      const isPasswordValid = !!user.password && await bcrypt.compare(credentials.password, user.password);
+
       if (!isPasswordValid) {
+        await this.accountSecurityService.recordLoginAttempt(user.username, user.id, context, 'invalid_password');
         return {
           success: false,
           error: 'Invalid username or password'
         };
       }
 
-      // Generate JWT token
-      const jwtSecret = config.jwt.secret || 'your-secret-key';
-      const expiresIn = config.jwt.expiresIn || '24h';
-      const token = jwt.sign(
-        { 
-          id: user.id, 
-          username: user.username 
-        },
-        jwtSecret,
-        { expiresIn } as jwt.SignOptions
-      );
+      await this.pb.updateUser(user.id, {
+        ...LoginGuardUtils.cleared(),
+        last_login: new Date().toISOString()
+      });
+      await this.accountSecurityService.recordLoginAttempt(user.username, user.id, context, null);
+
+      // Open a session with a short-lived access token and a refresh token
+      const tokens = await this.sessionService.createSession(user, context);
 
       // Remove password from response
       const responseUser = { ...user };
@@ -387,7 +423,7 @@ export class UserService {
 
       return {
         success: true,
-        data: { user: responseUser, token },
+        data: { user: responseUser, ...tokens },
         message: 'Login successful'
       };
     } catch (error) {
@@ -398,14 +434,11 @@ export class UserService {
     }
   }
 
-  async logout(): Promise<ApiResponse<boolean>> {
-    // With JWT, logout is handled client-side by removing the token
-    // Server-side logout not needed (stateless JWT)
-    return {
-      success: true,
-      data: true,
-      message: 'Logout successful'
-    };
+  /**
+   * Revoke the session behind the access token, which stops both it and its refresh token
+   */
+  async logout(userId: string, sessionId: string): Promise<ApiResponse<boolean>> {
+    return this.sessionService.revokeSession(userId, sessionId, 'logout');
   }
 
   async getCurrentUser(userId: string): Promise<ApiResponse<User>> {
@@ -477,13 +510,8 @@ export class UserService {
       }
 
       const updatedFavorites = [...user.favorite_bosses, bossId];
-      const updatedUser = await this.pb.updateUser(userId, {
-        favorite_bosses: updatedFavorites,
-        stats: {
-          ...user.stats,
-          favorite_bosses_count: updatedFavorites.length
-        }
-      });
+      const updatedUser = await this.pb.updateUser(userId, { favorite_bosses: updatedFavorites });
+      updatedUser.stats = await this.pb.mergeUserStats(userId, { favorite_bosses_count: updatedFavorites.length });
 
       // Remove password and email from response (email is internal only)
       delete updatedUser.password;
@@ -527,13 +555,8 @@ export class UserService {
       }
 
       const updatedFavorites = user.favorite_bosses.filter((id: string) => id !== bossId);
-      const updatedUser = await this.pb.updateUser(userId, {
-        favorite_bosses: updatedFavorites,
-        stats: {
-          ...user.stats,
-          favorite_bosses_count: updatedFavorites.length
-        }
-      });
+      const updatedUser = await this.pb.updateUser(userId, { favorite_bosses: updatedFavorites });
+      updatedUser.stats = await this.pb.mergeUserStats(userId, { favorite_bosses_count: updatedFavorites.length });
 
       // Remove password and email from response (email is internal only)
       delete updatedUser.password;
@@ -10,11 +10,19 @@ export interface Boss extends BaseEntity {
   name: string;
   level: number;
   location: string;
-  respawn_time: number; // in minutes
+  respawn_time: number; // in minutes; for fixed-schedule bosses the average gap between spawns
+  schedule_type?: BossScheduleType; // defaults to 'respawn'
+  schedule?: BossSchedule | null; // required for fixed-schedule bosses
+  respawn_variance?: number; // random +/- window around respawn_time, in minutes
+  respawn_window_min?: number; // earliest respawn, in minutes (overrides respawn_time +/- respawn_variance)
+  respawn_window_max?: number; // latest respawn, in minutes
+  respawn_anchor?: RespawnAnchor; // defaults to spawn_time
+  post_maintenance_rule?: PostMaintenanceRule | null; // overrides the server's rule
   last_spawn?: string;
   next_spawn?: string;
   server: string;
   image?: string;
+  image_thumbnail?: string;
   description?: string;
   difficulty: BossDifficulty;
   created_by: string;
@@ -24,6 +32,24 @@ export interface Boss extends BaseEntity {
   requirements?: string[];
 }
 
+// What the respawn clock counts from: the reported spawn or the kill
+export type RespawnAnchor = 'spawn_time' | 'kill_time';
+
+// 'respawn' bosses count down from their last spawn, 'fixed' bosses spawn at set server times
+export type BossScheduleType = 'respawn' | 'fixed';
+
+export interface BossScheduleSlot {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  time: string; // HH:mm in the schedule's timezone
+}
+
+export interface BossSchedule {
+  cron?: string; // e.g. "0 20 * * 2,4,6"; used instead of slots when set
+  slots?: BossScheduleSlot[];
+  timezone?: string; // IANA timezone, e.g. "Europe/Berlin"; defaults to the server's timezone
+  window_minutes?: number; // how long after the scheduled time the boss may appear
+}
+
 export enum BossDifficulty {
   EASY = 'easy',
   MEDIUM = 'medium',
@@ -47,6 +73,28 @@ export interface SpawnEvent extends BaseEntity {
   };
   participants?: string[];
   kill_time?: string;
+  killed_by_guild?: string; // guild credited with the kill
+  kill_reported_by?: string;
+  verification_status: SpawnVerificationStatus;
+  confirmation_weight: number;
+  dispute_weight: number;
+  confirmations_count: number;
+  disputes_count: number;
+  verified_at?: string;
+  provisional?: boolean; // verified on trust alone, still open to confirmations and disputes
+  imported?: boolean; // created by a data import; reported_by is the importing admin, who gets no credit for it
+}
+
+export type SpawnVerificationStatus = 'pending' | 'verified' | 'rejected';
+
+export type SpawnVote = 'confirm' | 'dispute';
+
+// One user's confirmation or dispute of a spawn event, weighted by their accuracy
+export interface SpawnConfirmation extends BaseEntity {
+  spawn_event_id: string;
+  user_id: string;
+  vote: SpawnVote;
+  weight: number;
 }
 
 // User types
@@ -58,7 +106,13 @@ export interface User extends BaseEntity {
   guild?: string;
   stats: UserStats;
   avatar?: string;
+  avatar_thumbnail?: string;
   bio?: string;
+  role: UserRole; // site-wide role, defaults to 'user'
+  password_changed_at?: string;
+  failed_login_attempts?: number; // consecutive failed logins, reset by a successful one
+  last_failed_login?: string | null;
+  locked_until?: string | null;
   is_active: boolean;
   last_login?: string;
 }
@@ -78,10 +132,187 @@ export interface NotificationTiming {
 export interface UserStats {
   reports_count: number;
   verified_reports: number;
+  rejected_reports?: number;
   accuracy_rate: number;
   favorite_bosses_count: number;
   guild_rank?: number;
   achievements: string[];
+  disputes_received?: number; // dispute votes cast on this user's reports
+  dispute_streak?: number; // rejected reports not yet offset by verified ones
+  trust_score?: number; // 0-100
+  trust_tier?: TrustTier;
+  kills_count?: number; // kills reported or taken part in
+  legendary_kills?: number;
+  report_streak?: number; // consecutive UTC days with at least one report
+  longest_report_streak?: number;
+  last_report_date?: string; // YYYY-MM-DD (UTC) of the latest report
+}
+
+// Amounts to add to stats counters; applied atomically in the database
+export type UserStatsIncrements = Partial<Record<keyof UserStats, number>>;
+
+export type TrustTier = 'new' | 'member' | 'trusted' | 'veteran';
+
+export type TrustPrivilege = 'instant_verification' | 'edit_bosses';
+
+export interface UserReputation {
+  user_id: string;
+  reports_count: number;
+  verified_reports: number;
+  rejected_reports: number;
+  accuracy_rate: number;
+  disputes_received: number;
+  dispute_streak: number;
+  trust_score: number;
+  trust_tier: TrustTier;
+  privileges: TrustPrivilege[];
+}
+
+// Leaderboard types
+export type LeaderboardCategory = 'reporters' | 'guilds' | 'contributors';
+
+// weekly = ISO week, monthly = calendar month (both UTC), season = config.leaderboards season
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'season' | 'all_time';
+
+export interface ReporterLeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string;
+  reports: number;
+  verified_reports: number;
+  rejected_reports: number;
+  accuracy_rate: number;
+}
+
+export interface GuildLeaderboardEntry {
+  rank: number;
+  guild_id: string;
+  guild_name: string;
+  kills: number;
+  participations: number; // participant slots filled across the guild's kills
+}
+
+export interface ContributorLeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string;
+  kills: number; // kills reported or taken part in
+  reports: number;
+}
+
+export type LeaderboardEntry = ReporterLeaderboardEntry | GuildLeaderboardEntry | ContributorLeaderboardEntry;
+
+// Precomputed ranking for one category, period and server (null = every server)
+export interface LeaderboardSnapshot extends BaseEntity {
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  server: string | null;
+  period_start: string | null; // null for all_time
+  period_end: string;
+  entries: LeaderboardEntry[];
+  computed_at: string;
+}
+
+// A leaderboard as served; computed on request when no current snapshot is stored
+export type LeaderboardSnapshotData = Omit<LeaderboardSnapshot, keyof BaseEntity>;
+
+export interface LeaderboardQueryParams {
+  period?: LeaderboardPeriod;
+  server?: string;
+  limit?: number;
+}
+
+// Achievement types
+export type AchievementId =
+  | 'first_report'
+  | 'reports_25'
+  | 'first_verified'
+  | 'verified_100'
+  | 'first_kill'
+  | 'kills_50'
+  | 'first_legendary_kill'
+  | 'streak_7'
+  | 'streak_30';
+
+// Tracker activity that achievements are evaluated on
+export type AchievementTrigger = 'spawn' | 'verify' | 'kill';
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  name: string;
+  description: string;
+  triggers: AchievementTrigger[];
+}
+
+// One award; UserStats.achievements keeps the ids of everything awarded
+export interface UserAchievement extends BaseEntity {
+  user_id: string;
+  achievement: AchievementId;
+  awarded_at: string;
+  spawn_event_id?: string | null; // the activity that earned it
+  boss_id?: string | null;
+}
+
+export interface UserAchievementStatus extends AchievementDefinition {
+  earned: boolean;
+  awarded_at?: string;
+  spawn_event_id?: string | null;
+}
+
+// Role types
+// Each site role includes the permissions of the roles before it
+export type UserRole = 'user' | 'trusted' | 'moderator' | 'admin';
+
+export type Permission =
+  | 'spawns:instant_verify'
+  | 'spawns:verify'
+  | 'spawns:moderate'
+  | 'bosses:edit_any'
+  | 'bosses:delete_any'
+  | 'comments:moderate'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'servers:manage'
+  | 'data:transfer';
+
+export type GuildPermission =
+  | 'guild:manage_settings'
+  | 'guild:manage_invites'
+  | 'guild:review_join_requests'
+  | 'guild:manage_webhooks'
+  | 'guild:kick_members'
+  | 'guild:manage_points'
+  | 'guild:manage_attendance'
+  | 'guild:manage_roles'
+  | 'guild:transfer_leadership'
+  | 'guild:disband';
+
+export type RoleScope = 'site' | 'guild';
+
+// Audit record of a site role grant/revoke or a guild officer/leader change
+export interface RoleChange extends BaseEntity {
+  scope: RoleScope;
+  guild_id?: string; // set for guild-scoped changes
+  user_id: string;
+  changed_by: string;
+  previous_role: UserRole | GuildRole;
+  new_role: UserRole | GuildRole;
+  reason?: string;
+}
+
+export interface RoleDefinition<R extends string, P extends string> {
+  role: R;
+  permissions: P[];
+}
+
+export interface RoleCatalog {
+  site: RoleDefinition<UserRole, Permission>[];
+  guild: RoleDefinition<GuildRole, GuildPermission>[];
+}
+
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+  reason?: string;
 }
 
 // Community types
@@ -93,16 +324,57 @@ export interface Comment extends BaseEntity {
   replies?: string[];
   parent_id?: string;
   is_deleted: boolean;
+  deleted_by?: string;
+  deleted_at?: string;
+  edited_at?: string;
+}
+
+export interface CommentLike {
+  id: string;
+  created: string;
+  comment_id: string;
+  user_id: string;
+}
+
+// A comment with its reply tree, as returned by the boss comments endpoint
+export interface CommentThread extends Comment {
+  liked_by_user: boolean;
+  children: CommentThread[];
 }
 
 export interface Guild extends BaseEntity {
   name: string;
   description?: string;
   leader_id: string;
-  members: string[];
+  officers: string[];
+  members: string[]; // every member including the leader and officers
+  invite_code?: string; // only returned to the leader and officers
   boss_tracking_enabled: boolean;
   notification_channel?: string;
   stats: GuildStats;
+  contribution_rules?: Partial<ContributionRules>; // unset values use the defaults
+}
+
+export type GuildRole = 'leader' | 'officer' | 'member';
+
+export interface GuildMember {
+  id: string;
+  username: string;
+  avatar?: string;
+  role: GuildRole;
+  is_active: boolean;
+  last_login?: string;
+}
+
+export type GuildJoinRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface GuildJoinRequest extends BaseEntity {
+  guild_id: string;
+  user_id: string;
+  status: GuildJoinRequestStatus;
+  message?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
 }
 
 export interface GuildStats {
@@ -112,15 +384,332 @@ export interface GuildStats {
   accuracy_rate: number;
 }
 
+// Game server types
+export type GameServerStatus = 'online' | 'maintenance' | 'offline';
+
+// How boss timers on a server are reset when a maintenance ends:
+// keep them, let every boss spawn at maintenance end, or restart each respawn timer from the end
+export type PostMaintenanceRule = 'keep' | 'spawn_at_end' | 'restart_timer';
+
+export interface MaintenanceWindow {
+  id: string;
+  start: string;
+  end: string;
+  reason?: string;
+  claimed_at?: string; // set while a timer reset for this window is running
+  applied_at?: string; // set once the timers were reset for this window
+}
+
+export interface GameServer extends BaseEntity {
+  name: string; // referenced by bosses.server and spawn_events.server
+  region: string;
+  timezone: string; // IANA timezone
+  status: GameServerStatus;
+  maintenance_windows: MaintenanceWindow[];
+  post_maintenance_rule: PostMaintenanceRule;
+  description?: string;
+}
+
+export interface CreateGameServerRequest {
+  name: string;
+  region: string;
+  timezone: string;
+  status?: GameServerStatus;
+  post_maintenance_rule?: PostMaintenanceRule;
+  description?: string;
+}
+
+export type UpdateGameServerRequest = Partial<Omit<CreateGameServerRequest, 'name'>>;
+
+export interface CreateMaintenanceWindowRequest {
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+export type ServerEventType = 'restart' | 'maintenance_end';
+
+export interface ServerTimerReset {
+  boss_id: string;
+  rule: PostMaintenanceRule;
+  previous_last_spawn?: string | null;
+  previous_next_spawn?: string | null;
+  last_spawn?: string | null;
+  next_spawn?: string | null;
+}
+
+// Audit record of a restart or maintenance end and the timers it reset
+export interface ServerEvent extends BaseEntity {
+  server: string;
+  type: ServerEventType;
+  occurred_at: string;
+  recorded_by?: string; // null when recorded by the scheduler
+  maintenance_window_id?: string;
+  notes?: string;
+  bosses_updated: number;
+  resets: ServerTimerReset[];
+}
+
+export interface RecordServerEventRequest {
+  type: ServerEventType;
+  occurred_at?: string; // defaults to now
+  notes?: string;
+}
+
+export interface ServerTimersEvent {
+  server: string;
+  event: ServerEvent;
+  timers: RespawnTimer[];
+}
+
+// Bulk import/export types
+export type DataFormat = 'csv' | 'json';
+
+export interface DataImportRequest {
+  format: DataFormat;
+  data: string | Record<string, unknown>[]; // CSV text, or JSON rows (as an array or JSON text)
+  dry_run?: boolean;
+  server?: string; // import every row into this server instead of the row's own
+}
+
+export interface DataImportRowError {
+  row: number; // 1-based, not counting the CSV header
+  errors: string[];
+}
+
+export interface DataImportResult {
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  imported: number;
+  ids: string[]; // ids of the created records, empty for a dry run
+  errors: DataImportRowError[];
+}
+
+export interface DataExportFile {
+  filename: string;
+  content_type: string;
+  content: string;
+  rows: number;
+}
+
+// Calendar feed types
+export type CalendarFeedScope = 'user' | 'guild' | 'server';
+
+export interface CalendarFeed extends BaseEntity {
+  user_id: string; // owner; the feed stops working once they lose access to the target
+  scope: CalendarFeedScope;
+  target: string; // user id, guild id or server name
+  token: string; // secret part of the feed URL
+  url?: string; // subscription URL, only set in API responses
+}
+
+export interface CreateCalendarFeedRequest {
+  scope: CalendarFeedScope;
+  guild_id?: string; // required for guild feeds
+  server?: string; // required for server feeds
+}
+
+export interface CalendarEvent {
+  uid: string; // stays the same while the event describes the same spawn
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  categories?: string[];
+}
+
+// Discord webhook types
+export type DiscordEventType = 'spawn_soon' | 'spawned' | 'killed';
+
+export interface DiscordMessageTemplate {
+  title: string;
+  description: string;
+  color?: number;
+}
+
+export interface GuildWebhook extends BaseEntity {
+  guild_id: string;
+  url: string;
+  secret: string; // used to sign test pings
+  enabled: boolean;
+  events: DiscordEventType[];
+  servers: string[]; // empty = every server
+  spawn_soon_minutes: number;
+  templates: Partial<Record<DiscordEventType, DiscordMessageTemplate>>;
+  last_delivery_at?: string;
+  last_error?: string;
+}
+
+export interface UpsertGuildWebhookRequest {
+  url: string;
+  enabled?: boolean;
+  events?: DiscordEventType[];
+  servers?: string[];
+  spawn_soon_minutes?: number;
+  templates?: Partial<Record<DiscordEventType, DiscordMessageTemplate>>;
+}
+
 // Guild Member Contribution types
 export interface GuildMemberContribution extends BaseEntity {
   guild_id: string;
   member_name: string;
   member_id?: string; // Optional reference to user ID
-  contribution_score: number; // Number of events joined
+  contribution_score: number; // Points balance: the sum of the member's ledger entries, never written directly
   last_event_date?: string; // Date of last event participation
 }
 
+// 'kill' = a spawn with a recorded kill, 'spawn' = a spawn the members were present for without one
+export type ContributionEventType = 'kill' | 'spawn';
+
+// How a guild scores its members. Each participant earns the boss difficulty's
+// weight times the event type's weight; the defaults count 1 point per event.
+export interface ContributionRules {
+  difficulty_weights: Record<BossDifficulty, number>;
+  event_weights: Record<ContributionEventType, number>;
+  reporter_bonus: number; // for the member who reported the spawn
+  no_show_penalty: number; // for roster members missing from a kill credited to the guild
+}
+
+export interface UpdateContributionRulesRequest {
+  difficulty_weights?: Partial<Record<BossDifficulty, number>>;
+  event_weights?: Partial<Record<ContributionEventType, number>>;
+  reporter_bonus?: number;
+  no_show_penalty?: number;
+}
+
+// 'earn' = points from spawn events (negative when an event is corrected or for no-shows),
+// 'spend' = loot bought with points, 'adjust' = set by an officer, 'decay' = periodic balance decay
+export type ContributionLedgerEntryType = 'earn' | 'spend' | 'adjust' | 'decay';
+
+// Append-only record of a change to a member's points; entries are never updated or deleted
+export interface ContributionLedgerEntry {
+  id: string;
+  created: string;
+  guild_id: string;
+  member_name: string;
+  member_id?: string;
+  entry_type: ContributionLedgerEntryType;
+  points: number; // signed change
+  balance_after: number;
+  spawn_event_id?: string; // set for 'earn' entries and loot spending
+  loot_award_id?: string; // set for 'spend' entries
+  reason?: string;
+  created_by?: string; // unset for automatic entries
+}
+
+// A boss drop given to a member for points
+export interface LootAward {
+  id: string;
+  created: string;
+  guild_id: string;
+  spawn_event_id: string | null; // null once the spawn event is deleted
+  boss_id: string;
+  item: string; // one of the boss's drops
+  member_name: string;
+  member_id?: string;
+  points: number; // what the member paid
+  awarded_by: string;
+  notes?: string;
+}
+
+// A member's balance split by where the points came from
+export interface ContributionBalance {
+  guild_id: string;
+  member_name: string;
+  member_id?: string;
+  balance: number;
+  earned: number;
+  spent: number;
+  adjusted: number;
+  decayed: number;
+  last_event_date?: string;
+}
+
+export interface AdjustContributionRequest {
+  member_name: string;
+  points: number; // signed
+  reason: string;
+}
+
+export interface DecayContributionsRequest {
+  percent: number; // of each positive balance
+  reason?: string;
+}
+
+export interface CreateLootAwardRequest {
+  spawn_event_id: string;
+  item: string;
+  member_name: string;
+  points: number;
+  notes?: string;
+}
+
+export interface ContributionLedgerQueryParams {
+  page?: number;
+  limit?: number;
+  member_name?: string;
+  entry_type?: ContributionLedgerEntryType;
+}
+
+export interface LootAwardQueryParams {
+  page?: number;
+  limit?: number;
+  spawn_event_id?: string;
+  member_name?: string;
+}
+
+// Attendance types
+// 'reported' = listed in the spawn event's participants, 'check_in' = checked in during the event
+export type AttendanceSource = 'reported' | 'check_in';
+
+// One member present at one spawn event. The spawn event's participants list mirrors these rows.
+export interface SpawnAttendance extends BaseEntity {
+  spawn_event_id: string;
+  member_name: string;
+  member_id?: string; // set when the name belongs to a registered user
+  source: AttendanceSource;
+  checked_in_at?: string | null;
+  checked_out_at?: string | null;
+  recorded_by?: string; // who listed or checked the member in
+}
+
+export interface AttendanceCheckRequest {
+  member_id?: string; // user id of the member, defaults to the caller
+  guild_id?: string; // required to check in someone else, as an officer of their guild
+}
+
+export interface MemberAttendanceEvent {
+  spawn_event_id: string;
+  boss_id: string;
+  server: string;
+  spawn_time: string;
+  kill_time?: string;
+  attended: boolean;
+  checked_in_at?: string | null;
+  checked_out_at?: string | null;
+}
+
+// A member's attendance of their guild's events: spawns the guild killed or any of its members attended
+export interface MemberAttendance {
+  guild_id: string;
+  member_name: string;
+  member_id?: string;
+  from: string;
+  to: string;
+  total_events: number;
+  attended: number;
+  missed: number;
+  attendance_rate: number; // percentage of total_events
+  events: MemberAttendanceEvent[]; // newest first
+}
+
+export interface MemberAttendanceQueryParams {
+  from?: string; // defaults to 30 days before `to`
+  to?: string; // defaults to now
+}
+
 export interface CreateGuildMemberContributionRequest {
   guild_id: string;
   member_name: string;
@@ -129,7 +718,7 @@ export interface CreateGuildMemberContributionRequest {
 
 export interface UpdateGuildMemberContributionRequest {
   member_name?: string;
-  contribution_score?: number;
+  contribution_score?: number; // recorded as an 'adjust' ledger entry for the difference
 }
 
 export interface GuildMemberContributionQueryParams {
@@ -164,7 +753,14 @@ export interface CreateBossRequest {
   name: string;
   level: number;
   location: string;
-  respawn_time: number;
+  respawn_time: number; // derived from the schedule for fixed-schedule bosses when omitted
+  schedule_type?: BossScheduleType;
+  schedule?: BossSchedule | null;
+  respawn_variance?: number;
+  respawn_window_min?: number;
+  respawn_window_max?: number;
+  respawn_anchor?: RespawnAnchor;
+  post_maintenance_rule?: PostMaintenanceRule | null;
   server: string;
   description?: string;
   difficulty: BossDifficulty;
@@ -173,7 +769,9 @@ export interface CreateBossRequest {
   requirements?: string[];
 }
 
-export interface UpdateBossRequest extends Partial<CreateBossRequest> {
+export interface UpdateBossRequest extends Partial<Omit<CreateBossRequest, 'respawn_window_min' | 'respawn_window_max'>> {
+  respawn_window_min?: number | null; // null clears the window
+  respawn_window_max?: number | null;
   verified?: boolean;
 }
 
@@ -195,21 +793,58 @@ export interface UpdateSpawnEventRequest extends Partial<CreateSpawnEventRequest
   participants?: string[];
 }
 
+export interface RecordKillRequest {
+  kill_time?: string; // defaults to now
+  guild_id?: string;
+  participants?: string[];
+  notes?: string;
+}
+
+export interface BossKilledEvent {
+  boss_id: string;
+  boss_name: string;
+  server: string;
+  spawn_event_id: string;
+  kill_time: string;
+  killed_by_guild?: string;
+  guild_name?: string;
+  participants: string[];
+  next_spawn?: string;
+  timer?: RespawnTimer;
+}
+
 export interface CreateUserRequest {
   username: string;
   password: string;
-  guild?: string;
 }
 
 export interface UpdateUserRequest {
   username?: string;
   favorite_bosses?: string[];
   notification_settings?: NotificationSettings;
-  guild?: string;
   avatar?: string;
   bio?: string;
 }
 
+export interface CreateCommentRequest {
+  content: string;
+  parent_id?: string;
+}
+
+export interface UpdateCommentRequest {
+  content: string;
+}
+
+export interface CreateGuildRequest {
+  name: string;
+  description?: string;
+  notification_channel?: string;
+}
+
+export interface UpdateGuildRequest extends Partial<CreateGuildRequest> {
+  boss_tracking_enabled?: boolean;
+}
+
 export interface LoginRequest {
   username: string;
   password: string;
@@ -217,6 +852,116 @@ export interface LoginRequest {
 
 export interface RegisterRequest extends CreateUserRequest {}
 
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
+// Short-lived access token plus the rotating refresh token of its session
+export interface AuthTokens {
+  token: string;
+  refresh_token: string;
+  expires_in: number; // access token lifetime, in seconds
+  session_id: string;
+}
+
+export interface LoginResponse extends AuthTokens {
+  user: User;
+}
+
+export type LoginResult = ApiResponse<LoginResponse> & {
+  retry_after?: number; // seconds until the account may try again, set when throttled or locked
+};
+
+export type LoginFailureReason = 'unknown_user' | 'invalid_password' | 'throttled' | 'locked';
+
+// Login history entry; user_id is null for usernames that don't exist
+export interface LoginAttempt extends BaseEntity {
+  user_id: string | null;
+  username: string;
+  success: boolean;
+  failure_reason?: LoginFailureReason | null;
+  ip?: string | null;
+  user_agent?: string | null;
+}
+
+export interface LoginAttemptQueryParams {
+  page?: number;
+  limit?: number;
+  success?: boolean;
+}
+
+export interface ChangePasswordRequest {
+  current_password: string;
+  new_password: string;
+}
+
+// Redeems an admin-issued reset code; needs no login
+export interface ResetPasswordRequest {
+  username: string;
+  code: string;
+  new_password: string;
+}
+
+// One-time code an admin hands to a user who lost their password
+export interface PasswordResetCode extends BaseEntity {
+  user_id: string;
+  code_hash: string; // SHA-256 of the normalized code; the code itself is only shown once
+  issued_by: string;
+  expires_at: string;
+  used_at?: string | null;
+  revoked_at?: string | null; // set when a newer code is issued
+}
+
+export interface IssuedResetCode {
+  code: string;
+  expires_at: string;
+}
+
+export interface PasswordPolicy {
+  min_length: number;
+  max_length: number;
+  min_character_classes: number; // of lowercase, uppercase, digits and symbols
+}
+
+export interface AccountSecuritySettings {
+  password_changed_at?: string;
+  password_policy: PasswordPolicy;
+  active_sessions: number;
+  reset_code_expires_at?: string; // an unused reset code is pending
+  last_login?: string;
+  failed_login_attempts: number;
+  locked_until?: string;
+}
+
+// Where a login or refresh came from, recorded on the session
+export interface SessionContext {
+  ip?: string;
+  user_agent?: string;
+}
+
+// Session types
+export type SessionRevokeReason = 'logout' | 'revoked' | 'revoked_all' | 'reuse_detected' | 'password_change';
+
+// One login on one device; every refresh token issued to it belongs to the session
+export interface UserSession extends BaseEntity {
+  user_id: string;
+  device?: string; // e.g. "Firefox on Windows", derived from the user agent
+  user_agent?: string;
+  ip?: string;
+  last_seen_at: string;
+  expires_at: string; // pushed back on every refresh
+  revoked_at?: string | null;
+  revoked_reason?: SessionRevokeReason | null;
+  current?: boolean; // set in session lists for the session making the request
+}
+
+export interface RefreshToken extends BaseEntity {
+  session_id: string;
+  token_hash: string; // SHA-256 of the token; the token itself is never stored
+  expires_at: string;
+  used_at?: string | null; // set once rotated; presenting it again revokes the session
+}
+
 // Query parameters
 export interface BossQueryParams {
   page?: number;
@@ -229,6 +974,19 @@ export interface BossQueryParams {
   sort_order?: 'asc' | 'desc';
 }
 
+export interface GameServerQueryParams {
+  page?: number;
+  limit?: number;
+  region?: string;
+  status?: GameServerStatus;
+}
+
+export interface ServerEventQueryParams {
+  page?: number;
+  limit?: number;
+  type?: ServerEventType;
+}
+
 export interface SpawnEventQueryParams {
   page?: number;
   limit?: number;
@@ -239,6 +997,14 @@ export interface SpawnEventQueryParams {
   date_to?: string;
 }
 
+export interface DataExportQueryParams {
+  format?: DataFormat;
+  server?: string;
+  boss_id?: string; // spawn exports only
+  date_from?: string; // spawn exports only
+  date_to?: string;
+}
+
 export interface UserQueryParams {
   page?: number;
   limit?: number;
@@ -248,16 +1014,95 @@ export interface UserQueryParams {
   sort_order?: 'asc' | 'desc';
 }
 
+export interface CommentQueryParams {
+  page?: number;
+  limit?: number;
+  sort_by?: 'created' | 'likes';
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface GuildQueryParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sort_by?: 'name' | 'created';
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface RoleChangeQueryParams {
+  page?: number;
+  limit?: number;
+  scope?: RoleScope;
+  user_id?: string;
+  guild_id?: string;
+}
+
+export interface GuildJoinRequestQueryParams {
+  page?: number;
+  limit?: number;
+  status?: GuildJoinRequestStatus;
+}
+
 // Timer and notification types
 export interface RespawnTimer {
   boss_id: string;
   boss_name: string;
   server: string;
   last_spawn: string;
-  next_spawn: string;
-  time_remaining: number; // in seconds
+  next_spawn: string; // same as window_open
+  window_open: string; // earliest time the boss can spawn
+  window_close: string; // latest time the boss can spawn
+  window_status: RespawnWindowStatus;
+  time_remaining: number; // in seconds, until the window opens
+  time_until_close: number; // in seconds
   is_active: boolean;
   notifications_sent: NotificationTiming[];
+  prediction?: SpawnPrediction;
+}
+
+export type RespawnWindowStatus = 'waiting' | 'open' | 'closed';
+
+export interface RespawnWindow {
+  min: number; // minutes after the anchor
+  max: number;
+}
+
+export interface SpawnPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Respawn interval distribution of one boss on one server, in minutes.
+ * Learned from verified spawn events, or taken from the boss's configured
+ * respawn window until enough events are known.
+ */
+export interface SpawnIntervalModel {
+  boss_id: string;
+  server: string;
+  source: 'observed' | 'configured' | 'schedule';
+  sample_size: number;
+  fixed_minutes: number; // part of the interval that always elapses (0 for fixed schedules)
+  random_window_minutes: number; // width of the random part on top of it
+  mean: number;
+  median: number;
+  std_dev: number;
+  min: number;
+  max: number;
+  percentiles: SpawnPercentiles;
+}
+
+export interface SpawnPrediction {
+  cycle: number; // 1 = the next spawn, 2 = the one after, ...
+  anchor: string; // the spawn this prediction counts from (for fixed schedules, the scheduled spawn)
+  window_start: string; // p10
+  expected: string; // p50
+  window_end: string; // p90
+  percentiles: Record<keyof SpawnPercentiles, string>;
+  confidence: number; // 0-100
 }
 
 export interface NotificationEvent {
@@ -269,6 +1114,48 @@ export interface NotificationEvent {
   scheduled_for: string;
   sent: boolean;
   sent_at?: string;
+  spawn_time?: string; // the predicted spawn this notification refers to
+  timing_key?: string; // e.g. "minutes_5", matches a NotificationTiming entry
+  attempts?: number;
+  next_attempt_at?: string;
+  last_error?: string;
+  channels?: string[]; // channels that delivered the notification
+}
+
+export interface NotificationQueryParams {
+  page?: number;
+  limit?: number;
+  sent?: boolean;
+  type?: NotificationEvent['type'];
+}
+
+// Delivery adapter used by NotificationService; send() should throw when delivery fails
+export interface NotificationChannel {
+  name: string;
+  isEnabledFor(user: User, notification: NotificationEvent): boolean;
+  send(notification: NotificationEvent, user: User): Promise<void>;
+}
+
+// File storage types
+export interface StoredFile {
+  key: string; // path inside the storage backend, e.g. "bosses/<id>/<file>.jpg"
+  url: string; // public URL clients can load
+}
+
+// Backend used by UploadService; the local-disk adapter is meant for development
+export interface StorageAdapter {
+  name: string;
+  save(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+  delete(key: string): Promise<void>;
+  keyFromUrl(url: string): string | null;
+}
+
+export interface UploadedImage {
+  image: string;
+  thumbnail: string;
+  width: number;
+  height: number;
+  content_type: string;
 }
 
 // Error types
@@ -282,7 +1169,9 @@ export interface ApiError {
 export interface SocketEvents {
   'boss:spawn': SpawnEvent;
   'boss:update': Boss;
+  'boss:killed': BossKilledEvent;
   'timer:update': RespawnTimer;
+  'server:timers': ServerTimersEvent;
   'notification:new': NotificationEvent;
   'guild:update': Guild;
 }
@@ -298,7 +1187,8 @@ export interface AppConfig {
   };
   jwt: {
     secret: string;
-    expiresIn: string;
+    expiresIn: string; // access token lifetime
+    refreshTokenDays: number;
   };
   rateLimit: {
     windowMs: number;
@@ -307,6 +1197,10 @@ export interface AppConfig {
   upload: {
     maxFileSize: number;
     allowedTypes: string[];
+    storage: 'local' | 'supabase';
+    localDirectory: string;
+    maxImageDimension: number;
+    thumbnailSize: number;
   };
   cors: {
     origin: string[];
@@ -318,4 +1212,58 @@ export interface AppConfig {
     level: string;
     file: string;
   };
+  scheduler: {
+    enabled: boolean;
+    tickCron: string;
+    syncCron: string;
+    maintenanceCron: string;
+    guildStatsCron: string;
+  };
+  notifications: {
+    dispatchCron: string;
+    maxAttempts: number;
+    retryDelaySeconds: number;
+    pushWebhookUrl: string;
+  };
+  discord: {
+    allowedWebhookHosts: string[];
+    maxRetries: number;
+    requestTimeoutMs: number;
+  };
+  verification: {
+    threshold: number;
+    minWeight: number;
+    newUserWeight: number;
+  };
+  prediction: {
+    minSamples: number;
+    historySize: number;
+  };
+  calendar: {
+    publicUrl: string;
+    spawnsPerBoss: number;
+    cacheSeconds: number;
+    cacheSize: number;
+  };
+  password: {
+    minLength: number;
+    resetCodeMinutes: number;
+  };
+  login: {
+    freeAttempts: number;
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    lockoutAttempts: number;
+    lockoutMinutes: number;
+    failureWindowMinutes: number;
+  };
+  leaderboards: {
+    refreshCron: string;
+    size: number;
+    seasonStart: string;
+    seasonDays: number;
+  };
+  attendance: {
+    checkInWindowMinutes: number;
+  };
 }
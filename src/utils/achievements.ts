@@ -0,0 +1,110 @@
+import { AchievementDefinition, AchievementId, AchievementTrigger, UserStats, UserStatsIncrements } from '@/types';
+
+interface AchievementRule extends AchievementDefinition {
+  isEarned(stats: UserStats): boolean;
+}
+
+// Checked in this order; the triggers say which activity can complete each one
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_report',
+    name: 'First Sighting',
+    description: 'Report your first boss spawn',
+    triggers: ['spawn'],
+    isEarned: stats => (stats.reports_count || 0) >= 1
+  },
+  {
+    id: 'reports_25',
+    name: 'Regular Scout',
+    description: 'Report 25 boss spawns',
+    triggers: ['spawn'],
+    isEarned: stats => (stats.reports_count || 0) >= 25
+  },
+  {
+    id: 'first_verified',
+    name: 'Confirmed',
+    description: 'Have a spawn report verified',
+    triggers: ['spawn', 'verify'],
+    isEarned: stats => (stats.verified_reports || 0) >= 1
+  },
+  {
+    id: 'verified_100',
+    name: 'Centurion',
+    description: 'Have 100 spawn reports verified',
+    triggers: ['spawn', 'verify'],
+    isEarned: stats => (stats.verified_reports || 0) >= 100
+  },
+  {
+    id: 'first_kill',
+    name: 'First Blood',
+    description: 'Take part in a boss kill',
+    triggers: ['kill'],
+    isEarned: stats => (stats.kills_count || 0) >= 1
+  },
+  {
+    id: 'kills_50',
+    name: 'Boss Hunter',
+    description: 'Take part in 50 boss kills',
+    triggers: ['kill'],
+    isEarned: stats => (stats.kills_count || 0) >= 50
+  },
+  {
+    id: 'first_legendary_kill',
+    name: 'Legend Slayer',
+    description: 'Take part in the kill of a legendary boss',
+    triggers: ['kill'],
+    isEarned: stats => (stats.legendary_kills || 0) >= 1
+  },
+  {
+    id: 'streak_7',
+    name: 'Dedicated',
+    description: 'Report spawns on 7 days in a row',
+    triggers: ['spawn'],
+    isEarned: stats => (stats.longest_report_streak || 0) >= 7
+  },
+  {
+    id: 'streak_30',
+    name: 'Unstoppable',
+    description: 'Report spawns on 30 days in a row',
+    triggers: ['spawn'],
+    isEarned: stats => (stats.longest_report_streak || 0) >= 30
+  }
+];
+
+export class AchievementUtils {
+  static getCatalog(): AchievementDefinition[] {
+    return ACHIEVEMENT_RULES.map(rule => this.toDefinition(rule));
+  }
+
+  static getDefinition(id: AchievementId): AchievementDefinition | undefined {
+    return this.getCatalog().find(definition => definition.id === id);
+  }
+
+  /**
+   * Achievements the activity completes that the user does not have yet
+   */
+  static getNewlyEarned(stats: UserStats, triggers: AchievementTrigger[]): AchievementDefinition[] {
+    const owned = new Set(stats.achievements || []);
+    return ACHIEVEMENT_RULES
+      .filter(rule => !owned.has(rule.id))
+      .filter(rule => rule.triggers.some(trigger => triggers.includes(trigger)))
+      .filter(rule => rule.isEarned(stats))
+      .map(rule => this.toDefinition(rule));
+  }
+
+  /**
+   * Counter changes for a kill, or with `delta` -1 for taking back one whose spawn lost its verification
+   */
+  static killIncrements(legendary: boolean, delta: 1 | -1 = 1): UserStatsIncrements {
+    return legendary ? { kills_count: delta, legendary_kills: delta } : { kills_count: delta };
+  }
+
+  private static toDefinition(rule: AchievementRule): AchievementDefinition {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      triggers: rule.triggers
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Boss,
+  BossDifficulty,
+  SpawnEvent,
+  SpawnAttendance,
+  ContributionEventType,
+  ContributionRules,
+  UpdateContributionRulesRequest
+} from '@/types';
+import { VerificationUtils } from './verification';
+
+// One point per event whatever the boss, which is how scores were counted before rules existed
+export const DEFAULT_CONTRIBUTION_RULES: ContributionRules = {
+  difficulty_weights: {
+    [BossDifficulty.EASY]: 1,
+    [BossDifficulty.MEDIUM]: 1,
+    [BossDifficulty.HARD]: 1,
+    [BossDifficulty.EXTREME]: 1,
+    [BossDifficulty.LEGENDARY]: 1
+  },
+  event_weights: {
+    kill: 1,
+    spawn: 1
+  },
+  reporter_bonus: 0,
+  no_show_penalty: 0
+};
+
+export interface ContributionRosterEntry {
+  member_name: string;
+  member_id?: string;
+  since?: string; // creation of the member's contribution record; no-shows only count after it
+}
+
+// Who attended a spawn event, as recorded in spawn_attendance
+export type ContributionAttendee = Pick<SpawnAttendance, 'member_name' | 'member_id'>;
+
+// A spawn event together with its attendance, which is what gets scored
+export interface AttendedSpawnEvent {
+  spawnEvent: SpawnEvent;
+  attendees: ContributionAttendee[];
+}
+
+export interface MemberEventScore {
+  points: number;
+  participated: boolean;
+}
+
+export class ContributionUtils {
+  static resolveRules(rules?: Partial<ContributionRules> | null): ContributionRules {
+    return {
+      difficulty_weights: { ...DEFAULT_CONTRIBUTION_RULES.difficulty_weights, ...(rules?.difficulty_weights || {}) },
+      event_weights: { ...DEFAULT_CONTRIBUTION_RULES.event_weights, ...(rules?.event_weights || {}) },
+      reporter_bonus: rules?.reporter_bonus ?? DEFAULT_CONTRIBUTION_RULES.reporter_bonus,
+      no_show_penalty: rules?.no_show_penalty ?? DEFAULT_CONTRIBUTION_RULES.no_show_penalty
+    };
+  }
+
+  static applyRulesUpdate(current: ContributionRules, update: UpdateContributionRulesRequest): ContributionRules {
+    return {
+      difficulty_weights: { ...current.difficulty_weights, ...(update.difficulty_weights || {}) },
+      event_weights: { ...current.event_weights, ...(update.event_weights || {}) },
+      reporter_bonus: update.reporter_bonus ?? current.reporter_bonus,
+      no_show_penalty: update.no_show_penalty ?? current.no_show_penalty
+    };
+  }
+
+  static getEventType(spawnEvent: SpawnEvent): ContributionEventType {
+    return spawnEvent.kill_time ? 'kill' : 'spawn';
+  }
+
+  /**
+   * Points one spawn event is worth to each roster member of a guild, keyed by
+   * member name. Attendees are matched by user id, or by name when either side
+   * has no account; members that neither took part, reported it nor missed it
+   * are left out. Only verified spawns score: pending and rejected reports are
+   * worth nothing.
+   */
+  static scoreEvent(
+    attendedEvent: AttendedSpawnEvent | null,
+    boss: Pick<Boss, 'difficulty'> | null,
+    guildId: string,
+    rules: ContributionRules,
+    roster: ContributionRosterEntry[]
+  ): Map<string, MemberEventScore> {
+    const scores = new Map<string, MemberEventScore>();
+    if (!attendedEvent || VerificationUtils.getStatus(attendedEvent.spawnEvent) !== 'verified') return scores;
+
+    const { spawnEvent, attendees } = attendedEvent;
+    const difficultyWeight = boss ? rules.difficulty_weights[boss.difficulty] ?? 1 : 1;
+    const participationPoints = difficultyWeight * rules.event_weights[this.getEventType(spawnEvent)];
+    const isGuildKill = !!spawnEvent.kill_time && spawnEvent.killed_by_guild === guildId;
+
+    for (const member of roster) {
+      const participated = attendees.some(attendee =>
+        attendee.member_id && member.member_id
+          ? attendee.member_id === member.member_id
+          : attendee.member_name === member.member_name
+      );
+      let points = participated ? participationPoints : 0;
+
+      if (member.member_id && member.member_id === spawnEvent.reported_by && !spawnEvent.imported) {
+        points += rules.reporter_bonus;
+      }
+
+      const onRoster = !!member.since && new Date(member.since).getTime() <= new Date(spawnEvent.spawn_time).getTime();
+      if (isGuildKill && !participated && onRoster) {
+        points -= rules.no_show_penalty;
+      }
+
+      if (participated || points !== 0) {
+        scores.set(member.member_name, { points: this.roundPoints(points), participated });
+      }
+    }
+
+    return scores;
+  }
+
+  static roundPoints(points: number): number {
+    return Math.round(points * 100) / 100;
+  }
+}
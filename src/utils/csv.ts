@@ -0,0 +1,97 @@
+export class CsvUtils {
+  /**
+   * Parse RFC 4180 CSV (quoted fields, doubled quotes, embedded line breaks)
+   * into one object per line, keyed by the header line. Blank lines are skipped.
+   */
+  static parse(text: string): Record<string, string>[] {
+    const rows = this.parseRows(text.replace(/^﻿/, ''));
+    const header = rows.shift();
+    if (!header) return [];
+
+    const columns = header.map(column => column.trim());
+    return rows
+      .filter(row => row.some(cell => cell.trim().length > 0))
+      .map(row => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, index) => {
+          if (column) record[column] = row[index] ?? '';
+        });
+        return record;
+      });
+  }
+
+  static stringify(columns: string[], records: Record<string, unknown>[]): string {
+    const lines = [columns.map(column => this.formatCell(column)).join(',')];
+    for (const record of records) {
+      lines.push(columns.map(column => this.formatCell(record[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Arrays are joined with "|", objects are written as JSON
+   */
+  static formatCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+
+    let text: string;
+    if (Array.isArray(value)) {
+      text = value.join('|');
+    } else if (typeof value === 'object') {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value);
+    }
+
+    return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static parseList(value: string): string[] {
+    return value.split('|').map(item => item.trim()).filter(item => item.length > 0);
+  }
+
+  private static parseRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell.length > 0 || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import config from '@/config';
+import { DiscordEventType, DiscordMessageTemplate } from '@/types';
+
+export const DEFAULT_DISCORD_TEMPLATES: Record<DiscordEventType, DiscordMessageTemplate> = {
+  spawn_soon: {
+    title: 'Boss Spawn Alert: {boss_name}',
+    description: 'The boss **{boss_name}** is expected to spawn in {time_remaining}!',
+    color: 0xf39c12
+  },
+  spawned: {
+    title: 'Boss Spawned: {boss_name}',
+    description: '**{boss_name}** should now be up at {location}.',
+    color: 0xe74c3c
+  },
+  killed: {
+    title: 'Boss Killed: {boss_name}',
+    description: '**{boss_name}** was killed{killed_by}. Next spawn expected at {next_spawn}.',
+    color: 0x2ecc71
+  }
+};
+
+// First wait before retrying a 5xx response; doubles with every attempt
+const SERVER_ERROR_BACKOFF_MS = 1000;
+
+export class DiscordUtils {
+  // Per-webhook time (ms) before which we must not send, taken from Discord's rate-limit headers
+  private static blockedUntil: Map<string, number> = new Map();
+
+  static isAllowedWebhookUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      const isLocal = ['localhost', '127.0.0.1'].includes(parsed.hostname);
+
+      if (parsed.protocol !== 'https:' && !(isLocal && parsed.protocol === 'http:')) return false;
+      return config.discord.allowedWebhookHosts.includes(parsed.hostname);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * HMAC-SHA256 over "<timestamp>.<body>", the same scheme guilds use to verify test pings
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  static renderTemplate(template: string, variables: Record<string, string | number | undefined>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+      const value = variables[key];
+      return value === undefined ? match : String(value);
+    });
+  }
+
+  static buildEmbed(template: DiscordMessageTemplate, variables: Record<string, string | number | undefined>, fields: { name: string; value: string; inline?: boolean }[] = []): any {
+    return {
+      title: this.renderTemplate(template.title, variables),
+      description: this.renderTemplate(template.description, variables),
+      color: template.color ?? 0xe74c3c,
+      fields,
+      timestamp: new Date().toISOString(),
+      footer: {
+        text: 'Boss Respawn Tracker'
+      }
+    };
+  }
+
+  /**
+   * POST a payload to a Discord webhook, waiting out 429 responses (retry_after) and
+   * exhausted rate-limit buckets and retrying server errors with a backoff. Each
+   * request is cut off after DISCORD_REQUEST_TIMEOUT_MS. A string payload is sent as
+   * is, e.g. when it was signed. Throws when the webhook keeps failing.
+   */
+  static async postWebhook(url: string, payload: any, headers: Record<string, string> = {}): Promise<void> {
+    const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    let lastError = 'Discord webhook request failed';
+
+    for (let attempt = 0; attempt <= config.discord.maxRetries; attempt++) {
+      const waitMs = (this.blockedUntil.get(url) || 0) - Date.now();
+      if (waitMs > 0) {
+        await this.sleep(waitMs);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body,
+          signal: AbortSignal.timeout(config.discord.requestTimeoutMs)
+        });
+      } catch (error: any) {
+        if (error?.name === 'TimeoutError') {
+          throw new Error(`Discord webhook did not respond within ${config.discord.requestTimeoutMs}ms`);
+        }
+        throw error;
+      }
+
+      this.updateRateLimit(url, response);
+
+      if (response.ok) return;
+
+      if (response.status === 429) {
+        const retryAfterMs = await this.getRetryAfterMs(response);
+        this.blockedUntil.set(url, Date.now() + retryAfterMs);
+        lastError = `Rate limited by Discord (retry after ${retryAfterMs}ms)`;
+        continue;
+      }
+
+      if (response.status >= 500) {
+        lastError = `Discord webhook responded with ${response.status}`;
+        if (attempt < config.discord.maxRetries) await this.sleep(SERVER_ERROR_BACKOFF_MS * Math.pow(2, attempt));
+        continue;
+      }
+
+      // Client errors (bad URL, deleted webhook) will not succeed on retry
+      const text = await response.text().catch(() => '');
+      throw new Error(`Discord webhook responded with ${response.status}${text ? `: ${text}` : ''}`);
+    }
+
+    throw new Error(lastError);
+  }
+
+  private static updateRateLimit(url: string, response: Response): void {
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const resetAfter = response.headers.get('x-ratelimit-reset-after');
+
+    if (remaining === '0' && resetAfter) {
+      this.blockedUntil.set(url, Date.now() + parseFloat(resetAfter) * 1000);
+    }
+  }
+
+  private static async getRetryAfterMs(response: Response): Promise<number> {
+    let seconds = parseFloat(response.headers.get('retry-after') || '');
+
+    try {
+      const data: any = await response.json();
+      if (typeof data?.retry_after === 'number') {
+        seconds = data.retry_after;
+      }
+    } catch (error) {
+      // Body is not JSON, fall back to the header
+    }
+
+    // Never wait longer than a minute in-process
+    return Math.min(isNaN(seconds) ? 1000 : seconds * 1000, 60000);
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import moment from 'moment-timezone';
+import { Boss, CalendarEvent, SpawnPrediction } from '@/types';
+import { TimerUtils } from './timer';
+
+const PRODUCT_ID = '-//Boss Respawn Tracker//Spawn Calendar//EN';
+const UID_DOMAIN = 'boss-respawn-tracker';
+// Lines longer than this many octets must be folded (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+// DTEND must come after DTSTART, so instant spawns still get a short event
+const MIN_EVENT_MINUTES = 15;
+
+export class ICalUtils {
+  static generateToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  /**
+   * Stable per predicted spawn: respawn-timer bosses key on the spawn the
+   * prediction counts from plus the cycle, fixed schedules on the scheduled
+   * time. A shifted prediction of the same cycle updates its event in place;
+   * a new report starts new events and the old ones drop out of the feed.
+   */
+  static predictionUid(boss: Boss, prediction: SpawnPrediction): string {
+    const anchor = moment(prediction.anchor).unix();
+    const key = TimerUtils.isFixedSchedule(boss) ? `${anchor}` : `${anchor}-${prediction.cycle}`;
+    return `${boss.id}-${key}@${UID_DOMAIN}`;
+  }
+
+  static predictionToEvent(boss: Boss, prediction: SpawnPrediction): CalendarEvent {
+    const description = [
+      `Expected spawn: ${moment(prediction.expected).toISOString()}`,
+      `Window: ${moment(prediction.window_start).toISOString()} - ${moment(prediction.window_end).toISOString()}`,
+      `Confidence: ${prediction.confidence}%`,
+      `Level ${boss.level} ${boss.difficulty} boss on ${boss.server}`
+    ];
+
+    return {
+      uid: this.predictionUid(boss, prediction),
+      start: prediction.window_start,
+      end: prediction.window_end,
+      summary: `${boss.name} spawn (${boss.server})`,
+      description: description.join('\n'),
+      location: boss.location,
+      categories: [boss.difficulty, boss.server]
+    };
+  }
+
+  static buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+    const stamp = this.formatDate(now.toISOString());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(name)}`,
+      'X-PUBLISHED-TTL:PT15M',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT15M'
+    ];
+
+    for (const event of events) {
+      const start = moment(event.start);
+      const end = moment.max(moment(event.end), start.clone().add(MIN_EVENT_MINUTES, 'minutes'));
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${this.formatDate(start.toISOString())}`,
+        `DTEND:${this.formatDate(end.toISOString())}`,
+        `SUMMARY:${this.escapeText(event.summary)}`
+      );
+      if (event.description) lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+      if (event.location) lines.push(`LOCATION:${this.escapeText(event.location)}`);
+      if (event.categories && event.categories.length > 0) {
+        lines.push(`CATEGORIES:${event.categories.map(category => this.escapeText(category)).join(',')}`);
+      }
+      lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  static formatDate(time: string): string {
+    return moment.utc(time).format('YYYYMMDD[T]HHmmss[Z]');
+  }
+
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Split a content line into 75-octet chunks without breaking a UTF-8 character
+   */
+  static foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+    const chunks: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const octets = Buffer.byteLength(char);
+      // Continuation lines start with a space, which counts towards their length
+      const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (currentOctets + octets > limit) {
+        chunks.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += octets;
+    }
+    chunks.push(current);
+
+    return chunks.join('\r\n ');
+  }
+}
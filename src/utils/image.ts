@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import config from '@/config';
+
+export interface ProcessedImage {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+  contentType: string;
+  extension: string;
+}
+
+const FORMATS: Record<string, { extension: string; format: 'jpeg' | 'png' | 'gif' | 'webp' }> = {
+  'image/jpeg': { extension: 'jpg', format: 'jpeg' },
+  'image/png': { extension: 'png', format: 'png' },
+  'image/gif': { extension: 'gif', format: 'gif' },
+  'image/webp': { extension: 'webp', format: 'webp' }
+};
+
+export class ImageUtils {
+  /**
+   * Identify an image from its leading bytes. Returns the MIME type, or null when
+   * the data is not one of the supported formats.
+   */
+  static detectMimeType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return 'image/jpeg';
+    }
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return 'image/png';
+    }
+    if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.subarray(0, 6).toString('ascii'))) {
+      return 'image/gif';
+    }
+    if (buffer.length >= 12 && buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') {
+      return 'image/webp';
+    }
+    return null;
+  }
+
+  static isSupportedMimeType(mimeType: string): boolean {
+    return mimeType in FORMATS;
+  }
+
+  /**
+   * Re-encode the image (which drops EXIF and other metadata), applying the EXIF
+   * orientation first, and build a square thumbnail
+   */
+  static async process(buffer: Buffer, mimeType: string): Promise<ProcessedImage> {
+    const target = FORMATS[mimeType];
+    if (!target) {
+      throw new Error(`Unsupported image type: ${mimeType}`);
+    }
+
+    const maxDimension = config.upload.maxImageDimension;
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .toFormat(target.format)
+      .toBuffer({ resolveWithObject: true });
+
+    const thumbnail = await sharp(buffer)
+      .rotate()
+      .resize(config.upload.thumbnailSize, config.upload.thumbnailSize, { fit: 'cover' })
+      .toFormat(target.format)
+      .toBuffer();
+
+    return {
+      image: data,
+      thumbnail,
+      width: info.width,
+      height: info.height,
+      contentType: mimeType,
+      extension: target.extension
+    };
+  }
+}
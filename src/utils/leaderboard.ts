@@ -0,0 +1,141 @@
+import moment from 'moment';
+import config from '@/config';
+import {
+  LeaderboardPeriod,
+  SpawnEvent,
+  ReporterLeaderboardEntry,
+  GuildLeaderboardEntry,
+  ContributorLeaderboardEntry
+} from '@/types';
+import { VerificationUtils } from './verification';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'season', 'all_time'];
+
+export interface PeriodRange {
+  start: moment.Moment | null; // null = since the beginning
+  end: moment.Moment;
+}
+
+type Unranked<T> = Omit<T, 'rank'>;
+
+export class LeaderboardUtils {
+  /**
+   * The window a period covers at the given moment (UTC)
+   */
+  static getPeriodRange(period: LeaderboardPeriod, now: moment.Moment = moment()): PeriodRange {
+    const utcNow = now.clone().utc();
+
+    switch (period) {
+      case 'weekly': {
+        const start = utcNow.clone().startOf('isoWeek');
+        return { start, end: start.clone().add(1, 'week') };
+      }
+      case 'monthly': {
+        const start = utcNow.clone().startOf('month');
+        return { start, end: start.clone().add(1, 'month') };
+      }
+      case 'season': {
+        // Seasons follow each other every seasonDays, counted from seasonStart
+        const seasonStart = moment.utc(config.leaderboards.seasonStart).startOf('day');
+        const elapsedSeasons = Math.floor(utcNow.diff(seasonStart, 'days') / config.leaderboards.seasonDays);
+        const start = seasonStart.clone().add(elapsedSeasons * config.leaderboards.seasonDays, 'days');
+        return { start, end: start.clone().add(config.leaderboards.seasonDays, 'days') };
+      }
+      default:
+        return { start: null, end: utcNow };
+    }
+  }
+
+  /**
+   * Most verified reports first, accuracy breaks ties. System-generated and imported events are left out.
+   */
+  static rankReporters(spawnEvents: SpawnEvent[]): Unranked<ReporterLeaderboardEntry>[] {
+    const reporters = new Map<string, Unranked<ReporterLeaderboardEntry>>();
+
+    for (const event of spawnEvents) {
+      if (!event.reported_by || event.reported_by === 'system' || event.imported) continue;
+
+      const entry = reporters.get(event.reported_by) || {
+        user_id: event.reported_by,
+        username: '',
+        reports: 0,
+        verified_reports: 0,
+        rejected_reports: 0,
+        accuracy_rate: 0
+      };
+      entry.reports++;
+      if (VerificationUtils.getStatus(event) === 'verified') entry.verified_reports++;
+      if (event.verification_status === 'rejected') entry.rejected_reports++;
+      reporters.set(event.reported_by, entry);
+    }
+
+    return Array.from(reporters.values())
+      .map(entry => {
+        const resolved = entry.verified_reports + entry.rejected_reports;
+        const accuracyRate = resolved > 0 ? Math.round((entry.verified_reports / resolved) * 10000) / 100 : 0;
+        return { ...entry, accuracy_rate: accuracyRate };
+      })
+      .sort((a, b) => b.verified_reports - a.verified_reports || b.accuracy_rate - a.accuracy_rate || b.reports - a.reports);
+  }
+
+  /**
+   * Most kills first, participation breaks ties. Only kills of verified spawns count.
+   */
+  static rankGuilds(spawnEvents: SpawnEvent[]): Unranked<GuildLeaderboardEntry>[] {
+    const guilds = new Map<string, Unranked<GuildLeaderboardEntry>>();
+
+    for (const event of spawnEvents) {
+      if (!event.kill_time || !event.killed_by_guild || VerificationUtils.getStatus(event) !== 'verified') continue;
+
+      const entry = guilds.get(event.killed_by_guild) || {
+        guild_id: event.killed_by_guild,
+        guild_name: '',
+        kills: 0,
+        participations: 0
+      };
+      entry.kills++;
+      entry.participations += (event.participants || []).length;
+      guilds.set(event.killed_by_guild, entry);
+    }
+
+    return Array.from(guilds.values())
+      .sort((a, b) => b.kills - a.kills || b.participations - a.participations);
+  }
+
+  /**
+   * Most kills (reported or taken part in) first, reports break ties. Only
+   * kills of verified spawns count; imported events are left out. `attendees` maps a spawn event id to the user ids that attended it.
+   */
+  static rankContributors(
+    spawnEvents: SpawnEvent[],
+    attendees: Map<string, string[]>
+  ): Unranked<ContributorLeaderboardEntry>[] {
+    const contributors = new Map<string, Unranked<ContributorLeaderboardEntry>>();
+    const entryFor = (userId: string): Unranked<ContributorLeaderboardEntry> => {
+      const entry = contributors.get(userId) || { user_id: userId, username: '', kills: 0, reports: 0 };
+      contributors.set(userId, entry);
+      return entry;
+    };
+
+    for (const event of spawnEvents) {
+      if (event.imported) continue;
+      if (event.reported_by && event.reported_by !== 'system') entryFor(event.reported_by).reports++;
+      if (!event.kill_time || VerificationUtils.getStatus(event) !== 'verified') continue;
+
+      const killers = new Set<string>();
+      if (event.kill_reported_by) killers.add(event.kill_reported_by);
+      (attendees.get(event.id) || []).forEach(userId => killers.add(userId));
+      killers.forEach(userId => entryFor(userId).kills++);
+    }
+
+    return Array.from(contributors.values())
+      .sort((a, b) => b.kills - a.kills || b.reports - a.reports);
+  }
+
+  /**
+   * Number the entries 1..n, keeping at most `size` of them
+   */
+  static withRanks<T>(entries: T[], size: number): (T & { rank: number })[] {
+    return entries.slice(0, size).map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+}
@@ -0,0 +1,76 @@
+import moment from 'moment';
+import config from '@/config';
+import { User } from '@/types';
+
+type LoginState = Pick<User, 'failed_login_attempts' | 'last_failed_login' | 'locked_until'>;
+
+export class LoginGuardUtils {
+  /**
+   * Failed logins that still count; a streak is forgotten once its last
+   * failure is older than the failure window
+   */
+  static getActiveFailures(user: LoginState, now: moment.Moment = moment()): number {
+    if (!user.failed_login_attempts || !user.last_failed_login) return 0;
+    const windowStart = now.clone().subtract(config.login.failureWindowMinutes, 'minutes');
+    return moment(user.last_failed_login).isBefore(windowStart) ? 0 : user.failed_login_attempts;
+  }
+
+  static isLocked(user: LoginState, now: moment.Moment = moment()): boolean {
+    return !!user.locked_until && moment(user.locked_until).isAfter(now);
+  }
+
+  /**
+   * How long to wait after the given number of consecutive failures:
+   * nothing for the first few, then doubling from the base delay
+   */
+  static getDelaySeconds(failures: number): number {
+    const extraFailures = failures - config.login.freeAttempts;
+    if (extraFailures <= 0) return 0;
+    return Math.min(config.login.baseDelaySeconds * Math.pow(2, extraFailures - 1), config.login.maxDelaySeconds);
+  }
+
+  /**
+   * Seconds until the account may attempt another login, 0 if it may right away
+   */
+  static getRetryAfterSeconds(user: LoginState, now: moment.Moment = moment()): number {
+    if (this.isLocked(user, now)) {
+      return Math.ceil(moment(user.locked_until).diff(now, 'milliseconds') / 1000);
+    }
+
+    const failures = this.getActiveFailures(user, now);
+    if (failures === 0 || !user.last_failed_login) return 0;
+
+    const allowedAt = moment(user.last_failed_login).add(this.getDelaySeconds(failures), 'seconds');
+    return allowedAt.isAfter(now) ? Math.ceil(allowedAt.diff(now, 'milliseconds') / 1000) : 0;
+  }
+
+  /**
+   * Login state after one more failed attempt; reaching the lockout threshold
+   * locks the account and starts a fresh streak for when the lock ends
+   */
+  static applyFailure(user: LoginState, now: moment.Moment = moment()): Required<LoginState> {
+    const failures = this.getActiveFailures(user, now) + 1;
+
+    if (failures >= config.login.lockoutAttempts) {
+      return {
+        failed_login_attempts: 0,
+        last_failed_login: now.toISOString(),
+        locked_until: now.clone().add(config.login.lockoutMinutes, 'minutes').toISOString()
+      };
+    }
+
+    return {
+      failed_login_attempts: failures,
+      last_failed_login: now.toISOString(),
+      locked_until: null
+    };
+  }
+
+  static cleared(): Required<LoginState> {
+    return {
+      failed_login_attempts: 0,
+      last_failed_login: null,
+      locked_until: null
+    };
+  }
+}
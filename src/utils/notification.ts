@@ -1,4 +1,6 @@
-import { NotificationEvent, User, Boss, RespawnTimer } from '@/types';
+import { NotificationEvent, NotificationTiming, User, Boss, RespawnTimer } from '@/types';
+import { SocketUtils } from '@/utils/socket';
+import { DiscordUtils, DEFAULT_DISCORD_TEMPLATES } from '@/utils/discord';
 
 export class NotificationUtils {
   static formatTimeRemaining(seconds: number): string {
@@ -44,6 +46,11 @@ export class NotificationUtils {
     };
   }
 
+  static formatSpawnAlertMessage(boss: Boss, timing: NotificationTiming): string {
+    const unit = timing.value === 1 ? timing.type.replace(/s$/, '') : timing.type;
+    return `${boss.name} (Lv. ${boss.level}) spawns in ${timing.value} ${unit} at ${boss.location} [${boss.server}]`;
+  }
+
   static generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
@@ -54,10 +61,15 @@ export class NotificationUtils {
         return false;
       }
 
-      // This would integrate with a push notification service like Firebase
-      // For now, we'll just log the notification
-      console.log(`Push notification sent to user ${user.id} for boss ${boss.name}`);
-      return true;
+      // Deliver in-app; queued alerts with retries go through NotificationService instead
+      const notification = this.createNotificationEvent(
+        user.id,
+        boss.id,
+        'spawn_alert',
+        `${boss.name} spawns in ${this.formatTimeRemaining(timer.time_remaining)}`,
+        new Date().toISOString()
+      );
+      return SocketUtils.emitToRooms([SocketUtils.userRoom(user.id)], 'notification:new', notification);
     } catch (error) {
       console.error('Failed to send push notification:', error);
       return false;
@@ -80,11 +92,13 @@ export class NotificationUtils {
 
   static async sendDiscordNotification(webhookUrl: string, boss: Boss, timer: RespawnTimer): Promise<boolean> {
     try {
-      const embed = {
-        title: `Boss Spawn Alert: ${boss.name}`,
-        description: `The boss **${boss.name}** is expected to spawn soon!`,
-        color: 0xe74c3c,
-        fields: [
+      const embed = DiscordUtils.buildEmbed(
+        DEFAULT_DISCORD_TEMPLATES.spawn_soon,
+        {
+          boss_name: boss.name,
+          time_remaining: this.formatTimeRemaining(timer.time_remaining)
+        },
+        [
           {
             name: 'Level',
             value: boss.level.toString(),
@@ -105,16 +119,10 @@ export class NotificationUtils {
             value: this.formatTimeRemaining(timer.time_remaining),
             inline: false
           }
-        ],
-        timestamp: new Date().toISOString(),
-        footer: {
-          text: 'Boss Respawn Tracker'
-        }
-      };
-
-      // This would send a webhook to Discord
-      // For now, we'll just log the notification
-      console.log(`Discord notification sent for boss ${boss.name}`);
+        ]
+      );
+
+      await DiscordUtils.postWebhook(webhookUrl, { embeds: [embed] });
       return true;
     } catch (error) {
       console.error('Failed to send Discord notification:', error);
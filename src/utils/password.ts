@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import config from '@/config';
+import { PasswordPolicy } from '@/types';
+
+const MAX_PASSWORD_LENGTH = 100;
+const MIN_CHARACTER_CLASSES = 3;
+
+// Rejected outright, whatever their length or character mix
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'qwerty', 'qwerty123', 'qwertyuiop',
+  '123456', '12345678', '123456789', '1234567890', 'letmein', 'welcome', 'welcome1', 'admin', 'admin123',
+  'iloveyou', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'trustno1', 'abc123'
+]);
+
+// Reset codes leave out characters that are easy to misread (0/O, 1/I/L)
+const RESET_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RESET_CODE_GROUPS = 3;
+const RESET_CODE_GROUP_LENGTH = 4;
+
+export class PasswordUtils {
+  static getPolicy(): PasswordPolicy {
+    return {
+      min_length: config.password.minLength,
+      max_length: MAX_PASSWORD_LENGTH,
+      min_character_classes: MIN_CHARACTER_CLASSES
+    };
+  }
+
+  static validatePassword(password: string, username?: string): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const policy = this.getPolicy();
+
+    if (password.length < policy.min_length) {
+      errors.push(`Password must be at least ${policy.min_length} characters long`);
+    }
+
+    if (password.length > policy.max_length) {
+      errors.push(`Password cannot exceed ${policy.max_length} characters`);
+    }
+
+    const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+    if (classes < policy.min_character_classes) {
+      errors.push('Password must contain at least 3 of: lowercase letters, uppercase letters, digits, symbols');
+    }
+
+    if (username && password.toLowerCase().includes(username.toLowerCase())) {
+      errors.push('Password cannot contain the username');
+    }
+
+    if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+      errors.push('Password is too common');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * e.g. "K7QM-X2HD-9PWA"
+   */
+  static generateResetCode(): string {
+    const groups: string[] = [];
+    for (let group = 0; group < RESET_CODE_GROUPS; group++) {
+      let characters = '';
+      for (let i = 0; i < RESET_CODE_GROUP_LENGTH; i++) {
+        characters += RESET_CODE_ALPHABET[crypto.randomInt(RESET_CODE_ALPHABET.length)];
+      }
+      groups.push(characters);
+    }
+    return groups.join('-');
+  }
+
+  /**
+   * Hash of the code as typed, ignoring case, dashes and spaces
+   */
+  static hashResetCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -0,0 +1,79 @@
+import { GuildPermission, GuildRole, Permission, RoleCatalog, TrustPrivilege, User, UserRole } from '@/types';
+
+// Lowest first; every role also gets the permissions of the roles before it
+export const USER_ROLES: UserRole[] = ['user', 'trusted', 'moderator', 'admin'];
+export const GUILD_ROLES: GuildRole[] = ['member', 'officer', 'leader'];
+
+const ROLE_GRANTS: Record<UserRole, Permission[]> = {
+  user: [],
+  trusted: ['spawns:instant_verify'],
+  moderator: ['spawns:verify', 'spawns:moderate', 'bosses:edit_any', 'comments:moderate'],
+  admin: ['bosses:delete_any', 'users:manage', 'roles:manage', 'servers:manage', 'data:transfer']
+};
+
+const GUILD_ROLE_GRANTS: Record<GuildRole, GuildPermission[]> = {
+  member: [],
+  officer: [
+    'guild:manage_settings',
+    'guild:manage_invites',
+    'guild:review_join_requests',
+    'guild:manage_webhooks',
+    'guild:kick_members',
+    'guild:manage_points',
+    'guild:manage_attendance'
+  ],
+  leader: ['guild:manage_roles', 'guild:transfer_leadership', 'guild:disband']
+};
+
+// Reputation privileges that a site role hands out regardless of trust tier
+const PRIVILEGE_PERMISSIONS: Record<TrustPrivilege, Permission> = {
+  instant_verification: 'spawns:instant_verify',
+  edit_bosses: 'bosses:edit_any'
+};
+
+export class PermissionUtils {
+  static isUserRole(role: unknown): role is UserRole {
+    return typeof role === 'string' && (USER_ROLES as string[]).includes(role);
+  }
+
+  /**
+   * Users created before roles existed (or with an unknown value) count as 'user'
+   */
+  static getUserRole(user: Pick<User, 'role'> | null | undefined): UserRole {
+    return user && this.isUserRole(user.role) ? user.role : 'user';
+  }
+
+  static getPermissions(role: UserRole): Permission[] {
+    return USER_ROLES.slice(0, USER_ROLES.indexOf(role) + 1).flatMap(candidate => ROLE_GRANTS[candidate]);
+  }
+
+  static hasPermission(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+    return this.getPermissions(this.getUserRole(user)).includes(permission);
+  }
+
+  static getGuildPermissions(role: GuildRole): GuildPermission[] {
+    return GUILD_ROLES.slice(0, GUILD_ROLES.indexOf(role) + 1).flatMap(candidate => GUILD_ROLE_GRANTS[candidate]);
+  }
+
+  static hasGuildPermission(role: GuildRole | undefined, permission: GuildPermission): boolean {
+    return !!role && this.getGuildPermissions(role).includes(permission);
+  }
+
+  /**
+   * Whether a guild role sits above another one, e.g. officers outrank members
+   */
+  static outranks(role: GuildRole | undefined, other: GuildRole): boolean {
+    return !!role && GUILD_ROLES.indexOf(role) > GUILD_ROLES.indexOf(other);
+  }
+
+  static privilegePermission(privilege: TrustPrivilege): Permission {
+    return PRIVILEGE_PERMISSIONS[privilege];
+  }
+
+  static getCatalog(): RoleCatalog {
+    return {
+      site: USER_ROLES.map(role => ({ role, permissions: this.getPermissions(role) })),
+      guild: GUILD_ROLES.map(role => ({ role, permissions: this.getGuildPermissions(role) }))
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { UserStats, UserStatsIncrements, TrustTier, TrustPrivilege, SpawnVerificationStatus } from '@/types';
+
+interface TrustTierRule {
+  tier: TrustTier;
+  minScore: number;
+  minVerifiedReports: number;
+  privileges: TrustPrivilege[];
+}
+
+// Highest tier first; a user gets the first tier whose requirements they meet
+export const TRUST_TIERS: TrustTierRule[] = [
+  { tier: 'veteran', minScore: 85, minVerifiedReports: 25, privileges: ['instant_verification', 'edit_bosses'] },
+  { tier: 'trusted', minScore: 70, minVerifiedReports: 10, privileges: ['instant_verification'] },
+  { tier: 'member', minScore: 30, minVerifiedReports: 1, privileges: [] },
+  { tier: 'new', minScore: 0, minVerifiedReports: 0, privileges: [] }
+];
+
+// Resolved reports needed before accuracy counts in full towards the trust score
+const FULL_CONFIDENCE_REPORTS = 10;
+// Trust lost per rejected report in the current dispute streak
+const DISPUTE_PENALTY = 15;
+const MAX_DISPUTE_PENALTY = 60;
+// Trust lost when every report drew a dispute; scales with disputes per report
+const DISPUTES_RECEIVED_PENALTY = 30;
+
+export type ReportState = SpawnVerificationStatus | null;
+
+export class ReputationUtils {
+  /**
+   * Counter changes for a report moving between verification states. `from` is
+   * null for a new report, `to` is null for a deleted one.
+   */
+  static reportChangeIncrements(from: ReportState, to: ReportState): UserStatsIncrements {
+    const increments: UserStatsIncrements = {};
+    if (from === to) return increments;
+
+    if (from === null) increments.reports_count = 1;
+    if (to === null) increments.reports_count = -1;
+
+    if (from === 'verified') increments.verified_reports = -1;
+    if (to === 'verified') increments.verified_reports = 1;
+
+    if (from === 'rejected') increments.rejected_reports = -1;
+    if (to === 'rejected') increments.rejected_reports = 1;
+
+    // Repeated rejections build up a streak that drags trust down; each verified
+    // report works one rejection off again
+    if (to === 'rejected') {
+      increments.dispute_streak = 1;
+    } else if (to === 'verified') {
+      increments.dispute_streak = -1;
+    }
+
+    return increments;
+  }
+
+  static calculateAccuracyRate(stats: UserStats): number {
+    const resolved = (stats.verified_reports || 0) + (stats.rejected_reports || 0);
+    return resolved > 0 ? Math.round(((stats.verified_reports || 0) / resolved) * 10000) / 100 : 0;
+  }
+
+  /**
+   * Accuracy scaled by how many reports back it up, minus the dispute streak
+   * penalty and a penalty for the share of reports that drew disputes
+   */
+  static calculateTrustScore(stats: UserStats): number {
+    const resolved = (stats.verified_reports || 0) + (stats.rejected_reports || 0);
+    const confidence = Math.min(1, resolved / FULL_CONFIDENCE_REPORTS);
+    const streakPenalty = Math.min(MAX_DISPUTE_PENALTY, (stats.dispute_streak || 0) * DISPUTE_PENALTY);
+    const disputeRate = stats.reports_count > 0 ? Math.min(1, (stats.disputes_received || 0) / stats.reports_count) : 0;
+    const score = this.calculateAccuracyRate(stats) * confidence - streakPenalty - disputeRate * DISPUTES_RECEIVED_PENALTY;
+
+    return Math.round(Math.max(0, Math.min(100, score)) * 100) / 100;
+  }
+
+  static getTrustTier(stats: UserStats): TrustTier {
+    const score = stats.trust_score ?? this.calculateTrustScore(stats);
+    const rule = TRUST_TIERS.find(candidate =>
+      score >= candidate.minScore && (stats.verified_reports || 0) >= candidate.minVerifiedReports
+    );
+    return rule ? rule.tier : 'new';
+  }
+
+  static getPrivileges(tier: TrustTier): TrustPrivilege[] {
+    return TRUST_TIERS.find(rule => rule.tier === tier)?.privileges || [];
+  }
+
+  static hasPrivilege(stats: UserStats | undefined, privilege: TrustPrivilege): boolean {
+    if (!stats) return false;
+    return this.getPrivileges(stats.trust_tier || this.getTrustTier(stats)).includes(privilege);
+  }
+
+  /**
+   * The stats fields derived from the counters
+   */
+  static getTrustFields(stats: UserStats): Pick<UserStats, 'accuracy_rate' | 'trust_score' | 'trust_tier'> {
+    const next = { ...stats, accuracy_rate: this.calculateAccuracyRate(stats) };
+    next.trust_score = this.calculateTrustScore(next);
+    next.trust_tier = this.getTrustTier(next);
+    return { accuracy_rate: next.accuracy_rate, trust_score: next.trust_score, trust_tier: next.trust_tier };
+  }
+}
@@ -0,0 +1,48 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketEvents } from '@/types';
+
+export class SocketUtils {
+  private static io: SocketIOServer | null = null;
+
+  static attach(io: SocketIOServer): void {
+    this.io = io;
+  }
+
+  static isAttached(): boolean {
+    return this.io !== null;
+  }
+
+  static serverRoom(server: string): string {
+    return `server-${server}`;
+  }
+
+  static bossRoom(bossId: string): string {
+    return `boss-${bossId}`;
+  }
+
+  static guildRoom(guildId: string): string {
+    return `guild-${guildId}`;
+  }
+
+  static userRoom(userId: string): string {
+    return `user-${userId}`;
+  }
+
+  /**
+   * Number of sockets in a room, across all nodes of the adapter. 0 when no Socket.IO server is attached.
+   */
+  static async countInRoom(room: string): Promise<number> {
+    if (!this.io) return 0;
+    return (await this.io.in(room).fetchSockets()).length;
+  }
+
+  /**
+   * Emit a typed event into one or more rooms. Returns false when no Socket.IO server is attached.
+   */
+  static emitToRooms<K extends keyof SocketEvents>(rooms: string[], event: K, payload: SocketEvents[K]): boolean {
+    if (!this.io || rooms.length === 0) return false;
+
+    this.io.to(rooms).emit(event, payload);
+    return true;
+  }
+}
@@ -1,20 +1,155 @@
-import moment from 'moment';
-import { RespawnTimer, Boss, SpawnEvent } from '@/types';
+import moment from 'moment-timezone';
+import cronParser from 'cron-parser';
+import {
+  RespawnTimer,
+  RespawnWindow,
+  RespawnWindowStatus,
+  Boss,
+  BossSchedule,
+  SpawnEvent,
+  SpawnIntervalModel,
+  SpawnPercentiles,
+  SpawnPrediction
+} from '@/types';
+
+const PERCENTILES: Record<keyof SpawnPercentiles, number> = { p10: 0.1, p25: 0.25, p50: 0.5, p75: 0.75, p90: 0.9 };
+// Intervals spanning more unreported spawns than this are dropped instead of split
+const MAX_MISSED_CYCLES = 3;
+// Observed intervals needed for full confidence in a prediction
+const FULL_CONFIDENCE_SAMPLES = 20;
 
 export class TimerUtils {
+  /**
+   * The earliest possible next spawn, i.e. when the respawn window opens.
+   * Fixed-schedule bosses ignore reports and use their next scheduled time.
+   */
   static calculateNextSpawn(boss: Boss, lastSpawnEvent?: SpawnEvent): string {
-    const baseRespawnTime = boss.respawn_time; // in minutes
-    let lastSpawn: moment.Moment;
-
-    if (lastSpawnEvent) {
-      lastSpawn = moment(lastSpawnEvent.spawn_time);
-    } else if (boss.last_spawn) {
-      lastSpawn = moment(boss.last_spawn);
-    } else {
-      return moment().add(baseRespawnTime, 'minutes').toISOString();
+    if (this.isFixedSchedule(boss)) {
+      return this.getNextScheduledSpawn(boss);
+    }
+
+    const window = this.getRespawnWindow(boss); // in minutes
+    const anchor = this.getAnchorTime(boss, lastSpawnEvent);
+
+    if (!anchor) {
+      return moment().add(window.min, 'minutes').toISOString();
+    }
+
+    return moment(anchor).add(window.min, 'minutes').toISOString();
+  }
+
+  /**
+   * Minutes after the anchor between which the boss respawns: the explicit
+   * min/max window if set, otherwise respawn_time +/- respawn_variance
+   */
+  static getRespawnWindow(boss: Boss): RespawnWindow {
+    if (boss.respawn_window_min != null && boss.respawn_window_max != null) {
+      return { min: boss.respawn_window_min, max: boss.respawn_window_max };
+    }
+
+    const variance = Math.min(boss.respawn_variance || 0, boss.respawn_time);
+    return { min: boss.respawn_time - variance, max: boss.respawn_time + variance };
+  }
+
+  /**
+   * When the window that opens at `windowOpen` closes again
+   */
+  static calculateWindowClose(boss: Boss, windowOpen: string): string {
+    if (this.isFixedSchedule(boss)) {
+      return moment(windowOpen).add(boss.schedule?.window_minutes || 0, 'minutes').toISOString();
+    }
+
+    const window = this.getRespawnWindow(boss);
+    return moment(windowOpen).add(window.max - window.min, 'minutes').toISOString();
+  }
+
+  static getWindowStatus(windowOpen: string, windowClose: string): RespawnWindowStatus {
+    const now = moment();
+    if (now.isBefore(moment(windowOpen))) return 'waiting';
+    return now.isAfter(moment(windowClose)) ? 'closed' : 'open';
+  }
+
+  /**
+   * The time the respawn clock starts from: the kill for kill-anchored bosses
+   * (when the kill was recorded), otherwise the spawn
+   */
+  static getAnchorTime(boss: Boss, spawnEvent?: SpawnEvent): string | undefined {
+    if (spawnEvent) {
+      return boss.respawn_anchor === 'kill_time' && spawnEvent.kill_time
+        ? spawnEvent.kill_time
+        : spawnEvent.spawn_time;
     }
 
-    return lastSpawn.add(baseRespawnTime, 'minutes').toISOString();
+    return boss.last_spawn;
+  }
+
+  static isFixedSchedule(boss: Boss): boolean {
+    return boss.schedule_type === 'fixed' && !!boss.schedule;
+  }
+
+  /**
+   * The first scheduled spawn whose window has not closed yet at `now`
+   */
+  static getNextScheduledSpawn(boss: Boss, now: Date = new Date()): string {
+    const schedule = boss.schedule as BossSchedule;
+    const from = moment(now).subtract(schedule.window_minutes || 0, 'minutes');
+    return this.getScheduledSpawns(schedule, from.toISOString(), 1)[0] || moment(now).toISOString();
+  }
+
+  /**
+   * The next `count` scheduled spawn times at or after `from`, from the cron
+   * expression or the weekday/time slots, evaluated in the schedule's timezone
+   */
+  static getScheduledSpawns(schedule: BossSchedule, from: string, count: number): string[] {
+    const timezone = schedule.timezone || 'UTC';
+
+    if (schedule.cron) {
+      // next() is exclusive, step back a second so a spawn exactly at `from` is included
+      const interval = cronParser.parseExpression(schedule.cron, {
+        currentDate: moment(from).subtract(1, 'second').toDate(),
+        tz: timezone
+      });
+      const spawns: string[] = [];
+      for (let i = 0; i < count; i++) {
+        spawns.push(interval.next().toDate().toISOString());
+      }
+      return spawns;
+    }
+
+    const slots = schedule.slots || [];
+    if (slots.length === 0) return [];
+
+    const start = moment.tz(from, timezone);
+    const spawns: moment.Moment[] = [];
+    const days = (Math.ceil(count / slots.length) + 1) * 7;
+
+    for (let day = 0; day <= days; day++) {
+      const date = start.clone().startOf('day').add(day, 'days');
+      for (const slot of slots) {
+        if (slot.weekday !== date.day()) continue;
+
+        const [hour, minute] = slot.time.split(':').map(Number);
+        const spawn = date.clone().set({ hour: hour || 0, minute: minute || 0, second: 0, millisecond: 0 });
+        if (!spawn.isBefore(start)) spawns.push(spawn);
+      }
+    }
+
+    return Array.from(new Set(
+      spawns
+        .sort((a, b) => a.diff(b))
+        .map(spawn => spawn.toISOString())
+    )).slice(0, count);
+  }
+
+  /**
+   * Average minutes between scheduled spawns, used as respawn_time of fixed-schedule bosses
+   */
+  static getScheduleInterval(schedule: BossSchedule): number {
+    const spawns = this.getScheduledSpawns(schedule, moment().toISOString(), 15);
+    if (spawns.length < 2) return 10080;
+
+    const totalMinutes = moment(spawns[spawns.length - 1]).diff(moment(spawns[0]), 'minutes');
+    return Math.min(10080, Math.max(1, Math.round(totalMinutes / (spawns.length - 1))));
   }
 
   static calculateTimeRemaining(nextSpawn: string): number {
@@ -31,16 +166,28 @@ export class TimerUtils {
 
   static getRespawnTimer(boss: Boss, lastSpawnEvent?: SpawnEvent): RespawnTimer {
     const nextSpawn = this.calculateNextSpawn(boss, lastSpawnEvent);
-    const timeRemaining = this.calculateTimeRemaining(nextSpawn);
     const isActive = this.isBossActive(boss);
 
+    return this.buildRespawnTimer(boss, nextSpawn, isActive);
+  }
+
+  /**
+   * Timer for a window opening at `windowOpen`
+   */
+  static buildRespawnTimer(boss: Boss, windowOpen: string, isActive: boolean): RespawnTimer {
+    const windowClose = this.calculateWindowClose(boss, windowOpen);
+
     return {
       boss_id: boss.id,
       boss_name: boss.name,
       server: boss.server,
       last_spawn: boss.last_spawn || '',
-      next_spawn: nextSpawn,
-      time_remaining: timeRemaining,
+      next_spawn: windowOpen,
+      window_open: windowOpen,
+      window_close: windowClose,
+      window_status: this.getWindowStatus(windowOpen, windowClose),
+      time_remaining: this.calculateTimeRemaining(windowOpen),
+      time_until_close: this.calculateTimeRemaining(windowClose),
       is_active: isActive,
       notifications_sent: []
     };
@@ -72,73 +219,270 @@ export class TimerUtils {
   }
 
   static calculateSpawnAccuracy(boss: Boss, spawnEvents: SpawnEvent[]): number {
-    if (spawnEvents.length < 2) return 0;
-
-    const actualIntervals: number[] = [];
-    const sortedEvents = spawnEvents.sort((a, b) => moment(a.spawn_time).diff(moment(b.spawn_time)));
-
-    for (let i = 1; i < sortedEvents.length; i++) {
-      const interval = moment(sortedEvents[i].spawn_time).diff(moment(sortedEvents[i - 1].spawn_time), 'minutes');
-      actualIntervals.push(interval);
-    }
+    const actualIntervals = this.getObservedIntervals(boss, spawnEvents);
+    if (actualIntervals.length === 0) return 0;
 
     const averageInterval = actualIntervals.reduce((sum, interval) => sum + interval, 0) / actualIntervals.length;
-    const expectedInterval = boss.respawn_time;
+    const window = this.getRespawnWindow(boss);
+    const expectedInterval = (window.min + window.max) / 2;
     const accuracy = Math.max(0, 100 - Math.abs(averageInterval - expectedInterval) / expectedInterval * 100);
 
     return Math.round(accuracy);
   }
 
-  static predictSpawnTimes(boss: Boss, spawnEvents: SpawnEvent[], count: number = 5): string[] {
-    const predictions: string[] = [];
-    const lastEvent = spawnEvents.sort((a, b) => moment(b.spawn_time).diff(moment(a.spawn_time)))[0];
-    
-    if (!lastEvent) return predictions;
+  /**
+   * Minutes between consecutive verified spawns of the boss on its server. An
+   * interval that spans spawns nobody reported is split into its cycles.
+   */
+  static getObservedIntervals(boss: Boss, spawnEvents: SpawnEvent[]): number[] {
+    const sortedEvents = this.getVerifiedEvents(boss, spawnEvents)
+      .sort((a, b) => moment(a.spawn_time).diff(moment(b.spawn_time)));
+    const intervals: number[] = [];
 
-    let lastSpawn = moment(lastEvent.spawn_time);
-    
-    for (let i = 0; i < count; i++) {
-      lastSpawn = lastSpawn.add(boss.respawn_time, 'minutes');
-      predictions.push(lastSpawn.toISOString());
+    const window = this.getRespawnWindow(boss);
+    const expected = (window.min + window.max) / 2;
+
+    for (let i = 1; i < sortedEvents.length; i++) {
+      const anchor = this.getAnchorTime(boss, sortedEvents[i - 1]) as string;
+      const interval = moment(sortedEvents[i]!.spawn_time).diff(moment(anchor), 'minutes', true);
+      if (interval <= 0) continue;
+
+      const cycles = Math.max(1, Math.round(interval / expected));
+      if (cycles > MAX_MISSED_CYCLES) continue;
+
+      intervals.push(interval / cycles);
     }
 
-    return predictions;
+    return intervals;
   }
 
-  static getSpawnWindows(boss: Boss, spawnEvents: SpawnEvent[]): { start: string; end: string; confidence: number }[] {
-    const windows: { start: string; end: string; confidence: number }[] = [];
-    
-    if (spawnEvents.length < 3) return windows;
+  /**
+   * Learn the boss's respawn interval distribution from its verified spawn history
+   */
+  static buildIntervalModel(boss: Boss, spawnEvents: SpawnEvent[], minSamples: number = 5): SpawnIntervalModel {
+    if (this.isFixedSchedule(boss)) {
+      return this.buildScheduleModel(boss);
+    }
 
-    const intervals: number[] = [];
-    const sortedEvents = spawnEvents.sort((a, b) => moment(a.spawn_time).diff(moment(b.spawn_time)));
+    const intervals = this.getObservedIntervals(boss, spawnEvents).sort((a, b) => a - b);
 
-    for (let i = 1; i < sortedEvents.length; i++) {
-      const interval = moment(sortedEvents[i].spawn_time).diff(moment(sortedEvents[i - 1].spawn_time), 'minutes');
-      intervals.push(interval);
+    if (intervals.length < minSamples) {
+      return this.buildConfiguredModel(boss, intervals.length);
+    }
+
+    const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+    const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - mean, 2), 0) / intervals.length;
+    const percentiles = {} as SpawnPercentiles;
+    (Object.keys(PERCENTILES) as (keyof SpawnPercentiles)[]).forEach(key => {
+      percentiles[key] = this.round(this.quantile(intervals, PERCENTILES[key]));
+    });
+
+    const min = intervals[0]!;
+    const max = intervals[intervals.length - 1]!;
+
+    return {
+      boss_id: boss.id,
+      server: boss.server,
+      source: 'observed',
+      sample_size: intervals.length,
+      fixed_minutes: this.round(min),
+      random_window_minutes: this.round(max - min),
+      mean: this.round(mean),
+      median: percentiles.p50,
+      std_dev: this.round(Math.sqrt(variance)),
+      min: this.round(min),
+      max: this.round(max),
+      percentiles
+    };
+  }
+
+  /**
+   * Probability windows for the next `count` spawns. The window of the n-th
+   * spawn after the anchor is centred on n median intervals and widens with
+   * sqrt(n). Cycles whose window closed before `now` are skipped, so bosses
+   * without recent reports keep predictions.
+   */
+  static predictSpawnWindows(
+    boss: Boss,
+    spawnEvents: SpawnEvent[],
+    count: number = 3,
+    minSamples: number = 5,
+    now: Date = new Date()
+  ): SpawnPrediction[] {
+    if (this.isFixedSchedule(boss)) {
+      return this.predictScheduledSpawns(boss, count);
     }
 
-    const averageInterval = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
-    const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - averageInterval, 2), 0) / intervals.length;
-    const standardDeviation = Math.sqrt(variance);
+    const anchor = this.getLastVerifiedAnchor(boss, spawnEvents) || boss.last_spawn;
+    if (!anchor) return [];
 
-    const lastEvent = sortedEvents[sortedEvents.length - 1];
-    let nextSpawn = moment(lastEvent.spawn_time).add(averageInterval, 'minutes');
+    const model = this.buildIntervalModel(boss, spawnEvents, minSamples);
+    const predictions: SpawnPrediction[] = [];
+    const windowEndMinutes = (cycle: number) =>
+      model.median * cycle + (model.percentiles.p90 - model.median) * Math.sqrt(cycle);
 
-    for (let i = 0; i < 3; i++) {
-      const windowStart = nextSpawn.subtract(standardDeviation, 'minutes');
-      const windowEnd = nextSpawn.add(standardDeviation, 'minutes');
-      const confidence = Math.max(0, 100 - standardDeviation / averageInterval * 100);
+    // Jump close to the current cycle, then settle on the first window still open
+    const elapsed = (now.getTime() - new Date(anchor).getTime()) / 60000;
+    let first = model.median > 0 ? Math.max(1, Math.floor(elapsed / model.median)) : 1;
+    while (first > 1 && windowEndMinutes(first - 1) >= elapsed) first--;
+    while (model.median > 0 && windowEndMinutes(first) < elapsed) first++;
 
-      windows.push({
-        start: windowStart.toISOString(),
-        end: windowEnd.toISOString(),
-        confidence: Math.round(confidence)
+    for (let cycle = first; cycle < first + count; cycle++) {
+      const percentiles = {} as Record<keyof SpawnPercentiles, string>;
+      (Object.keys(PERCENTILES) as (keyof SpawnPercentiles)[]).forEach(key => {
+        const spread = (model.percentiles[key] - model.median) * Math.sqrt(cycle);
+        percentiles[key] = this.addMinutes(anchor, model.median * cycle + spread);
       });
 
-      nextSpawn = nextSpawn.add(averageInterval, 'minutes');
+      predictions.push({
+        cycle,
+        anchor,
+        window_start: percentiles.p10,
+        expected: percentiles.p50,
+        window_end: percentiles.p90,
+        percentiles,
+        confidence: this.calculateConfidence(model, cycle)
+      });
     }
 
-    return windows;
+    return predictions;
+  }
+
+  static predictSpawnTimes(boss: Boss, spawnEvents: SpawnEvent[], count: number = 5): string[] {
+    return this.predictSpawnWindows(boss, spawnEvents, count).map(prediction => prediction.expected);
+  }
+
+  static getSpawnWindows(boss: Boss, spawnEvents: SpawnEvent[]): { start: string; end: string; confidence: number }[] {
+    return this.predictSpawnWindows(boss, spawnEvents, 3).map(prediction => ({
+      start: prediction.window_start,
+      end: prediction.window_end,
+      confidence: prediction.confidence
+    }));
+  }
+
+  /**
+   * Fixed-schedule bosses appear anywhere in the window after each scheduled
+   * time; the model describes that delay
+   */
+  private static buildScheduleModel(boss: Boss): SpawnIntervalModel {
+    const window = boss.schedule?.window_minutes || 0;
+    const percentiles = {} as SpawnPercentiles;
+    (Object.keys(PERCENTILES) as (keyof SpawnPercentiles)[]).forEach(key => {
+      percentiles[key] = this.round(window * PERCENTILES[key]);
+    });
+
+    return {
+      boss_id: boss.id,
+      server: boss.server,
+      source: 'schedule',
+      sample_size: 0,
+      fixed_minutes: 0,
+      random_window_minutes: window,
+      mean: window / 2,
+      median: window / 2,
+      std_dev: this.round(window / Math.sqrt(12)),
+      min: 0,
+      max: window,
+      percentiles
+    };
+  }
+
+  private static predictScheduledSpawns(boss: Boss, count: number): SpawnPrediction[] {
+    const model = this.buildScheduleModel(boss);
+    const first = this.getNextScheduledSpawn(boss);
+    const scheduled = this.getScheduledSpawns(boss.schedule as BossSchedule, first, count);
+
+    return scheduled.map((spawn, index) => {
+      const percentiles = {} as Record<keyof SpawnPercentiles, string>;
+      (Object.keys(PERCENTILES) as (keyof SpawnPercentiles)[]).forEach(key => {
+        percentiles[key] = this.addMinutes(spawn, model.percentiles[key]);
+      });
+
+      return {
+        cycle: index + 1,
+        anchor: spawn,
+        window_start: percentiles.p10,
+        expected: percentiles.p50,
+        window_end: percentiles.p90,
+        percentiles,
+        confidence: 100
+      };
+    });
+  }
+
+  /**
+   * Fixed-plus-random model from the boss's respawn window, with the spawn
+   * equally likely anywhere in that window
+   */
+  private static buildConfiguredModel(boss: Boss, sampleSize: number): SpawnIntervalModel {
+    const { min, max } = this.getRespawnWindow(boss);
+    const percentiles = {} as SpawnPercentiles;
+    (Object.keys(PERCENTILES) as (keyof SpawnPercentiles)[]).forEach(key => {
+      percentiles[key] = this.round(min + (max - min) * PERCENTILES[key]);
+    });
+
+    return {
+      boss_id: boss.id,
+      server: boss.server,
+      source: 'configured',
+      sample_size: sampleSize,
+      fixed_minutes: min,
+      random_window_minutes: max - min,
+      mean: (min + max) / 2,
+      median: (min + max) / 2,
+      // Standard deviation of a uniform distribution over [min, max]
+      std_dev: this.round((max - min) / Math.sqrt(12)),
+      min,
+      max,
+      percentiles
+    };
+  }
+
+  /**
+   * Confidence grows with the number of observations and shrinks with the
+   * relative width of the p10-p90 window and with every further cycle ahead
+   */
+  private static calculateConfidence(model: SpawnIntervalModel, cycle: number): number {
+    if (model.median <= 0) return 0;
+
+    const relativeSpread = ((model.percentiles.p90 - model.percentiles.p10) * Math.sqrt(cycle)) / model.median;
+    const sampleFactor = model.source === 'observed'
+      ? Math.min(1, model.sample_size / FULL_CONFIDENCE_SAMPLES)
+      : 0.5;
+
+    return Math.round(Math.max(0, Math.min(100, 100 * sampleFactor * (1 - relativeSpread))));
+  }
+
+  private static getVerifiedEvents(boss: Boss, spawnEvents: SpawnEvent[]): SpawnEvent[] {
+    return spawnEvents.filter(event =>
+      (event.verification_status ? event.verification_status === 'verified' : event.verified) &&
+      (!event.server || event.server === boss.server)
+    );
+  }
+
+  private static getLastVerifiedAnchor(boss: Boss, spawnEvents: SpawnEvent[]): string | undefined {
+    const lastEvent = this.getVerifiedEvents(boss, spawnEvents)
+      .sort((a, b) => moment(b.spawn_time).diff(moment(a.spawn_time)))[0];
+    return lastEvent ? this.getAnchorTime(boss, lastEvent) : undefined;
+  }
+
+  /**
+   * Linear interpolation between the closest ranks of a sorted sample
+   */
+  private static quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const lowerValue = sorted[lower]!;
+    const upperValue = sorted[upper]!;
+    return lowerValue + (upperValue - lowerValue) * (position - lower);
+  }
+
+  private static addMinutes(time: string, minutes: number): string {
+    return moment(time).add(Math.round(minutes * 60000), 'milliseconds').toISOString();
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
   }
 }
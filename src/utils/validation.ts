@@ -1,4 +1,6 @@
-import { Boss, SpawnEvent, User, CreateBossRequest, CreateSpawnEventRequest } from '@/types';
+import moment from 'moment-timezone';
+import cronParser from 'cron-parser';
+import { Boss, BossSchedule, SpawnEvent, User, CreateBossRequest, CreateSpawnEventRequest } from '@/types';
 
 export class ValidationUtils {
   static validateBossData(data: CreateBossRequest): { isValid: boolean; errors: string[] } {
@@ -20,6 +22,22 @@ export class ValidationUtils {
       errors.push('Respawn time must be between 1 minute and 1 week');
     }
 
+    if (data.respawn_variance !== undefined && (data.respawn_variance < 0 || data.respawn_variance >= data.respawn_time)) {
+      errors.push('Respawn variance must be at least 0 and shorter than the respawn time');
+    }
+
+    if ((data.respawn_window_min === undefined) !== (data.respawn_window_max === undefined)) {
+      errors.push('Respawn window needs both a minimum and a maximum');
+    } else if (data.respawn_window_min !== undefined && data.respawn_window_max !== undefined && data.respawn_window_min > data.respawn_window_max) {
+      errors.push('Respawn window minimum cannot be greater than its maximum');
+    }
+
+    if (data.schedule_type === 'fixed' && !data.schedule) {
+      errors.push('Fixed-schedule bosses need a schedule');
+    } else if (data.schedule) {
+      errors.push(...this.validateBossSchedule(data.schedule));
+    }
+
     if (!data.server || data.server.trim().length === 0) {
       errors.push('Server is required');
     }
@@ -34,7 +52,7 @@ export class ValidationUtils {
     };
   }
 
-  static validateSpawnEventData(data: CreateSpawnEventRequest): { isValid: boolean; errors: string[] } {
+  static validateSpawnEventData(data: CreateSpawnEventRequest, options: { allowHistorical?: boolean } = {}): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     if (!data.boss_id || data.boss_id.trim().length === 0) {
@@ -56,7 +74,8 @@ export class ValidationUtils {
       const now = new Date();
       const maxPastTime = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
       
-      if (spawnTime < maxPastTime) {
+      // Imported spawn history may go back further
+      if (!options.allowHistorical && spawnTime < maxPastTime) {
         errors.push('Spawn time cannot be more than 30 days ago');
       }
     }
@@ -154,6 +173,28 @@ export class ValidationUtils {
     return input.trim().replace(/[<>]/g, '');
   }
 
+  static validateBossSchedule(schedule: BossSchedule): string[] {
+    const errors: string[] = [];
+
+    if (!schedule.cron && (!schedule.slots || schedule.slots.length === 0)) {
+      errors.push('Schedule needs a cron expression or at least one weekday/time slot');
+    }
+
+    if (!moment.tz.zone(schedule.timezone || 'UTC')) {
+      errors.push(`Unknown timezone: ${schedule.timezone}`);
+    }
+
+    if (schedule.cron) {
+      try {
+        cronParser.parseExpression(schedule.cron);
+      } catch (error) {
+        errors.push(`Invalid cron expression: ${schedule.cron}`);
+      }
+    }
+
+    return errors;
+  }
+
   static validateServerName(server: string): boolean {
     return /^[a-zA-Z0-9_-]+$/.test(server) && server.length >= 1 && server.length <= 50;
   }
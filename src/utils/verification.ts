@@ -0,0 +1,11 @@
+import { SpawnEvent, SpawnVerificationStatus } from '@/types';
+
+export class VerificationUtils {
+  /**
+   * Where a spawn report stands in community verification. Events created
+   * before community verification only carry the verified flag.
+   */
+  static getStatus(spawnEvent: SpawnEvent): SpawnVerificationStatus {
+    return spawnEvent.verification_status || (spawnEvent.verified ? 'verified' : 'pending');
+  }
+}
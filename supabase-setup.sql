@@ -20,17 +20,29 @@ CREATE TABLE IF NOT EXISTS bosses (
   level INTEGER NOT NULL,
   location TEXT NOT NULL,
   respawn_time INTEGER NOT NULL, -- in minutes
+  schedule_type TEXT DEFAULT 'respawn' CHECK (schedule_type IN ('respawn', 'fixed')),
+  schedule JSONB, -- {cron?, slots?: [{weekday, time}], timezone, window_minutes?} for fixed-schedule bosses
+  respawn_variance INTEGER DEFAULT 0 CHECK (respawn_variance >= 0), -- random +/- window in minutes
+  respawn_window_min INTEGER, -- earliest respawn in minutes, overrides respawn_time +/- respawn_variance
+  respawn_window_max INTEGER, -- latest respawn in minutes
+  respawn_anchor TEXT DEFAULT 'spawn_time' CHECK (respawn_anchor IN ('spawn_time', 'kill_time')),
+  post_maintenance_rule TEXT CHECK (post_maintenance_rule IN ('keep', 'spawn_at_end', 'restart_timer')), -- overrides the server's rule when set
   last_spawn TIMESTAMPTZ,
   next_spawn TIMESTAMPTZ,
   server TEXT NOT NULL,
   image TEXT,
+  image_thumbnail TEXT,
   description TEXT,
   difficulty TEXT NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard', 'extreme', 'legendary')),
   created_by UUID, -- Foreign key will be added after users table is created
   verified BOOLEAN DEFAULT false,
   tags TEXT[],
   drops TEXT[],
-  requirements TEXT[]
+  requirements TEXT[],
+  CONSTRAINT bosses_respawn_window_check CHECK (
+    (respawn_window_min IS NULL AND respawn_window_max IS NULL) OR
+    (respawn_window_min > 0 AND respawn_window_max >= respawn_window_min)
+  )
 );
 
 -- ============================================
@@ -47,8 +59,18 @@ CREATE TABLE IF NOT EXISTS spawn_events (
   server TEXT NOT NULL,
   notes TEXT,
   coordinates JSONB, -- {x: number, y: number, z?: number}
-  participants TEXT[], -- array of member names
-  kill_time TIMESTAMPTZ
+  participants TEXT[], -- array of member names, mirrors spawn_attendance
+  kill_time TIMESTAMPTZ,
+  killed_by_guild UUID, -- Foreign key will be added after guilds table is created
+  kill_reported_by UUID,
+  verification_status TEXT DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  confirmation_weight NUMERIC DEFAULT 0, -- summed weight of confirmations
+  dispute_weight NUMERIC DEFAULT 0, -- summed weight of disputes
+  confirmations_count INTEGER DEFAULT 0,
+  disputes_count INTEGER DEFAULT 0,
+  verified_at TIMESTAMPTZ,
+  provisional BOOLEAN DEFAULT false, -- instantly verified, still open to disputes
+  imported BOOLEAN DEFAULT false -- created by a data import; reported_by is the importing admin
 );
 
 -- ============================================
@@ -72,12 +94,23 @@ CREATE TABLE IF NOT EXISTS users (
   stats JSONB DEFAULT '{
     "reports_count": 0,
     "verified_reports": 0,
+    "rejected_reports": 0,
     "accuracy_rate": 0,
     "favorite_bosses_count": 0,
-    "achievements": []
+    "achievements": [],
+    "disputes_received": 0,
+    "dispute_streak": 0,
+    "trust_score": 0,
+    "trust_tier": "new"
   }'::jsonb,
   avatar TEXT,
+  avatar_thumbnail TEXT,
   bio TEXT,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'trusted', 'moderator', 'admin')),
+  password_changed_at TIMESTAMPTZ,
+  failed_login_attempts INTEGER NOT NULL DEFAULT 0, -- current streak, reset on success or lockout
+  last_failed_login TIMESTAMPTZ,
+  locked_until TIMESTAMPTZ,
   is_active BOOLEAN DEFAULT true,
   last_login TIMESTAMPTZ
 );
@@ -91,6 +124,105 @@ ALTER TABLE spawn_events
   ADD CONSTRAINT spawn_events_reported_by_fkey 
   FOREIGN KEY (reported_by) REFERENCES users(id) ON DELETE SET NULL;
 
+ALTER TABLE spawn_events 
+  ADD CONSTRAINT spawn_events_kill_reported_by_fkey 
+  FOREIGN KEY (kill_reported_by) REFERENCES users(id) ON DELETE SET NULL;
+
+-- Add each increment in p_increments to its stats counter, never going below
+-- zero, and return the updated stats (NULL when the user does not exist)
+CREATE OR REPLACE FUNCTION increment_user_stats(p_user_id UUID, p_increments JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+BEGIN
+  UPDATE users SET stats = COALESCE(users.stats, '{}'::jsonb) || (
+    SELECT COALESCE(jsonb_object_agg(
+      increment.key,
+      GREATEST(0, COALESCE((users.stats ->> increment.key)::NUMERIC, 0) + increment.value::NUMERIC)
+    ), '{}'::jsonb)
+    FROM jsonb_each_text(p_increments) AS increment
+  )
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Overwrite only the stats keys in p_values and return the updated stats
+CREATE OR REPLACE FUNCTION merge_user_stats(p_user_id UUID, p_values JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+BEGIN
+  UPDATE users SET stats = COALESCE(stats, '{}'::jsonb) || p_values
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a report day (UTC) towards the daily report streak. Days up to the
+-- last counted one are ignored; the day after it extends the streak and any
+-- later day starts it over. Returns the updated stats
+CREATE OR REPLACE FUNCTION record_user_report_day(p_user_id UUID, p_day DATE)
+RETURNS JSONB AS $$
+DECLARE
+  v_stats JSONB;
+  v_last DATE;
+  v_streak INTEGER;
+BEGIN
+  SELECT COALESCE(stats, '{}'::jsonb) INTO v_stats FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_last := (v_stats ->> 'last_report_date')::DATE;
+  IF v_last IS NOT NULL AND v_last >= p_day THEN
+    RETURN v_stats;
+  END IF;
+
+  v_streak := CASE WHEN v_last = p_day - 1 THEN COALESCE((v_stats ->> 'report_streak')::INTEGER, 0) + 1 ELSE 1 END;
+
+  UPDATE users SET stats = v_stats || jsonb_build_object(
+    'report_streak', v_streak,
+    'longest_report_streak', GREATEST(COALESCE((v_stats ->> 'longest_report_streak')::INTEGER, 0), v_streak),
+    'last_report_date', to_char(p_day, 'YYYY-MM-DD')
+  )
+  WHERE id = p_user_id
+  RETURNING stats INTO v_stats;
+
+  RETURN v_stats;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add achievements to stats.achievements and return the ones the user did not
+-- have yet, so concurrent awards of the same achievement only count once
+CREATE OR REPLACE FUNCTION add_user_achievements(p_user_id UUID, p_achievements TEXT[])
+RETURNS TEXT[] AS $$
+DECLARE
+  v_owned JSONB;
+  v_added TEXT[];
+BEGIN
+  SELECT COALESCE(stats -> 'achievements', '[]'::jsonb) INTO v_owned FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT achievement), ARRAY[]::TEXT[]) INTO v_added
+  FROM unnest(p_achievements) AS achievement
+  WHERE NOT v_owned ? achievement;
+
+  IF array_length(v_added, 1) > 0 THEN
+    UPDATE users SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{achievements}', v_owned || to_jsonb(v_added))
+    WHERE id = p_user_id;
+  END IF;
+
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================
 -- 5. Create comments table
 -- ============================================
@@ -104,7 +236,10 @@ CREATE TABLE IF NOT EXISTS comments (
   likes INTEGER DEFAULT 0,
   replies UUID[] DEFAULT ARRAY[]::UUID[],
   parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
-  is_deleted BOOLEAN DEFAULT false
+  is_deleted BOOLEAN DEFAULT false,
+  deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  deleted_at TIMESTAMPTZ,
+  edited_at TIMESTAMPTZ
 );
 
 -- ============================================
@@ -117,7 +252,9 @@ CREATE TABLE IF NOT EXISTS guilds (
   name TEXT NOT NULL UNIQUE,
   description TEXT,
   leader_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
-  members UUID[] DEFAULT ARRAY[]::UUID[],
+  officers UUID[] DEFAULT ARRAY[]::UUID[],
+  members UUID[] DEFAULT ARRAY[]::UUID[], -- includes the leader and officers
+  invite_code TEXT UNIQUE,
   boss_tracking_enabled BOOLEAN DEFAULT true,
   notification_channel TEXT,
   stats JSONB DEFAULT '{
@@ -125,7 +262,8 @@ CREATE TABLE IF NOT EXISTS guilds (
     "active_members": 0,
     "boss_kills": 0,
     "accuracy_rate": 0
-  }'::jsonb
+  }'::jsonb,
+  contribution_rules JSONB DEFAULT '{}'::jsonb -- difficulty and event weights, reporter bonus, no-show penalty; unset values use the defaults
 );
 
 -- Add foreign key constraint for users.guild after guilds table is created
@@ -133,6 +271,61 @@ ALTER TABLE users DROP CONSTRAINT IF EXISTS users_guild_fkey;
 ALTER TABLE users ADD CONSTRAINT users_guild_fkey 
   FOREIGN KEY (guild) REFERENCES guilds(id) ON DELETE SET NULL;
 
+-- Add foreign key constraint for spawn_events.killed_by_guild after guilds table is created
+ALTER TABLE spawn_events DROP CONSTRAINT IF EXISTS spawn_events_killed_by_guild_fkey;
+ALTER TABLE spawn_events ADD CONSTRAINT spawn_events_killed_by_guild_fkey 
+  FOREIGN KEY (killed_by_guild) REFERENCES guilds(id) ON DELETE SET NULL;
+
+-- Add a user to a guild. The user must not be in a guild yet; otherwise the
+-- call fails with HINT 'already_in_guild' and nothing changes
+CREATE OR REPLACE FUNCTION add_guild_member(p_guild_id UUID, p_user_id UUID)
+RETURNS guilds AS $$
+DECLARE
+  v_guild guilds;
+BEGIN
+  UPDATE users SET guild = p_guild_id
+  WHERE id = p_user_id AND guild IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is already a member of a guild' USING ERRCODE = 'P0001', HINT = 'already_in_guild';
+  END IF;
+
+  UPDATE guilds SET members = CASE
+    WHEN p_user_id = ANY(COALESCE(members, ARRAY[]::UUID[])) THEN members
+    ELSE array_append(COALESCE(members, ARRAY[]::UUID[]), p_user_id)
+  END
+  WHERE id = p_guild_id
+  RETURNING * INTO v_guild;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guild not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_guild;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove a user from a guild's members and officers, and clear users.guild
+-- when it still points at that guild
+CREATE OR REPLACE FUNCTION remove_guild_member(p_guild_id UUID, p_user_id UUID)
+RETURNS guilds AS $$
+DECLARE
+  v_guild guilds;
+BEGIN
+  UPDATE guilds SET
+    members = array_remove(members, p_user_id),
+    officers = array_remove(officers, p_user_id)
+  WHERE id = p_guild_id
+  RETURNING * INTO v_guild;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guild not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE users SET guild = NULL
+  WHERE id = p_user_id AND guild = p_guild_id;
+
+  RETURN v_guild;
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================
 -- 7. Create guild_member_contributions table
 -- ============================================
@@ -143,13 +336,437 @@ CREATE TABLE IF NOT EXISTS guild_member_contributions (
   guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
   member_name TEXT NOT NULL,
   member_id UUID REFERENCES users(id) ON DELETE SET NULL,
-  contribution_score INTEGER DEFAULT 0,
+  contribution_score NUMERIC(10, 2) DEFAULT 0, -- sum of the member's contribution_ledger entries
   last_event_date TIMESTAMPTZ,
   UNIQUE(guild_id, member_name) -- Prevent duplicate entries for same member in same guild
 );
 
 -- ============================================
--- 8. Create indexes for better performance
+-- 8. Create notifications table
+-- ============================================
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  boss_id UUID REFERENCES bosses(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('spawn_alert', 'guild_notification', 'achievement')),
+  message TEXT NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  spawn_time TIMESTAMPTZ, -- predicted spawn the alert refers to
+  timing_key TEXT, -- e.g. 'minutes_5'
+  sent BOOLEAN DEFAULT false,
+  sent_at TIMESTAMPTZ,
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  channels TEXT[] DEFAULT ARRAY[]::TEXT[]
+);
+
+-- ============================================
+-- 9. Create guild_webhooks table
+-- ============================================
+CREATE TABLE IF NOT EXISTS guild_webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL UNIQUE REFERENCES guilds(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT true,
+  events TEXT[] DEFAULT ARRAY['spawn_soon', 'spawned', 'killed']::TEXT[],
+  servers TEXT[] DEFAULT ARRAY[]::TEXT[], -- empty = all servers
+  spawn_soon_minutes INTEGER DEFAULT 5,
+  templates JSONB DEFAULT '{}'::jsonb, -- per event type: {title, description, color}
+  last_delivery_at TIMESTAMPTZ,
+  last_error TEXT
+);
+
+-- ============================================
+-- 10. Create guild_join_requests table
+-- ============================================
+CREATE TABLE IF NOT EXISTS guild_join_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  message TEXT,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ
+);
+
+-- ============================================
+-- 11. Create comment_likes table
+-- ============================================
+CREATE TABLE IF NOT EXISTS comment_likes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(comment_id, user_id) -- One like per user per comment
+);
+
+-- ============================================
+-- 12. Create spawn_confirmations table
+-- ============================================
+CREATE TABLE IF NOT EXISTS spawn_confirmations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  spawn_event_id UUID NOT NULL REFERENCES spawn_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vote TEXT NOT NULL CHECK (vote IN ('confirm', 'dispute')),
+  weight NUMERIC NOT NULL, -- voter's weight when the vote was cast
+  UNIQUE(spawn_event_id, user_id) -- One vote per user per spawn event
+);
+
+-- ============================================
+-- 13. Create servers table
+-- ============================================
+CREATE TABLE IF NOT EXISTS servers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL UNIQUE, -- referenced by bosses.server and spawn_events.server
+  region TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA timezone
+  status TEXT NOT NULL DEFAULT 'online' CHECK (status IN ('online', 'maintenance', 'offline')),
+  maintenance_windows JSONB DEFAULT '[]'::jsonb, -- [{id, start, end, reason?, claimed_at?, applied_at?}]
+  post_maintenance_rule TEXT NOT NULL DEFAULT 'keep' CHECK (post_maintenance_rule IN ('keep', 'spawn_at_end', 'restart_timer')),
+  description TEXT
+);
+
+-- Bosses and spawn events must reference a registered server
+ALTER TABLE bosses DROP CONSTRAINT IF EXISTS bosses_server_fkey;
+ALTER TABLE bosses ADD CONSTRAINT bosses_server_fkey 
+  FOREIGN KEY (server) REFERENCES servers(name) ON UPDATE CASCADE;
+
+ALTER TABLE spawn_events DROP CONSTRAINT IF EXISTS spawn_events_server_fkey;
+ALTER TABLE spawn_events ADD CONSTRAINT spawn_events_server_fkey 
+  FOREIGN KEY (server) REFERENCES servers(name) ON UPDATE CASCADE;
+
+-- Claim a maintenance window (sets claimed_at). Returns false when the window
+-- does not exist, was already applied, or another claim on it is younger than
+-- p_lease_minutes
+CREATE OR REPLACE FUNCTION claim_maintenance_window(p_server_id UUID, p_window_id TEXT, p_lease_minutes INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_windows JSONB;
+  v_index INTEGER;
+  v_entry JSONB;
+BEGIN
+  SELECT COALESCE(maintenance_windows, '[]'::jsonb) INTO v_windows FROM servers WHERE id = p_server_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT item.position - 1, item.entry INTO v_index, v_entry
+  FROM jsonb_array_elements(v_windows) WITH ORDINALITY AS item(entry, position)
+  WHERE item.entry ->> 'id' = p_window_id;
+
+  IF v_entry IS NULL
+    OR v_entry ->> 'applied_at' IS NOT NULL
+    OR (v_entry ->> 'claimed_at')::TIMESTAMPTZ > NOW() - make_interval(mins => p_lease_minutes) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE servers SET maintenance_windows = jsonb_set(v_windows, ARRAY[v_index::TEXT, 'claimed_at'], to_jsonb(NOW()))
+  WHERE id = p_server_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a claimed maintenance window, marking it applied when p_applied
+CREATE OR REPLACE FUNCTION finish_maintenance_window(p_server_id UUID, p_window_id TEXT, p_applied BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_windows JSONB;
+  v_index INTEGER;
+  v_entry JSONB;
+BEGIN
+  SELECT COALESCE(maintenance_windows, '[]'::jsonb) INTO v_windows FROM servers WHERE id = p_server_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT item.position - 1, item.entry INTO v_index, v_entry
+  FROM jsonb_array_elements(v_windows) WITH ORDINALITY AS item(entry, position)
+  WHERE item.entry ->> 'id' = p_window_id;
+  IF v_entry IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_entry := v_entry - 'claimed_at';
+  IF p_applied THEN
+    v_entry := v_entry || jsonb_build_object('applied_at', NOW());
+  END IF;
+
+  UPDATE servers SET maintenance_windows = jsonb_set(v_windows, ARRAY[v_index::TEXT], v_entry)
+  WHERE id = p_server_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 14. Create server_events table
+-- ============================================
+CREATE TABLE IF NOT EXISTS server_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  server TEXT NOT NULL REFERENCES servers(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('restart', 'maintenance_end')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when recorded by the scheduler
+  maintenance_window_id TEXT, -- id of the maintenance window this event closed
+  notes TEXT,
+  bosses_updated INTEGER NOT NULL DEFAULT 0,
+  resets JSONB DEFAULT '[]'::jsonb -- [{boss_id, rule, previous_last_spawn, previous_next_spawn, last_spawn, next_spawn}]
+);
+
+-- ============================================
+-- 15. Create calendar_feeds table
+-- ============================================
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'guild', 'server')),
+  target TEXT NOT NULL, -- user id, guild id or server name
+  token TEXT NOT NULL UNIQUE, -- secret part of the public .ics URL
+  UNIQUE(user_id, scope, target) -- One feed per user and target
+);
+
+-- ============================================
+-- 16. Create role_changes table
+-- ============================================
+CREATE TABLE IF NOT EXISTS role_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  scope TEXT NOT NULL CHECK (scope IN ('site', 'guild')),
+  guild_id UUID REFERENCES guilds(id) ON DELETE CASCADE, -- set for guild officer/leader changes
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  previous_role TEXT NOT NULL,
+  new_role TEXT NOT NULL,
+  reason TEXT
+);
+
+-- ============================================
+-- 17. Create user_sessions table
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device TEXT, -- e.g. "Firefox on Windows", derived from the user agent
+  user_agent TEXT,
+  ip TEXT,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL, -- pushed back on every refresh
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT CHECK (revoked_reason IN ('logout', 'revoked', 'revoked_all', 'reuse_detected', 'password_change'))
+);
+
+-- ============================================
+-- 18. Create refresh_tokens table
+-- ============================================
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token, the token itself is never stored
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ -- set once rotated; presenting the token again revokes the session
+);
+
+-- ============================================
+-- 19. Create password_reset_codes table
+-- ============================================
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL, -- SHA-256 of the normalized code, the code itself is only shown once
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ -- set when a newer code is issued
+);
+
+-- ============================================
+-- 20. Create login_attempts table
+-- ============================================
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- null when the username matched no account
+  username TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  failure_reason TEXT CHECK (failure_reason IN ('unknown_user', 'invalid_password', 'throttled', 'locked')),
+  ip TEXT,
+  user_agent TEXT
+);
+
+-- ============================================
+-- 21. Create user_achievements table
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  achievement TEXT NOT NULL, -- e.g. 'first_report', see GET /api/achievements
+  awarded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL, -- the activity that earned it
+  boss_id UUID REFERENCES bosses(id) ON DELETE SET NULL,
+  UNIQUE(user_id, achievement)
+);
+
+-- ============================================
+-- 22. Create leaderboard_snapshots table
+-- ============================================
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  category TEXT NOT NULL CHECK (category IN ('reporters', 'guilds', 'contributors')),
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly', 'season', 'all_time')),
+  server TEXT, -- null = every server
+  period_start TIMESTAMPTZ, -- null for all_time
+  period_end TIMESTAMPTZ NOT NULL,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb, -- ranked entries, best first
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- 23. Create loot_awards table
+-- ============================================
+CREATE TABLE IF NOT EXISTS loot_awards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL, -- kept when the spawn event is deleted
+  boss_id UUID NOT NULL REFERENCES bosses(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- one of the boss's drops
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  points NUMERIC(10, 2) NOT NULL CHECK (points >= 0), -- what the member paid
+  awarded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  notes TEXT,
+  UNIQUE (spawn_event_id, item) -- every drop of a kill is awarded once
+);
+
+-- ============================================
+-- 24. Create contribution_ledger table
+-- ============================================
+-- Append-only: every change to a member's points is a new row, and
+-- guild_member_contributions.contribution_score is the sum of the member's rows
+CREATE TABLE IF NOT EXISTS contribution_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  guild_id UUID NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'spend', 'adjust', 'decay')),
+  points NUMERIC(10, 2) NOT NULL, -- signed change
+  balance_after NUMERIC(10, 2) NOT NULL,
+  spawn_event_id UUID REFERENCES spawn_events(id) ON DELETE SET NULL,
+  loot_award_id UUID REFERENCES loot_awards(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL -- null for automatic entries
+);
+
+-- Append a ledger entry with its balance_after taken from the member's
+-- previous entry, and store that balance as the member's contribution_score
+-- (creating their contribution record if needed). Appends for one member run
+-- one at a time, and with p_require_balance the entry is refused when it would
+-- take the balance below zero, so concurrent spends cannot overdraw.
+-- p_event_date marks an event the member took part in
+CREATE OR REPLACE FUNCTION append_contribution_ledger_entry(
+  p_guild_id UUID,
+  p_member_name TEXT,
+  p_member_id UUID,
+  p_entry_type TEXT,
+  p_points NUMERIC,
+  p_reason TEXT,
+  p_spawn_event_id UUID,
+  p_loot_award_id UUID,
+  p_created_by UUID,
+  p_require_balance BOOLEAN DEFAULT false,
+  p_event_date TIMESTAMPTZ DEFAULT NULL
+) RETURNS contribution_ledger AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_member_id UUID;
+  v_entry contribution_ledger;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_guild_id::TEXT || ':' || p_member_name));
+
+  SELECT balance_after INTO v_balance
+  FROM contribution_ledger
+  WHERE guild_id = p_guild_id AND member_name = p_member_name
+  ORDER BY created DESC
+  LIMIT 1;
+
+  v_balance := ROUND(COALESCE(v_balance, 0) + p_points, 2);
+  IF p_require_balance AND v_balance < 0 THEN
+    RAISE EXCEPTION 'Not enough points (balance %)', v_balance - p_points USING ERRCODE = 'P0001', HINT = 'insufficient_points';
+  END IF;
+
+  v_member_id := p_member_id;
+  IF v_member_id IS NULL THEN
+    SELECT member_id INTO v_member_id
+    FROM guild_member_contributions
+    WHERE guild_id = p_guild_id AND member_name = p_member_name;
+  END IF;
+
+  INSERT INTO contribution_ledger (
+    created, guild_id, member_name, member_id, entry_type, points, balance_after,
+    spawn_event_id, loot_award_id, reason, created_by
+  ) VALUES (
+    clock_timestamp(), p_guild_id, p_member_name, v_member_id, p_entry_type, ROUND(p_points, 2), v_balance,
+    p_spawn_event_id, p_loot_award_id, p_reason, p_created_by
+  )
+  RETURNING * INTO v_entry;
+
+  INSERT INTO guild_member_contributions (guild_id, member_name, member_id, contribution_score, last_event_date)
+  VALUES (p_guild_id, p_member_name, v_member_id, v_balance, COALESCE(p_event_date, NOW()))
+  ON CONFLICT (guild_id, member_name) DO UPDATE SET
+    contribution_score = EXCLUDED.contribution_score,
+    last_event_date = COALESCE(p_event_date, guild_member_contributions.last_event_date);
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 25. Create spawn_attendance table
+-- ============================================
+CREATE TABLE IF NOT EXISTS spawn_attendance (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created TIMESTAMPTZ DEFAULT NOW(),
+  updated TIMESTAMPTZ DEFAULT NOW(),
+  spawn_event_id UUID NOT NULL REFERENCES spawn_events(id) ON DELETE CASCADE,
+  member_name TEXT NOT NULL,
+  member_id UUID REFERENCES users(id) ON DELETE SET NULL, -- set when the name belongs to a registered user
+  source TEXT NOT NULL DEFAULT 'reported' CHECK (source IN ('reported', 'check_in')),
+  checked_in_at TIMESTAMPTZ,
+  checked_out_at TIMESTAMPTZ,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE(spawn_event_id, member_name)
+);
+
+-- ============================================
+-- 26. Create indexes for better performance
 -- ============================================
 
 -- Bosses indexes
@@ -165,6 +782,8 @@ CREATE INDEX IF NOT EXISTS idx_spawn_events_server ON spawn_events(server);
 CREATE INDEX IF NOT EXISTS idx_spawn_events_spawn_time ON spawn_events(spawn_time);
 CREATE INDEX IF NOT EXISTS idx_spawn_events_reported_by ON spawn_events(reported_by);
 CREATE INDEX IF NOT EXISTS idx_spawn_events_verified ON spawn_events(verified);
+CREATE INDEX IF NOT EXISTS idx_spawn_events_verification_status ON spawn_events(verification_status);
+CREATE INDEX IF NOT EXISTS idx_spawn_events_killed_by_guild ON spawn_events(killed_by_guild);
 
 -- Users indexes
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
@@ -176,6 +795,7 @@ CREATE INDEX IF NOT EXISTS idx_comments_boss_id ON comments(boss_id);
 CREATE INDEX IF NOT EXISTS idx_comments_user_id ON comments(user_id);
 CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
 CREATE INDEX IF NOT EXISTS idx_comments_is_deleted ON comments(is_deleted);
+CREATE INDEX IF NOT EXISTS idx_comments_created ON comments(created DESC);
 
 -- Guilds indexes
 CREATE INDEX IF NOT EXISTS idx_guilds_leader_id ON guilds(leader_id);
@@ -187,8 +807,71 @@ CREATE INDEX IF NOT EXISTS idx_guild_member_contributions_member_name ON guild_m
 CREATE INDEX IF NOT EXISTS idx_guild_member_contributions_member_id ON guild_member_contributions(member_id);
 CREATE INDEX IF NOT EXISTS idx_guild_member_contributions_score ON guild_member_contributions(contribution_score DESC);
 
+-- Notifications indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_boss_id ON notifications(boss_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(sent, next_attempt_at);
+
+-- Guild webhooks indexes
+CREATE INDEX IF NOT EXISTS idx_guild_webhooks_enabled ON guild_webhooks(enabled);
+
+-- Guild join requests indexes
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_guild_id ON guild_join_requests(guild_id);
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_user_id ON guild_join_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_guild_join_requests_status ON guild_join_requests(status);
+
+-- Comment likes indexes
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON comment_likes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_user_id ON comment_likes(user_id);
+
+-- Spawn confirmations indexes
+CREATE INDEX IF NOT EXISTS idx_spawn_confirmations_spawn_event_id ON spawn_confirmations(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_spawn_confirmations_user_id ON spawn_confirmations(user_id);
+
+-- Servers indexes
+CREATE INDEX IF NOT EXISTS idx_servers_region ON servers(region);
+CREATE INDEX IF NOT EXISTS idx_servers_status ON servers(status);
+
+-- Server events indexes
+CREATE INDEX IF NOT EXISTS idx_server_events_server_occurred_at ON server_events(server, occurred_at DESC);
+
+-- Calendar feeds indexes
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON calendar_feeds(user_id);
+
+-- Role indexes
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role <> 'user';
+CREATE INDEX IF NOT EXISTS idx_role_changes_user_id ON role_changes(user_id);
+CREATE INDEX IF NOT EXISTS idx_role_changes_guild_id ON role_changes(guild_id);
+CREATE INDEX IF NOT EXISTS idx_role_changes_created ON role_changes(created DESC);
+
+-- Session indexes
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+-- Password reset code indexes
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user_id ON password_reset_codes(user_id);
+
+-- Login attempt indexes
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id_created ON login_attempts(user_id, created DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_created ON login_attempts(created DESC);
+
+-- Achievement indexes
+CREATE INDEX IF NOT EXISTS idx_user_achievements_achievement ON user_achievements(achievement);
+
+-- Leaderboard snapshot indexes
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_lookup ON leaderboard_snapshots(category, period, server, computed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_loot_awards_guild_id_created ON loot_awards(guild_id, created DESC);
+CREATE INDEX IF NOT EXISTS idx_loot_awards_spawn_event_id ON loot_awards(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_contribution_ledger_member ON contribution_ledger(guild_id, member_name, created);
+CREATE INDEX IF NOT EXISTS idx_contribution_ledger_guild_id_created ON contribution_ledger(guild_id, created DESC);
+
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_spawn_event_id ON spawn_attendance(spawn_event_id);
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_member_name ON spawn_attendance(member_name);
+CREATE INDEX IF NOT EXISTS idx_spawn_attendance_member_id ON spawn_attendance(member_id);
+
 -- ============================================
--- 9. Create updated timestamp trigger function
+-- 27. Create updated timestamp trigger function
 -- ============================================
 CREATE OR REPLACE FUNCTION update_updated_column()
 RETURNS TRIGGER AS $$
@@ -217,8 +900,50 @@ CREATE TRIGGER update_guilds_updated BEFORE UPDATE ON guilds
 CREATE TRIGGER update_guild_member_contributions_updated BEFORE UPDATE ON guild_member_contributions
   FOR EACH ROW EXECUTE FUNCTION update_updated_column();
 
+CREATE TRIGGER update_notifications_updated BEFORE UPDATE ON notifications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_guild_webhooks_updated BEFORE UPDATE ON guild_webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_guild_join_requests_updated BEFORE UPDATE ON guild_join_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_spawn_confirmations_updated BEFORE UPDATE ON spawn_confirmations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_servers_updated BEFORE UPDATE ON servers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_calendar_feeds_updated BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_role_changes_updated BEFORE UPDATE ON role_changes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_user_sessions_updated BEFORE UPDATE ON user_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_refresh_tokens_updated BEFORE UPDATE ON refresh_tokens
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_password_reset_codes_updated BEFORE UPDATE ON password_reset_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_login_attempts_updated BEFORE UPDATE ON login_attempts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_user_achievements_updated BEFORE UPDATE ON user_achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_leaderboard_snapshots_updated BEFORE UPDATE ON leaderboard_snapshots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
+CREATE TRIGGER update_spawn_attendance_updated BEFORE UPDATE ON spawn_attendance
+  FOR EACH ROW EXECUTE FUNCTION update_updated_column();
+
 -- ============================================
--- 10. Set up Row Level Security (RLS) policies
+-- 28. Set up Row Level Security (RLS) policies
 -- ============================================
 
 -- Enable RLS on all tables
@@ -228,6 +953,24 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE guilds ENABLE ROW LEVEL SECURITY;
 ALTER TABLE guild_member_contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guild_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guild_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE spawn_confirmations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE servers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE server_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loot_awards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contribution_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE spawn_attendance ENABLE ROW LEVEL SECURITY;
 
 -- Bosses policies: Everyone can read, authenticated users can write
 CREATE POLICY "Bosses are viewable by everyone" ON bosses
@@ -292,6 +1035,9 @@ CREATE POLICY "Allow guild creation via API" ON guilds
 CREATE POLICY "Guild leaders can update their guilds" ON guilds
   FOR UPDATE USING (auth.uid() = leader_id OR auth.role() = 'service_role');
 
+CREATE POLICY "Guild leaders can delete their guilds" ON guilds
+  FOR DELETE USING (auth.uid() = leader_id OR auth.role() = 'service_role');
+
 -- Guild member contributions policies
 CREATE POLICY "Contributions are viewable by everyone" ON guild_member_contributions
   FOR SELECT USING (true);
@@ -305,13 +1051,116 @@ CREATE POLICY "Service role can update contributions" ON guild_member_contributi
 CREATE POLICY "Service role can delete contributions" ON guild_member_contributions
   FOR DELETE USING (auth.role() = 'service_role');
 
+-- Notifications policies: only the recipient (or the backend) can read them
+CREATE POLICY "Users can view their own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id OR auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage notifications" ON notifications
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Guild webhooks policies: URLs and secrets are private, only the backend can access them
+CREATE POLICY "Service role can manage guild webhooks" ON guild_webhooks
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Guild join requests policies
+CREATE POLICY "Users can view their own join requests" ON guild_join_requests
+  FOR SELECT USING (auth.uid() = user_id OR auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage join requests" ON guild_join_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Comment likes policies
+CREATE POLICY "Comment likes are viewable by everyone" ON comment_likes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage comment likes" ON comment_likes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Spawn confirmations policies
+CREATE POLICY "Spawn confirmations are viewable by everyone" ON spawn_confirmations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage spawn confirmations" ON spawn_confirmations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Servers policies
+CREATE POLICY "Servers are viewable by everyone" ON servers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage servers" ON servers
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Server events policies: audit log, managed by the backend only
+CREATE POLICY "Service role can manage server events" ON server_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Calendar feeds policies: tokens are secrets, only the backend reads them
+CREATE POLICY "Service role can manage calendar feeds" ON calendar_feeds
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Role changes policies: audit log, managed by the backend only
+CREATE POLICY "Service role can manage role changes" ON role_changes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Session and refresh token policies: credentials, only the backend reads them
+CREATE POLICY "Service role can manage user sessions" ON user_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage refresh tokens" ON refresh_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Password reset code policies: credentials, only the backend reads them
+CREATE POLICY "Service role can manage password reset codes" ON password_reset_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Login attempt policies: the login audit is only read through the backend
+CREATE POLICY "Service role can manage login attempts" ON login_attempts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Achievement policies: awards are public, only the backend grants them
+CREATE POLICY "User achievements are viewable by everyone" ON user_achievements
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage user achievements" ON user_achievements
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Leaderboard snapshot policies: public rankings, only the backend computes them
+CREATE POLICY "Leaderboard snapshots are viewable by everyone" ON leaderboard_snapshots
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage leaderboard snapshots" ON leaderboard_snapshots
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Loot award policies: public, only the backend records awards
+CREATE POLICY "Loot awards are viewable by everyone" ON loot_awards
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage loot awards" ON loot_awards
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Contribution ledger policies: public, and append-only (no update or delete policy)
+CREATE POLICY "Contribution ledger entries are viewable by everyone" ON contribution_ledger
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can append contribution ledger entries" ON contribution_ledger
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+-- Spawn attendance policies: public, only the backend records attendance
+CREATE POLICY "Spawn attendance is viewable by everyone" ON spawn_attendance
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage spawn attendance" ON spawn_attendance
+  FOR ALL USING (auth.role() = 'service_role');
+
 -- ============================================
--- 11. Create Storage bucket for uploads (if using file storage)
+-- 29. Create Storage bucket for uploads (if using file storage)
 -- ============================================
 -- Note: This requires Supabase Storage to be enabled
 -- You can create this bucket manually in the Storage section of Supabase dashboard
 -- Bucket name: 'uploads'
 -- Public: false (or true if you want public access)
+-- Boss images and avatars are stored here when UPLOAD_STORAGE=supabase;
+-- the bucket must be public for their URLs to load
 
 -- ============================================
 -- Setup Complete!